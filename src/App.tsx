@@ -9,9 +9,14 @@ import Jobs from "./pages/Jobs";
 import JobDetails from "./pages/JobDetails";
 import Dashboard from "./pages/Dashboard";
 import PostJob from "./pages/PostJob";
+import MyJobs from "./pages/MyJobs";
 import Applicants from "./pages/Applicants";
+import MyApplications from "./pages/MyApplications";
 import Analytics from "./pages/Analytics";
 import Profile from "./pages/Profile";
+import SavedJobs from "./pages/SavedJobs";
+import SavedSearches from "./pages/SavedSearches";
+import TalentSearch from "./pages/TalentSearch";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -29,9 +34,15 @@ const App = () => (
           <Route path="/jobs/:id" element={<JobDetails />} />
           <Route path="/dashboard" element={<Dashboard />} />
           <Route path="/post-job" element={<PostJob />} />
+          <Route path="/post-job/:id" element={<PostJob />} />
+          <Route path="/my-jobs" element={<MyJobs />} />
           <Route path="/applicants" element={<Applicants />} />
+          <Route path="/my-applications" element={<MyApplications />} />
           <Route path="/analytics" element={<Analytics />} />
           <Route path="/profile" element={<Profile />} />
+          <Route path="/saved-jobs" element={<SavedJobs />} />
+          <Route path="/saved-searches" element={<SavedSearches />} />
+          <Route path="/candidates" element={<TalentSearch />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
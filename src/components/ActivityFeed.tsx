@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { describeActivity, type ActivityEvent, type ActivityEventType } from "@/lib/activity";
+import { toast } from "sonner";
+import { Bookmark, Briefcase, FileText, GitCommitHorizontal, Undo2, User, XCircle } from "lucide-react";
+
+type UserRole = Database["public"]["Enums"]["user_role"];
+
+interface ActivityFeedProps {
+  userId: string;
+  role: UserRole;
+}
+
+const ACTIVITY_ICONS: Record<ActivityEventType, typeof Briefcase> = {
+  application_submitted: FileText,
+  application_status_changed: GitCommitHorizontal,
+  application_withdrawn: Undo2,
+  job_posted: Briefcase,
+  job_closed: XCircle,
+  profile_updated: User,
+  job_saved: Bookmark,
+};
+
+const PAGE_SIZE = 10;
+
+export const ActivityFeed = ({ userId, role }: ActivityFeedProps) => {
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+
+  const fetchEvents = useCallback(
+    async (after: ActivityEvent | null) => {
+      setLoading(true);
+      try {
+        let query = supabase
+          .from("activity_events")
+          .select("*")
+          .eq("user_id", userId)
+          .order("created_at", { ascending: false })
+          .order("id", { ascending: false })
+          .limit(PAGE_SIZE);
+
+        // Keyset pagination on (created_at, id), so entries logged meanwhile don't shift pages
+        if (after) {
+          query = query.or(
+            `created_at.lt."${after.created_at}",and(created_at.eq."${after.created_at}",id.lt.${after.id})`
+          );
+        }
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        const page = data || [];
+        setEvents((previous) => (after ? [...previous, ...page] : page));
+        setHasMore(page.length === PAGE_SIZE);
+      } catch (error) {
+        toast.error("Failed to load recent activity");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [userId]
+  );
+
+  useEffect(() => {
+    fetchEvents(null);
+  }, [fetchEvents]);
+
+  if (!loading && events.length === 0) {
+    return <p className="text-center text-muted-foreground py-8">No recent activity to display</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {events.map((event) => {
+        const { message, link } = describeActivity(event, role);
+        const Icon = ACTIVITY_ICONS[event.event_type];
+        const content = (
+          <>
+            <div className="mt-0.5 rounded-full bg-secondary p-2">
+              <Icon className="h-4 w-4 text-primary" />
+            </div>
+            <div className="flex-1">
+              <p className="text-sm">{message}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(event.created_at), { addSuffix: true })}
+              </p>
+            </div>
+          </>
+        );
+
+        return link ? (
+          <Link
+            key={event.id}
+            to={link}
+            className="flex gap-3 rounded-md p-2 transition-colors hover:bg-secondary/50"
+          >
+            {content}
+          </Link>
+        ) : (
+          <div key={event.id} className="flex gap-3 p-2">
+            {content}
+          </div>
+        );
+      })}
+
+      {loading && <p className="text-center text-sm text-muted-foreground py-4">Loading activity...</p>}
+
+      {hasMore && !loading && (
+        <div className="flex justify-center pt-2">
+          <Button variant="outline" size="sm" onClick={() => fetchEvents(events[events.length - 1])}>
+            Show older activity
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import { Bar, BarChart, CartesianGrid, Cell, LabelList, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { describeSource, groupBySource, type SourceBreakdown } from "@/lib/attribution";
+import {
+  formatHours,
+  formatPeriod,
+  withConversion,
+  type AnalyticsInterval,
+  type ApplicationsPeriod,
+  type FunnelStage,
+  type StageDuration,
+} from "@/lib/analytics";
+
+const funnelConfig = {
+  reached: { label: "Applications", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const stageColor = (outcome: FunnelStage["outcome"]) => {
+  if (outcome === "hired") return "hsl(var(--accent))";
+  if (outcome) return "hsl(var(--destructive))";
+  return "hsl(var(--primary))";
+};
+
+export const HiringFunnelChart = ({ funnel }: { funnel: FunnelStage[] }) => {
+  const data = withConversion(funnel).map((stage) => ({
+    ...stage,
+    label: stage.conversion === null ? "" : `${stage.reached} · ${stage.conversion}%`,
+  }));
+
+  return (
+    <ChartContainer config={funnelConfig} className="aspect-auto w-full" style={{ height: data.length * 44 + 24 }}>
+      <BarChart data={data} layout="vertical" margin={{ left: 8, right: 72 }}>
+        <CartesianGrid horizontal={false} />
+        <YAxis dataKey="stage_name" type="category" width={120} tickLine={false} axisLine={false} />
+        <XAxis type="number" allowDecimals={false} hide />
+        <ChartTooltip
+          cursor={false}
+          content={
+            <ChartTooltipContent
+              formatter={(value, _name, item) => (
+                <span>
+                  {value} reached
+                  {item.payload.current > 0 && `, ${item.payload.current} here now`}
+                  {item.payload.conversion !== null &&
+                    ` · ${item.payload.conversion}% of ${item.payload.isExit ? "all applications" : "previous stage"}`}
+                </span>
+              )}
+            />
+          }
+        />
+        <Bar dataKey="reached" radius={4}>
+          {data.map((stage) => (
+            <Cell key={stage.stage_name} fill={stageColor(stage.outcome)} />
+          ))}
+          <LabelList dataKey="label" position="right" className="fill-foreground" fontSize={12} />
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+const durationConfig = {
+  median_hours: { label: "Median time in stage", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+export const StageDurationChart = ({ durations }: { durations: StageDuration[] }) => (
+  <ChartContainer config={durationConfig} className="aspect-auto h-64 w-full">
+    <BarChart data={durations} margin={{ top: 24 }}>
+      <CartesianGrid vertical={false} />
+      <XAxis dataKey="stage_name" tickLine={false} axisLine={false} />
+      <YAxis hide />
+      <ChartTooltip
+        cursor={false}
+        content={
+          <ChartTooltipContent
+            formatter={(value, _name, item) => (
+              <span>
+                {formatHours(Number(value))} median across {item.payload.moves}{" "}
+                {item.payload.moves === 1 ? "application" : "applications"}
+              </span>
+            )}
+          />
+        }
+      />
+      <Bar dataKey="median_hours" fill="var(--color-median_hours)" radius={4}>
+        <LabelList
+          dataKey="median_hours"
+          position="top"
+          className="fill-foreground"
+          fontSize={12}
+          formatter={(value: number) => formatHours(value)}
+        />
+      </Bar>
+    </BarChart>
+  </ChartContainer>
+);
+
+const timelineConfig = {
+  applications: { label: "Applications", color: "hsl(var(--primary))" },
+  hires: { label: "Hires", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+interface ApplicationsOverTimeChartProps {
+  periods: ApplicationsPeriod[];
+  interval: AnalyticsInterval;
+}
+
+export const ApplicationsOverTimeChart = ({ periods, interval }: ApplicationsOverTimeChartProps) => (
+  <ChartContainer config={timelineConfig} className="aspect-auto h-72 w-full">
+    <LineChart data={periods} margin={{ left: 4, right: 12 }}>
+      <CartesianGrid vertical={false} />
+      <XAxis
+        dataKey="period"
+        tickLine={false}
+        axisLine={false}
+        minTickGap={24}
+        tickFormatter={(period: string) => formatPeriod(period, interval)}
+      />
+      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+      <ChartTooltip
+        content={
+          <ChartTooltipContent
+            labelFormatter={(_label, payload) => {
+              if (!payload[0]) return null;
+              const period = formatPeriod(payload[0].payload.period, interval);
+              return interval === "week" ? `Week of ${period}` : period;
+            }}
+          />
+        }
+      />
+      <ChartLegend content={<ChartLegendContent />} />
+      <Line dataKey="applications" type="monotone" stroke="var(--color-applications)" strokeWidth={2} dot={false} />
+      <Line dataKey="hires" type="monotone" stroke="var(--color-hires)" strokeWidth={2} dot={false} />
+    </LineChart>
+  </ChartContainer>
+);
+
+const sourceConfig = {
+  applications: { label: "Applicants", color: "hsl(var(--primary))" },
+  hired: { label: "Hired", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+export const SourceBreakdownChart = ({ sources }: { sources: SourceBreakdown[] }) => {
+  const data = groupBySource(sources).map((row) => ({ ...row, label: describeSource(row.source) }));
+
+  return (
+    <ChartContainer config={sourceConfig} className="aspect-auto w-full" style={{ height: data.length * 52 + 56 }}>
+      <BarChart data={data} layout="vertical" margin={{ left: 8, right: 24 }}>
+        <CartesianGrid horizontal={false} />
+        <YAxis dataKey="label" type="category" width={110} tickLine={false} axisLine={false} />
+        <XAxis type="number" allowDecimals={false} hide />
+        <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="applications" fill="var(--color-applications)" radius={4} />
+        <Bar dataKey="hired" fill="var(--color-hired)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+};
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  formatNoteTime,
+  MAX_NOTE_LENGTH,
+  MAX_RATING,
+  MAX_TAGS,
+  normalizeReviewTag,
+  sortNotes,
+  type ApplicationNote,
+  type ApplicationReview,
+} from "@/lib/applicationReview";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import { Lock, Star, Tag, Trash2 } from "lucide-react";
+
+interface ApplicantAssessmentProps {
+  applicationId: string;
+  userId: string;
+  review: ApplicationReview | null;
+  notes: ApplicationNote[];
+  onReviewChange: (review: ApplicationReview) => void;
+  onNotesChange: (notes: ApplicationNote[]) => void;
+}
+
+// Older notes stay behind "Show all" so long threads don't swamp the card
+const VISIBLE_NOTES = 3;
+
+export const ApplicantAssessment = ({
+  applicationId,
+  userId,
+  review,
+  notes,
+  onReviewChange,
+  onNotesChange,
+}: ApplicantAssessmentProps) => {
+  const [tagInput, setTagInput] = useState("");
+  const [noteInput, setNoteInput] = useState("");
+  const [savingNote, setSavingNote] = useState(false);
+  const [showAllNotes, setShowAllNotes] = useState(false);
+
+  const rating = review?.rating ?? null;
+  const tags = review?.tags ?? [];
+  const sortedNotes = sortNotes(notes);
+  const visibleNotes = showAllNotes ? sortedNotes : sortedNotes.slice(0, VISIBLE_NOTES);
+
+  const saveReview = async (updates: Pick<ApplicationReview, "rating" | "tags">) => {
+    const { data, error } = await supabase
+      .from("application_reviews")
+      .upsert({ application_id: applicationId, ...updates })
+      .select()
+      .single();
+
+    if (error) {
+      console.error(error);
+      toast.error("Failed to save review");
+      return false;
+    }
+    onReviewChange(data);
+    return true;
+  };
+
+  // Clicking the current rating again clears it
+  const rate = (value: number) => saveReview({ rating: value === rating ? null : value, tags });
+
+  const addTag = async () => {
+    const tag = normalizeReviewTag(tagInput);
+    if (!tag) return;
+    if (tags.includes(tag)) {
+      toast.error("Tag already added");
+      return;
+    }
+    if (tags.length >= MAX_TAGS) {
+      toast.error(`You can add up to ${MAX_TAGS} tags`);
+      return;
+    }
+    if (await saveReview({ rating, tags: [...tags, tag] })) setTagInput("");
+  };
+
+  const removeTag = (tagToRemove: string) =>
+    saveReview({ rating, tags: tags.filter((tag) => tag !== tagToRemove) });
+
+  const addNote = async () => {
+    const body = noteInput.trim();
+    if (!body) return;
+
+    setSavingNote(true);
+    const { data, error } = await supabase
+      .from("application_notes")
+      .insert({ application_id: applicationId, body })
+      .select()
+      .single();
+    setSavingNote(false);
+
+    if (error) {
+      console.error(error);
+      toast.error("Failed to add note");
+      return;
+    }
+    onNotesChange([...notes, data]);
+    setNoteInput("");
+  };
+
+  const deleteNote = async (noteId: string) => {
+    const { error } = await supabase.from("application_notes").delete().eq("id", noteId);
+
+    if (error) {
+      toast.error("Failed to delete note");
+      return;
+    }
+    onNotesChange(notes.filter((note) => note.id !== noteId));
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="font-semibold flex items-center gap-2">
+          <Lock className="h-4 w-4" />
+          Your Assessment
+        </h4>
+        <span className="text-xs text-muted-foreground">Never shown to the applicant</span>
+      </div>
+
+      <div className="flex items-center gap-1" role="group" aria-label="Rating">
+        {Array.from({ length: MAX_RATING }, (_, index) => index + 1).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => rate(value)}
+            aria-label={`${value} star${value === 1 ? "" : "s"}`}
+            aria-pressed={rating === value}
+            className="text-muted-foreground hover:text-primary"
+          >
+            <Star className={cn("h-5 w-5", rating !== null && value <= rating && "fill-primary text-primary")} />
+          </button>
+        ))}
+        <span className="ml-2 text-sm text-muted-foreground">{rating ? `${rating}/${MAX_RATING}` : "Not rated"}</span>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-2">
+          {tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              <Tag className="h-3 w-3" />
+              {tag}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                aria-label={`Remove tag ${tag}`}
+                className="ml-1 text-muted-foreground hover:text-foreground"
+              >
+                ×
+              </button>
+            </Badge>
+          ))}
+        </div>
+        <div className="flex gap-2 max-w-sm">
+          <Input
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            placeholder="Add a tag, e.g. strong-frontend"
+            aria-label="New tag"
+            onKeyDown={(e) => e.key === "Enter" && (e.preventDefault(), addTag())}
+          />
+          <Button type="button" variant="outline" onClick={addTag} disabled={!normalizeReviewTag(tagInput)}>
+            Add
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Textarea
+          value={noteInput}
+          onChange={(e) => setNoteInput(e.target.value)}
+          placeholder="Add a private note..."
+          aria-label="New note"
+          rows={2}
+          maxLength={MAX_NOTE_LENGTH}
+        />
+        <Button type="button" size="sm" onClick={addNote} disabled={savingNote || !noteInput.trim()}>
+          {savingNote ? "Saving..." : "Add Note"}
+        </Button>
+        {visibleNotes.length > 0 && (
+          <ul className="space-y-3 pt-2">
+            {visibleNotes.map((note) => (
+              <li key={note.id} className="text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-muted-foreground">{formatNoteTime(note.created_at)}</span>
+                  {note.author_id === userId && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => deleteNote(note.id)}
+                      aria-label="Delete note"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+                <p className="whitespace-pre-wrap">{note.body}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        {sortedNotes.length > VISIBLE_NOTES && (
+          <Button variant="link" size="sm" className="px-0" onClick={() => setShowAllNotes(!showAllNotes)}>
+            {showAllNotes ? "Show fewer notes" : `Show all ${sortedNotes.length} notes`}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import {
+  HISTORY_SECTIONS,
+  isSafeUrl,
+  sortByRecency,
+  type HistoryEntry,
+  type HistoryTable,
+} from "@/lib/profileHistory";
+import { ExternalLink, GraduationCap } from "lucide-react";
+
+interface ApplicantBackgroundProps {
+  profile: Partial<Record<HistoryTable, HistoryEntry[] | null>>;
+}
+
+/** The applicant's work history, education, certifications and portfolio; renders nothing when all are empty. */
+export const ApplicantBackground = ({ profile }: ApplicantBackgroundProps) => {
+  const sections = HISTORY_SECTIONS.map((section) => ({
+    section,
+    entries: sortByRecency(profile[section.table] || [], section),
+  })).filter(({ entries }) => entries.length > 0);
+
+  if (sections.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="font-semibold mb-2 flex items-center gap-2">
+        <GraduationCap className="h-4 w-4" />
+        Background
+      </h4>
+      <div className="grid gap-4 sm:grid-cols-2">
+        {sections.map(({ section, entries }) => (
+          <div key={section.table}>
+            <h5 className="text-sm font-medium mb-2">{section.title}</h5>
+            <ol className="space-y-3 border-l-2 border-muted pl-4">
+              {entries.map((entry) => {
+                const summary = section.summarize(entry);
+                return (
+                  <li key={entry.id} className="relative text-sm">
+                    <span className="absolute -left-[1.4rem] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+                    {summary.url && isSafeUrl(summary.url) ? (
+                      <a
+                        href={summary.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-medium text-primary hover:underline inline-flex items-center gap-1"
+                      >
+                        {summary.title}
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    ) : (
+                      <p className="font-medium">{summary.title}</p>
+                    )}
+                    {summary.subtitle && <p>{summary.subtitle}</p>}
+                    {summary.period && <p className="text-muted-foreground">{summary.period}</p>}
+                    {summary.description && (
+                      <p className="text-muted-foreground whitespace-pre-line line-clamp-3">{summary.description}</p>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import type { ApplicationStatus } from "@/lib/applicationStatus";
+import type { StageOutcome } from "@/lib/hiringStages";
+import { cn } from "@/lib/utils";
+import { Calendar, Flag } from "lucide-react";
+
+export interface KanbanColumn {
+  key: string;
+  label: string;
+  outcome: StageOutcome | null;
+}
+
+export interface KanbanApplication {
+  id: string;
+  /** Key of the column the card currently sits in */
+  columnKey: string;
+  applied_at: string | null;
+  status: ApplicationStatus;
+  is_flagged: boolean;
+  jobs: { title: string } | null;
+  profiles: { full_name: string } | null;
+}
+
+interface ApplicantsKanbanProps {
+  columns: KanbanColumn[];
+  applications: KanbanApplication[];
+  onMove: (applicationId: string, columnKey: string) => void;
+}
+
+export const ApplicantsKanban = ({ columns, applications, onMove }: ApplicantsKanbanProps) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overColumn, setOverColumn] = useState<string | null>(null);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, columnKey: string) => {
+    e.preventDefault();
+    const applicationId = e.dataTransfer.getData("text/plain");
+    const application = applications.find((app) => app.id === applicationId);
+    if (application && application.status !== "withdrawn" && application.columnKey !== columnKey) {
+      onMove(applicationId, columnKey);
+    }
+    setDraggingId(null);
+    setOverColumn(null);
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {columns.map((column) => {
+        const columnApplications = applications.filter((app) => app.columnKey === column.key);
+        return (
+          <div
+            key={column.key}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setOverColumn(column.key);
+            }}
+            onDragLeave={() => setOverColumn(null)}
+            onDrop={(e) => handleDrop(e, column.key)}
+            className={cn(
+              "w-64 shrink-0 rounded-lg border-2 border-dashed bg-secondary/30 p-3 min-h-[300px] transition-colors",
+              column.outcome === "hired" && "bg-accent/10",
+              (column.outcome === "rejected" || column.outcome === "withdrawn") && "bg-destructive/5",
+              overColumn === column.key && "border-primary bg-primary/5"
+            )}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold">{column.label}</h3>
+              <Badge variant="secondary">{columnApplications.length}</Badge>
+            </div>
+            <div className="space-y-2">
+              {columnApplications.map((application) => {
+                // Withdrawn applications can't change stage
+                const locked = application.status === "withdrawn";
+                return (
+                  <div
+                    key={application.id}
+                    draggable={!locked}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData("text/plain", application.id);
+                      e.dataTransfer.effectAllowed = "move";
+                      setDraggingId(application.id);
+                    }}
+                    onDragEnd={() => setDraggingId(null)}
+                    className={cn(
+                      "rounded-md border bg-card p-3 shadow-sm",
+                      locked ? "opacity-60" : "cursor-grab active:cursor-grabbing",
+                      draggingId === application.id && "opacity-50"
+                    )}
+                  >
+                    <p className="font-medium flex items-center gap-1">
+                      {application.profiles?.full_name || "Unknown Applicant"}
+                      {application.is_flagged && (
+                        <Flag className="h-3 w-3 text-destructive" aria-label="Flagged by screening" />
+                      )}
+                    </p>
+                    <p className="text-sm text-muted-foreground">{application.jobs?.title}</p>
+                    {locked && (
+                      <Badge variant="outline" className="mt-1">
+                        Withdrawn
+                      </Badge>
+                    )}
+                    {application.applied_at && (
+                      <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                        <Calendar className="h-3 w-3" />
+                        {new Date(application.applied_at).toLocaleDateString("en-US", {
+                          month: "short",
+                          day: "numeric",
+                        })}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
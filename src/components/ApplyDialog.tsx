@@ -0,0 +1,216 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { clearAttribution, getAttribution } from "@/lib/attribution";
+import type { Resume } from "@/lib/resumes";
+import type { ApplicantQuestion } from "@/lib/screening";
+import { toast } from "sonner";
+
+interface ApplyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobId: string;
+  jobTitle: string;
+  userId: string;
+  onApplied: () => void;
+}
+
+const NO_RESUME = "none";
+
+export const ApplyDialog = ({ open, onOpenChange, jobId, jobTitle, userId, onApplied }: ApplyDialogProps) => {
+  const [questions, setQuestions] = useState<ApplicantQuestion[]>([]);
+  const [resumes, setResumes] = useState<Resume[]>([]);
+  const [coverLetter, setCoverLetter] = useState("");
+  const [resumeChoice, setResumeChoice] = useState(NO_RESUME);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchApplyData = async () => {
+      const [questionsResult, resumesResult] = await Promise.all([
+        supabase.rpc("get_screening_questions", { p_job_id: jobId }),
+        supabase
+          .from("resumes")
+          .select("*")
+          .eq("user_id", userId)
+          .order("uploaded_at", { ascending: false }),
+      ]);
+
+      setQuestions(questionsResult.data || []);
+      const userResumes = resumesResult.data || [];
+      setResumes(userResumes);
+      setResumeChoice(userResumes.find((resume) => resume.is_default)?.id ?? NO_RESUME);
+    };
+
+    fetchApplyData();
+  }, [open, jobId, userId]);
+
+  const setAnswer = (questionId: string, answer: string) => {
+    setAnswers({ ...answers, [questionId]: answer });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const unanswered = questions.find((q) => q.is_required && !answers[q.id]?.trim());
+    if (unanswered) {
+      toast.error(`Please answer: ${unanswered.prompt}`);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const attribution = getAttribution(jobId, session?.user.user_metadata);
+
+      // Inserts the application and its answers together and runs the knockout checks
+      const { error } = await supabase.rpc("submit_application", {
+        p_job_id: jobId,
+        p_cover_letter: coverLetter.trim() || undefined,
+        // The database copies the chosen version's file onto the application
+        p_resume_id: resumeChoice === NO_RESUME ? undefined : resumeChoice,
+        p_source: attribution?.source ?? undefined,
+        p_campaign: attribution?.campaign ?? undefined,
+        p_answers: Object.fromEntries(
+          questions
+            .filter((q) => answers[q.id]?.trim())
+            .map((q) => [q.id, answers[q.id].trim()])
+        ),
+      });
+
+      if (error) {
+        if (error.code === "23505") {
+          toast.error("You've already applied to this job");
+          onOpenChange(false);
+          return;
+        }
+        throw error;
+      }
+
+      clearAttribution(jobId);
+      toast.success("Application submitted successfully!");
+      onOpenChange(false);
+      onApplied();
+    } catch (error) {
+      toast.error("Failed to submit application");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Apply for {jobTitle}</DialogTitle>
+          <DialogDescription>Your profile is shared with the recruiter along with these details.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label>Resume</Label>
+            <RadioGroup value={resumeChoice} onValueChange={setResumeChoice}>
+              {resumes.map((resume) => (
+                <div key={resume.id} className="flex items-center space-x-2">
+                  <RadioGroupItem value={resume.id} id={`resume-${resume.id}`} />
+                  <Label htmlFor={`resume-${resume.id}`} className="font-normal">
+                    {resume.name}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {resume.is_default ? "Default · " : ""}
+                      Uploaded {new Date(resume.uploaded_at).toLocaleDateString()}
+                    </span>
+                  </Label>
+                </div>
+              ))}
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value={NO_RESUME} id="resume-none" />
+                <Label htmlFor="resume-none" className="font-normal">
+                  Apply without a resume
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="cover_letter">Cover Letter</Label>
+            <Textarea
+              id="cover_letter"
+              rows={5}
+              value={coverLetter}
+              onChange={(e) => setCoverLetter(e.target.value)}
+              placeholder="Why are you a great fit for this role?"
+            />
+          </div>
+
+          {questions.map((question) => (
+            <div key={question.id} className="space-y-2">
+              <Label htmlFor={`question-${question.id}`}>
+                {question.prompt}
+                {question.is_required && " *"}
+              </Label>
+              {question.question_type === "text" && (
+                <Textarea
+                  id={`question-${question.id}`}
+                  rows={3}
+                  value={answers[question.id] ?? ""}
+                  onChange={(e) => setAnswer(question.id, e.target.value)}
+                />
+              )}
+              {question.question_type === "numeric" && (
+                <Input
+                  id={`question-${question.id}`}
+                  type="number"
+                  value={answers[question.id] ?? ""}
+                  onChange={(e) => setAnswer(question.id, e.target.value)}
+                />
+              )}
+              {(question.question_type === "yes_no" || question.question_type === "multiple_choice") && (
+                <RadioGroup
+                  value={answers[question.id] ?? ""}
+                  onValueChange={(value) => setAnswer(question.id, value)}
+                >
+                  {(question.question_type === "yes_no"
+                    ? [
+                        { value: "yes", label: "Yes" },
+                        { value: "no", label: "No" },
+                      ]
+                    : (question.options || []).map((option) => ({ value: option, label: option }))
+                  ).map((choice) => (
+                    <div key={choice.value} className="flex items-center space-x-2">
+                      <RadioGroupItem value={choice.value} id={`question-${question.id}-${choice.value}`} />
+                      <Label htmlFor={`question-${question.id}-${choice.value}`} className="font-normal">
+                        {choice.label}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              )}
+            </div>
+          ))}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              {submitting ? "Submitting..." : "Submit Application"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { formatRange, presetRange, RANGE_PRESETS } from "@/lib/analytics";
+import { cn } from "@/lib/utils";
+import { CalendarIcon } from "lucide-react";
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+  className?: string;
+}
+
+export const DateRangePicker = ({ value, onChange, className }: DateRangePickerProps) => {
+  const [open, setOpen] = useState(false);
+  // Picking in the calendar only takes effect on Apply, so half-picked ranges don't reload the page
+  const [draft, setDraft] = useState<DateRange | undefined>(value);
+
+  const handleOpenChange = (next: boolean) => {
+    setDraft(value);
+    setOpen(next);
+  };
+
+  const apply = (range: DateRange) => {
+    onChange(range);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className={cn("justify-start font-normal", className)}>
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {formatRange(value)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="flex w-auto flex-col p-0 sm:flex-row">
+        <div className="flex flex-col gap-1 border-b p-3 sm:border-b-0 sm:border-r">
+          {RANGE_PRESETS.map((preset) => (
+            <Button
+              key={preset.value}
+              variant="ghost"
+              size="sm"
+              className="justify-start"
+              onClick={() => apply(presetRange(preset.value))}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+        <div>
+          <Calendar
+            mode="range"
+            numberOfMonths={2}
+            defaultMonth={value.from}
+            selected={draft}
+            onSelect={setDraft}
+            disabled={{ after: new Date() }}
+            initialFocus
+          />
+          <div className="flex justify-end gap-2 border-t p-3">
+            <Button variant="outline" size="sm" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" disabled={!draft?.from} onClick={() => apply(draft)}>
+              Apply
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Separator } from "@/components/ui/separator";
+import { Slider } from "@/components/ui/slider";
+import {
+  EXPERIENCE_RANGE,
+  JOB_TYPE_OPTIONS,
+  POSTED_WITHIN_OPTIONS,
+  SALARY_RANGE,
+  countActiveFilters,
+  type JobFacets,
+  type JobFilters,
+} from "@/lib/jobFilters";
+
+interface JobFiltersPanelProps {
+  filters: JobFilters;
+  facets: JobFacets | null;
+  onChange: (changes: Partial<JobFilters>) => void;
+}
+
+const ANY = "any";
+
+const formatSalary = (value: number) => `$${(value / 1000).toFixed(0)}k`;
+
+// Maps slider positions back to filters, treating either end as unbounded
+const toBounds = ([low, high]: number[], range: { min: number; max: number }) => ({
+  min: low <= range.min ? null : low,
+  max: high >= range.max ? null : high,
+});
+
+const FacetCount = ({ count }: { count: number | undefined }) => (
+  <span className="ml-auto text-xs text-muted-foreground">{count ?? 0}</span>
+);
+
+export const JobFiltersPanel = ({ filters, facets, onChange }: JobFiltersPanelProps) => {
+  // Sliders move freely while dragging and only update the search when released
+  const [salary, setSalary] = useState<number[]>([]);
+  const [experience, setExperience] = useState<number[]>([]);
+
+  useEffect(() => {
+    setSalary([filters.salaryMin ?? SALARY_RANGE.min, filters.salaryMax ?? SALARY_RANGE.max]);
+  }, [filters.salaryMin, filters.salaryMax]);
+
+  useEffect(() => {
+    setExperience([
+      filters.experienceMin ?? EXPERIENCE_RANGE.min,
+      filters.experienceMax ?? EXPERIENCE_RANGE.max,
+    ]);
+  }, [filters.experienceMin, filters.experienceMax]);
+
+  const toggleJobType = (type: string, checked: boolean) => {
+    onChange({
+      jobTypes: checked
+        ? [...filters.jobTypes, type]
+        : filters.jobTypes.filter((t) => t !== type),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Filters</h2>
+        {countActiveFilters(filters) > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              onChange({
+                jobTypes: [],
+                salaryMin: null,
+                salaryMax: null,
+                experienceMin: null,
+                experienceMax: null,
+                postedWithin: null,
+              })
+            }
+          >
+            Clear all
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium">Job type</h3>
+        {JOB_TYPE_OPTIONS.map((option) => (
+          <div key={option.value} className="flex items-center gap-2">
+            <Checkbox
+              id={`job-type-${option.value}`}
+              checked={filters.jobTypes.includes(option.value)}
+              onCheckedChange={(checked) => toggleJobType(option.value, checked === true)}
+            />
+            <Label htmlFor={`job-type-${option.value}`} className="font-normal">
+              {option.label}
+            </Label>
+            <FacetCount count={facets?.job_types[option.value]} />
+          </div>
+        ))}
+      </div>
+
+      <Separator />
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium">Salary</h3>
+          <span className="text-xs text-muted-foreground">
+            {formatSalary(salary[0] ?? SALARY_RANGE.min)} –{" "}
+            {formatSalary(salary[1] ?? SALARY_RANGE.max)}
+            {(salary[1] ?? SALARY_RANGE.max) >= SALARY_RANGE.max && "+"}
+          </span>
+        </div>
+        <Slider
+          min={SALARY_RANGE.min}
+          max={SALARY_RANGE.max}
+          step={SALARY_RANGE.step}
+          value={salary}
+          onValueChange={setSalary}
+          onValueCommit={(value) => {
+            const { min, max } = toBounds(value, SALARY_RANGE);
+            onChange({ salaryMin: min, salaryMax: max });
+          }}
+        />
+      </div>
+
+      <Separator />
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium">Experience</h3>
+          <span className="text-xs text-muted-foreground">
+            {experience[0] ?? EXPERIENCE_RANGE.min} – {experience[1] ?? EXPERIENCE_RANGE.max}
+            {(experience[1] ?? EXPERIENCE_RANGE.max) >= EXPERIENCE_RANGE.max && "+"} years
+          </span>
+        </div>
+        <Slider
+          min={EXPERIENCE_RANGE.min}
+          max={EXPERIENCE_RANGE.max}
+          step={EXPERIENCE_RANGE.step}
+          value={experience}
+          onValueChange={setExperience}
+          onValueCommit={(value) => {
+            const { min, max } = toBounds(value, EXPERIENCE_RANGE);
+            onChange({ experienceMin: min, experienceMax: max });
+          }}
+        />
+      </div>
+
+      <Separator />
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium">Posted within</h3>
+        <RadioGroup
+          value={filters.postedWithin === null ? ANY : String(filters.postedWithin)}
+          onValueChange={(value) => onChange({ postedWithin: value === ANY ? null : Number(value) })}
+        >
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value={ANY} id="posted-any" />
+            <Label htmlFor="posted-any" className="font-normal">
+              Any time
+            </Label>
+            <FacetCount count={facets?.posted_within.any} />
+          </div>
+          {POSTED_WITHIN_OPTIONS.map((option) => (
+            <div key={option.days} className="flex items-center gap-2">
+              <RadioGroupItem value={String(option.days)} id={`posted-${option.days}`} />
+              <Label htmlFor={`posted-${option.days}`} className="font-normal">
+                {option.label}
+              </Label>
+              <FacetCount count={facets?.posted_within[option.days]} />
+            </div>
+          ))}
+        </RadioGroup>
+      </div>
+    </div>
+  );
+};
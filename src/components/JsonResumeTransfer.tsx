@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  fromJsonResume,
+  newSkills,
+  parseJsonResume,
+  toJsonResume,
+  withoutExisting,
+  type ExportProfile,
+  type JsonResumeImport,
+  type ProfileHistory,
+} from "@/lib/jsonResume";
+import { toast } from "sonner";
+import { Download, Upload } from "lucide-react";
+
+interface JsonResumeTransferProps {
+  profile: ExportProfile & { id: string };
+  /** Called once an import has been saved, so the page can reload the profile */
+  onImported: () => void;
+}
+
+interface PendingImport {
+  fileName: string;
+  profile: JsonResumeImport["profile"];
+  skills: string[];
+  history: ProfileHistory;
+  otherEmail: string | null;
+}
+
+const PROFILE_LABELS: Record<keyof JsonResumeImport["profile"], string> = {
+  full_name: "Name",
+  phone: "Phone",
+  location: "Location",
+  bio: "Bio",
+};
+
+const HISTORY_LABELS: Record<keyof ProfileHistory, [string, string]> = {
+  work_experiences: ["role", "roles"],
+  educations: ["education entry", "education entries"],
+  certifications: ["certification", "certifications"],
+  portfolio_links: ["portfolio link", "portfolio links"],
+};
+
+const fetchHistory = async (userId: string): Promise<ProfileHistory> => {
+  const [work, education, certifications, links] = await Promise.all([
+    supabase.from("work_experiences").select("*").eq("user_id", userId).order("start_date", { ascending: false }),
+    supabase.from("educations").select("*").eq("user_id", userId).order("start_date", { ascending: false }),
+    supabase.from("certifications").select("*").eq("user_id", userId).order("issued_on", { ascending: false }),
+    supabase.from("portfolio_links").select("*").eq("user_id", userId).order("created_at"),
+  ]);
+
+  const error = work.error || education.error || certifications.error || links.error;
+  if (error) throw error;
+
+  return {
+    work_experiences: work.data,
+    educations: education.data,
+    certifications: certifications.data,
+    portfolio_links: links.data,
+  };
+};
+
+const fileNameFor = (fullName: string) =>
+  `${fullName.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "resume"}.json`;
+
+export const JsonResumeTransfer = ({ profile, onImported }: JsonResumeTransferProps) => {
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const parsed = parseJsonResume(await file.text());
+    if (parsed.success === false) {
+      toast.error(`Couldn't import ${file.name}: ${parsed.error}`);
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const imported = fromJsonResume(parsed.resume);
+      const history = withoutExisting(imported.history, await fetchHistory(profile.id));
+      const changedProfile = Object.fromEntries(
+        Object.entries(imported.profile).filter(([key, value]) => profile[key as keyof ExportProfile] !== value)
+      ) as JsonResumeImport["profile"];
+
+      const next: PendingImport = {
+        fileName: file.name,
+        profile: changedProfile,
+        skills: newSkills(profile.skills, imported.skills),
+        history,
+        otherEmail: imported.email && imported.email !== profile.email ? imported.email : null,
+      };
+
+      const hasChanges =
+        Object.keys(next.profile).length > 0 ||
+        next.skills.length > 0 ||
+        Object.values(next.history).some((rows) => rows.length > 0);
+
+      if (hasChanges) {
+        setPending(next);
+      } else {
+        toast.info("Your profile already has everything in this file");
+      }
+    } catch (error) {
+      toast.error("Failed to read your current profile");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const applyImport = async () => {
+    if (!pending) return;
+
+    setBusy(true);
+    try {
+      if (Object.keys(pending.profile).length > 0 || pending.skills.length > 0) {
+        const { error } = await supabase
+          .from("profiles")
+          .update({ ...pending.profile, skills: [...(profile.skills || []), ...pending.skills] })
+          .eq("id", profile.id);
+        if (error) throw error;
+      }
+
+      const withOwner = <T,>(rows: T[]) => rows.map((row) => ({ ...row, user_id: profile.id }));
+      const { history } = pending;
+      const results = await Promise.all([
+        history.work_experiences.length > 0 &&
+          supabase.from("work_experiences").insert(withOwner(history.work_experiences)),
+        history.educations.length > 0 && supabase.from("educations").insert(withOwner(history.educations)),
+        history.certifications.length > 0 &&
+          supabase.from("certifications").insert(withOwner(history.certifications)),
+        history.portfolio_links.length > 0 &&
+          supabase.from("portfolio_links").insert(withOwner(history.portfolio_links)),
+      ]);
+      const insertError = results.find((result) => result && result.error);
+      if (insertError) throw insertError.error;
+
+      toast.success(`Imported ${pending.fileName}`);
+      setPending(null);
+    } catch (error) {
+      toast.error("Failed to import resume: " + error.message);
+    } finally {
+      setBusy(false);
+      // Part of the import may have been saved even when a later step failed
+      onImported();
+    }
+  };
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const resume = toJsonResume(profile, await fetchHistory(profile.id));
+      const blob = new Blob([JSON.stringify(resume, null, 2)], { type: "application/json" });
+      const link = document.createElement("a");
+      link.href = URL.createObjectURL(blob);
+      link.download = fileNameFor(profile.full_name);
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      toast.error("Failed to export resume");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const historyCounts = pending
+    ? (Object.keys(HISTORY_LABELS) as (keyof ProfileHistory)[])
+        .filter((table) => pending.history[table].length > 0)
+        .map((table) => {
+          const count = pending.history[table].length;
+          const [singular, plural] = HISTORY_LABELS[table];
+          return `${count} ${count === 1 ? singular : plural}`;
+        })
+    : [];
+
+  return (
+    <div className="flex flex-col gap-2 sm:flex-row">
+      <Input
+        id="json-resume-file"
+        type="file"
+        accept=".json,application/json"
+        onChange={handleFile}
+        disabled={busy}
+        className="hidden"
+      />
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => document.getElementById("json-resume-file")?.click()}
+        disabled={busy}
+      >
+        <Upload className="mr-2 h-4 w-4" />
+        Import JSON Resume
+      </Button>
+      <Button type="button" variant="outline" onClick={handleExport} disabled={busy}>
+        <Download className="mr-2 h-4 w-4" />
+        Export JSON Resume
+      </Button>
+
+      <AlertDialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Import {pending?.fileName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Entries already on your profile are skipped. You can edit anything afterwards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {pending && (
+            <ul className="space-y-1 text-sm">
+              {(Object.keys(pending.profile) as (keyof JsonResumeImport["profile"])[]).map((key) => (
+                <li key={key}>
+                  <span className="font-medium">{PROFILE_LABELS[key]}</span> will be replaced
+                </li>
+              ))}
+              {pending.skills.length > 0 && (
+                <li className="text-accent">+ {pending.skills.join(", ")}</li>
+              )}
+              {historyCounts.length > 0 && <li>Adds {historyCounts.join(", ")}</li>}
+              {pending.otherEmail && (
+                <li className="text-muted-foreground">
+                  {pending.otherEmail} isn't imported; your email stays the one you sign in with.
+                </li>
+              )}
+            </ul>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={busy}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                applyImport();
+              }}
+              disabled={busy}
+            >
+              {busy ? "Importing..." : "Import"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
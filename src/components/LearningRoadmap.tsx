@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { supabase } from "@/integrations/supabase/client";
+import { buildLearningRoadmap } from "@/lib/skillGap";
+import { ExternalLink } from "lucide-react";
+
+interface LearningRoadmapProps {
+  skills: string[];
+  targetRoles: string[];
+}
+
+interface OpenJob {
+  title: string;
+  required_skills: string[];
+}
+
+export const LearningRoadmap = ({ skills, targetRoles }: LearningRoadmapProps) => {
+  const [openJobs, setOpenJobs] = useState<OpenJob[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchOpenJobs = async () => {
+      const { data, error } = await supabase
+        .from("jobs")
+        .select("title, required_skills")
+        .eq("status", "open");
+
+      if (error) {
+        console.error(error);
+      } else {
+        setOpenJobs(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchOpenJobs();
+  }, []);
+
+  if (targetRoles.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Add a target role to see which skills to learn next.
+      </p>
+    );
+  }
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Building your roadmap...</p>;
+  }
+
+  const roadmap = buildLearningRoadmap(skills, targetRoles, openJobs);
+
+  if (roadmap.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No skill gaps found for open jobs matching your target roles.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="space-y-4">
+      {roadmap.slice(0, 10).map((item, index) => (
+        <li key={item.skill} className="space-y-2">
+          <div className="flex items-center justify-between gap-4">
+            <span className="font-medium">
+              {index + 1}. {item.skill}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              Asked for in {item.coverage}% of matching jobs
+            </span>
+          </div>
+          <Progress value={item.coverage} className="h-2" />
+          <div className="flex flex-wrap gap-2">
+            {item.resources.map((resource) => (
+              <a
+                key={resource.url}
+                href={resource.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm text-primary hover:underline flex items-center gap-1"
+              >
+                {resource.title}
+                <ExternalLink className="h-3 w-3" />
+                {resource.kind !== "tutorial" && (
+                  <Badge variant="outline" className="ml-1 text-xs">
+                    {resource.kind}
+                  </Badge>
+                )}
+              </a>
+            ))}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
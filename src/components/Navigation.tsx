@@ -1,5 +1,6 @@
 import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import { NotificationBell } from "@/components/NotificationBell";
 import { Briefcase, User, LogOut } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useEffect, useState } from "react";
@@ -46,6 +47,7 @@ export const Navigation = () => {
               <Link to="/jobs">
                 <Button variant="ghost">Browse Jobs</Button>
               </Link>
+              <NotificationBell userId={user.id} />
               <Link to="/dashboard">
                 <Button variant="ghost">
                   <User className="mr-2 h-4 w-4" />
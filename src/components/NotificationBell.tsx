@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { cn } from "@/lib/utils";
+import { Bell, BellRing, CalendarClock, CheckCheck, ClipboardCheck, UserPlus, XCircle } from "lucide-react";
+
+type Notification = Database["public"]["Tables"]["notifications"]["Row"];
+type NotificationType = Database["public"]["Enums"]["notification_type"];
+
+const NOTIFICATION_ICONS: Record<NotificationType, typeof Bell> = {
+  application_status: ClipboardCheck,
+  new_applicant: UserPlus,
+  job_closed: XCircle,
+  job_alert: BellRing,
+  saved_job_reminder: CalendarClock,
+};
+
+const LIMIT = 20;
+
+export const NotificationBell = ({ userId }: { userId: string }) => {
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+
+  // Counted separately because there can be more unread notifications than are listed
+  const fetchUnreadCount = useCallback(async () => {
+    const { count } = await supabase
+      .from("notifications")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .is("read_at", null);
+    setUnreadCount(count ?? 0);
+  }, [userId]);
+
+  useEffect(() => {
+    const fetchNotifications = async () => {
+      const { data, error } = await supabase
+        .from("notifications")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(LIMIT);
+
+      if (error) {
+        console.error(error);
+      } else {
+        setNotifications(data || []);
+      }
+    };
+
+    fetchNotifications();
+    fetchUnreadCount();
+
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+        (payload) => {
+          setNotifications((previous) => [payload.new as Notification, ...previous].slice(0, LIMIT));
+          setUnreadCount((previous) => previous + 1);
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+        (payload) => {
+          // Keeps other tabs in step when notifications are read
+          const updated = payload.new as Notification;
+          setNotifications((previous) => previous.map((n) => (n.id === updated.id ? updated : n)));
+          fetchUnreadCount();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, fetchUnreadCount]);
+
+  const markRead = async (notification: Notification) => {
+    if (notification.read_at) return;
+    const readAt = new Date().toISOString();
+
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: readAt })
+      .eq("id", notification.id);
+
+    if (!error) {
+      setNotifications((previous) =>
+        previous.map((n) => (n.id === notification.id ? { ...n, read_at: readAt } : n))
+      );
+      setUnreadCount((previous) => Math.max(previous - 1, 0));
+    }
+  };
+
+  const markAllRead = async () => {
+    const readAt = new Date().toISOString();
+
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: readAt })
+      .eq("user_id", userId)
+      .is("read_at", null);
+
+    if (!error) {
+      setNotifications((previous) => previous.map((n) => ({ ...n, read_at: n.read_at ?? readAt })));
+      setUnreadCount(0);
+    }
+  };
+
+  const openNotification = (notification: Notification) => {
+    markRead(notification);
+    setOpen(false);
+    if (notification.link) navigate(notification.link);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-5 min-w-5 items-center justify-center rounded-full bg-destructive px-1 text-xs font-medium text-destructive-foreground">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <h3 className="font-semibold">Notifications</h3>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={markAllRead}>
+              <CheckCheck className="mr-2 h-4 w-4" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-muted-foreground">You're all caught up</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => {
+              const Icon = NOTIFICATION_ICONS[notification.type];
+              return (
+                <button
+                  key={notification.id}
+                  onClick={() => openNotification(notification)}
+                  className={cn(
+                    "flex w-full gap-3 border-b px-4 py-3 text-left transition-colors last:border-b-0 hover:bg-secondary/50",
+                    !notification.read_at && "bg-primary/5"
+                  )}
+                >
+                  <Icon className="mt-0.5 h-4 w-4 shrink-0 text-primary" />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <p className={cn("text-sm", !notification.read_at && "font-medium")}>
+                      {notification.title}
+                    </p>
+                    {notification.body && (
+                      <p className="text-xs text-muted-foreground line-clamp-2">{notification.body}</p>
+                    )}
+                    {notification.created_at && (
+                      <p className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                      </p>
+                    )}
+                  </div>
+                  {!notification.read_at && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,295 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  isSafeUrl,
+  sortByRecency,
+  type HistoryEntry,
+  type HistoryField,
+  type HistorySection,
+} from "@/lib/profileHistory";
+import { toast } from "sonner";
+import { ExternalLink, Pencil, Plus, Trash2 } from "lucide-react";
+
+interface ProfileHistorySectionProps {
+  section: HistorySection;
+  userId: string;
+  /** Called after the entries are loaded or changed */
+  onEntriesChange?: (entries: HistoryEntry[]) => void;
+}
+
+type FormValues = Record<string, string>;
+
+const emptyValues = (fields: HistoryField[]) =>
+  Object.fromEntries(fields.map((field) => [field.name, ""])) as FormValues;
+
+const toValues = (fields: HistoryField[], entry: HistoryEntry) =>
+  Object.fromEntries(
+    fields.map((field) => [field.name, ((entry as Record<string, unknown>)[field.name] as string | null) ?? ""])
+  ) as FormValues;
+
+export const ProfileHistorySection = ({ section, userId, onEntriesChange }: ProfileHistorySectionProps) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<HistoryEntry | "new" | null>(null);
+  const [values, setValues] = useState<FormValues>({});
+  const [ongoing, setOngoing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const ongoingField = section.fields.find((field) => field.ongoingLabel);
+
+  const fetchEntries = useCallback(async () => {
+    const { data, error } = await supabase.from(section.table).select("*").eq("user_id", userId);
+
+    if (error) {
+      toast.error(`Failed to load ${section.title.toLowerCase()}`);
+    } else {
+      const sorted = sortByRecency((data || []) as HistoryEntry[], section);
+      setEntries(sorted);
+      onEntriesChange?.(sorted);
+    }
+    setLoading(false);
+  }, [section, userId, onEntriesChange]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const openEditor = (entry: HistoryEntry | "new") => {
+    const initial = entry === "new" ? emptyValues(section.fields) : toValues(section.fields, entry);
+    setValues(initial);
+    setOngoing(entry !== "new" && !!ongoingField && !initial[ongoingField.name]);
+    setEditing(entry);
+  };
+
+  const validate = () => {
+    const missing = section.fields.find(
+      (field) => field.required && !values[field.name]?.trim() && !(field === ongoingField && ongoing)
+    );
+    if (missing) return `${missing.label} is required`;
+
+    const badUrl = section.fields.find(
+      (field) => field.type === "url" && values[field.name]?.trim() && !isSafeUrl(values[field.name])
+    );
+    if (badUrl) return `${badUrl.label} must start with http:// or https://`;
+
+    if (section.dateRange) {
+      const [startKey, endKey] = section.dateRange;
+      const start = values[startKey];
+      const end = ongoing && ongoingField?.name === endKey ? "" : values[endKey];
+      if (start && end && end < start) return "The end date can't be before the start date";
+    }
+    return null;
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validate();
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    const row: Record<string, string | null> = {};
+    section.fields.forEach((field) => {
+      const value = values[field.name]?.trim();
+      row[field.name] = field === ongoingField && ongoing ? null : value || null;
+    });
+
+    setSaving(true);
+    try {
+      const { error } =
+        editing === "new"
+          ? await supabase.from(section.table).insert({ ...row, user_id: userId } as never)
+          : await supabase.from(section.table).update(row as never).eq("id", editing.id);
+
+      if (error) throw error;
+
+      setEditing(null);
+      fetchEntries();
+    } catch (error) {
+      toast.error(`Failed to save: ${error.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteEntry = async (entry: HistoryEntry) => {
+    const { error } = await supabase.from(section.table).delete().eq("id", entry.id);
+
+    if (error) {
+      toast.error("Failed to delete entry");
+      return;
+    }
+    fetchEntries();
+  };
+
+  const renderField = (field: HistoryField) => {
+    const id = `${section.table}-${field.name}`;
+    const disabled = field === ongoingField && ongoing;
+    const setValue = (value: string) => setValues({ ...values, [field.name]: value });
+
+    return (
+      <div key={field.name} className="space-y-2">
+        <Label htmlFor={id}>
+          {field.label}
+          {field.required && " *"}
+        </Label>
+        {field.type === "textarea" ? (
+          <Textarea
+            id={id}
+            rows={4}
+            value={values[field.name] ?? ""}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={field.placeholder}
+          />
+        ) : (
+          <Input
+            id={id}
+            type={field.type}
+            value={disabled ? "" : values[field.name] ?? ""}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={field.placeholder}
+            disabled={disabled}
+          />
+        )}
+        {field.ongoingLabel && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`${id}-ongoing`}
+              checked={ongoing}
+              onCheckedChange={(checked) => setOngoing(checked === true)}
+            />
+            <Label htmlFor={`${id}-ongoing`} className="font-normal">
+              {field.ongoingLabel}
+            </Label>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card id={section.table} className="border-2 mt-8 scroll-mt-20">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>{section.title}</CardTitle>
+            <CardDescription>{section.description}</CardDescription>
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={() => openEditor("new")}>
+            <Plus className="mr-1 h-4 w-4" />
+            {section.addLabel}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{section.emptyText}</p>
+        ) : (
+          <ul className="divide-y">
+            {entries.map((entry) => {
+              const summary = section.summarize(entry);
+              return (
+                <li key={entry.id} className="flex items-start justify-between gap-4 py-3">
+                  <div className="space-y-0.5">
+                    <p className="font-medium">{summary.title}</p>
+                    {summary.subtitle && <p className="text-sm">{summary.subtitle}</p>}
+                    {summary.period && <p className="text-sm text-muted-foreground">{summary.period}</p>}
+                    {summary.description && (
+                      <p className="text-sm text-muted-foreground whitespace-pre-line">{summary.description}</p>
+                    )}
+                    {summary.url && isSafeUrl(summary.url) && (
+                      <a
+                        href={summary.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-primary hover:underline inline-flex items-center gap-1"
+                      >
+                        {summary.url}
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button type="button" variant="ghost" size="icon" onClick={() => openEditor(entry)} title="Edit">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button type="button" variant="ghost" size="icon" title="Delete">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete "{summary.title}"?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            It will be removed from your profile and from the applications recruiters see.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteEntry(entry)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? section.addLabel : `Edit ${section.title}`}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            {section.fields.map(renderField)}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge";
+import { computeProfileStrength, getStrengthLabel, type StrengthProfile } from "@/lib/profileStrength";
+import { TrendingUp } from "lucide-react";
+
+interface ProfileStrengthBadgeProps {
+  profile: StrengthProfile;
+}
+
+/** Shows recruiters how complete an applicant's profile is; hover lists what is missing. */
+export const ProfileStrengthBadge = ({ profile }: ProfileStrengthBadgeProps) => {
+  const { score, missing } = computeProfileStrength(profile);
+
+  return (
+    <Badge
+      variant="secondary"
+      title={
+        missing.length > 0
+          ? `Missing: ${missing.map((item) => item.label).join(", ")}`
+          : "Profile complete"
+      }
+    >
+      <TrendingUp className="mr-1 h-3 w-3" />
+      Profile {score}% · {getStrengthLabel(score)}
+    </Badge>
+  );
+};
@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { recommendJobs, type Recommendation } from "@/lib/recommendations";
+import { MapPin, Sparkles } from "lucide-react";
+
+interface RecommendedJob {
+  id: string;
+  title: string;
+  company_name: string;
+  location: string;
+  job_type: string;
+  required_skills: string[];
+  experience_required: number | null;
+}
+
+interface RecommendedJobsProps {
+  userId: string;
+}
+
+const JOB_FIELDS = "id, title, company_name, location, job_type, required_skills, experience_required";
+
+export const RecommendedJobs = ({ userId }: RecommendedJobsProps) => {
+  const [recommendations, setRecommendations] = useState<Recommendation<RecommendedJob>[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchRecommendations = async () => {
+      try {
+        const [profileResult, jobsResult, appliedResult, savedResult] = await Promise.all([
+          supabase
+            .from("profiles")
+            .select("skills, experience_years, location")
+            .eq("id", userId)
+            .single(),
+          supabase
+            .from("jobs")
+            .select(JOB_FIELDS)
+            .eq("status", "open")
+            .order("created_at", { ascending: false })
+            .limit(200),
+          supabase
+            .from("applications")
+            .select(`jobs(${JOB_FIELDS})`)
+            .eq("applicant_id", userId),
+          supabase
+            .from("saved_jobs")
+            .select(`jobs(${JOB_FIELDS})`)
+            .eq("user_id", userId),
+        ]);
+
+        if (profileResult.error) throw profileResult.error;
+        if (jobsResult.error) throw jobsResult.error;
+
+        const appliedJobs = (appliedResult.data || []).map((row) => row.jobs).filter(Boolean);
+        const savedJobs = (savedResult.data || []).map((row) => row.jobs).filter(Boolean);
+
+        setRecommendations(
+          recommendJobs(profileResult.data, jobsResult.data || [], { appliedJobs, savedJobs })
+        );
+      } catch (error) {
+        console.error(error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRecommendations();
+  }, [userId]);
+
+  return (
+    <Card className="mt-8 border-2">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Recommended for you</CardTitle>
+          <Sparkles className="h-5 w-5 text-primary" />
+        </div>
+        <CardDescription>Open roles picked from your skills, location and activity</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-center text-muted-foreground py-8">Finding jobs for you...</p>
+        ) : recommendations.length === 0 ? (
+          <div className="text-center py-8 space-y-4">
+            <p className="text-muted-foreground">
+              Add skills to your profile to get personalized recommendations
+            </p>
+            <Link to="/profile">
+              <Button variant="outline">Update Profile</Button>
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {recommendations.map(({ job, match, reasons }) => (
+              <Link
+                key={job.id}
+                to={`/jobs/${job.id}`}
+                className="flex items-start justify-between gap-4 rounded-lg border p-4 hover:bg-secondary/50 transition-colors"
+              >
+                <div className="space-y-1">
+                  <p className="font-semibold">{job.title}</p>
+                  <p className="text-sm text-muted-foreground flex items-center gap-1">
+                    {job.company_name} · <MapPin className="h-3 w-3" /> {job.location}
+                  </p>
+                  {reasons.length > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      {reasons.join(", ").replace(/^./, (first) => first.toUpperCase())}
+                    </p>
+                  )}
+                </div>
+                <Badge variant={match.score >= 70 ? "default" : "secondary"}>
+                  {match.score}% match
+                </Badge>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
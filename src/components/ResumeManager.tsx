@@ -0,0 +1,247 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import type { ResumeToParse } from "@/components/ResumeSuggestionsDialog";
+import { supabase } from "@/integrations/supabase/client";
+import { openResume } from "@/hooks/use-resume-url";
+import {
+  buildResumePath,
+  getResumeFormat,
+  MAX_RESUME_SIZE,
+  RESUME_BUCKET,
+  suggestResumeName,
+  type Resume,
+} from "@/lib/resumes";
+import { toast } from "sonner";
+import { FileText, Star, Trash2, Upload, Wand2 } from "lucide-react";
+
+interface ResumeManagerProps {
+  userId: string;
+  /** Called with the default version's path whenever it may have changed */
+  onDefaultChange?: (path: string | null) => void;
+  /** Offers to pre-fill the profile from a PDF or DOCX version */
+  onAnalyze?: (resume: ResumeToParse) => void;
+}
+
+const formatUploadDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+
+const canAnalyze = (path: string) => getResumeFormat(path) !== "other";
+
+export const ResumeManager = ({ userId, onDefaultChange, onAnalyze }: ResumeManagerProps) => {
+  const [resumes, setResumes] = useState<Resume[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [versionName, setVersionName] = useState("");
+
+  const fetchResumes = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("resumes")
+      .select("*")
+      .eq("user_id", userId)
+      .order("uploaded_at", { ascending: false });
+
+    if (error) {
+      toast.error("Failed to load resumes");
+    } else {
+      setResumes(data || []);
+      onDefaultChange?.(data?.find((resume) => resume.is_default)?.file_path ?? null);
+    }
+    setLoading(false);
+  }, [userId, onDefaultChange]);
+
+  useEffect(() => {
+    fetchResumes();
+  }, [fetchResumes]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (file.size > MAX_RESUME_SIZE) {
+      toast.error("File size must be less than 5MB");
+      return;
+    }
+
+    setUploading(true);
+    const filePath = buildResumePath(userId, file);
+    try {
+      const { error: uploadError } = await supabase.storage.from(RESUME_BUCKET).upload(filePath, file);
+      if (uploadError) throw uploadError;
+
+      const name = versionName.trim() || suggestResumeName(file);
+      const { error: insertError } = await supabase.from("resumes").insert({
+        user_id: userId,
+        name,
+        file_path: filePath,
+        file_name: file.name,
+      });
+
+      if (insertError) {
+        await supabase.storage.from(RESUME_BUCKET).remove([filePath]);
+        throw insertError;
+      }
+
+      setVersionName("");
+      toast.success("Resume uploaded successfully");
+      fetchResumes();
+      if (onAnalyze && canAnalyze(filePath)) onAnalyze({ name, path: filePath, file });
+    } catch (error) {
+      toast.error("Failed to upload resume: " + error.message);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const makeDefault = async (resume: Resume) => {
+    const { error } = await supabase.from("resumes").update({ is_default: true }).eq("id", resume.id);
+
+    if (error) {
+      toast.error("Failed to update default resume");
+      return;
+    }
+    toast.success(`"${resume.name}" is now your default resume`);
+    fetchResumes();
+  };
+
+  const deleteResume = async (resume: Resume) => {
+    try {
+      const { error } = await supabase.from("resumes").delete().eq("id", resume.id);
+      if (error) throw error;
+
+      // Applications keep the exact file they were sent with, so it stays in storage while any use it
+      const { count } = await supabase
+        .from("applications")
+        .select("id", { count: "exact", head: true })
+        .eq("applicant_id", userId)
+        .eq("resume_url", resume.file_path);
+
+      if (count === 0) {
+        await supabase.storage.from(RESUME_BUCKET).remove([resume.file_path]);
+      }
+
+      toast.success("Resume deleted");
+      fetchResumes();
+    } catch (error) {
+      toast.error("Failed to delete resume");
+    }
+  };
+
+  const handleOpen = (resume: Resume) => {
+    openResume(resume.file_path).catch(() => toast.error("Failed to open resume"));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <Input
+          value={versionName}
+          onChange={(e) => setVersionName(e.target.value)}
+          placeholder="Version name, e.g. Frontend"
+          disabled={uploading}
+        />
+        <Input
+          id="resume"
+          type="file"
+          accept=".pdf,.doc,.docx"
+          onChange={handleUpload}
+          disabled={uploading}
+          className="hidden"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => document.getElementById("resume")?.click()}
+          disabled={uploading}
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          {uploading ? "Uploading..." : "Upload Resume"}
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading resumes...</p>
+      ) : resumes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No resumes yet. Upload one for each kind of role you apply to.
+        </p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {resumes.map((resume) => (
+            <li key={resume.id} className="flex flex-wrap items-center justify-between gap-2 p-3">
+              <button
+                type="button"
+                onClick={() => handleOpen(resume)}
+                className="flex items-center gap-2 text-left hover:underline"
+              >
+                <FileText className="h-4 w-4 text-primary" />
+                <span className="font-medium">{resume.name}</span>
+                {resume.is_default && <Badge variant="secondary">Default</Badge>}
+              </button>
+              <div className="flex items-center gap-1">
+                <span className="mr-2 text-xs text-muted-foreground">
+                  Uploaded {formatUploadDate(resume.uploaded_at)}
+                </span>
+                {onAnalyze && canAnalyze(resume.file_path) && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onAnalyze({ name: resume.name, path: resume.file_path })}
+                  >
+                    <Wand2 className="mr-1 h-4 w-4" />
+                    Pre-fill profile
+                  </Button>
+                )}
+                {!resume.is_default && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => makeDefault(resume)}>
+                    <Star className="mr-1 h-4 w-4" />
+                    Make default
+                  </Button>
+                )}
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button type="button" variant="ghost" size="icon" title="Delete resume">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete "{resume.name}"?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        It won't be offered when you apply anymore. Applications you already sent with it
+                        keep their copy.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => deleteResume(resume)}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
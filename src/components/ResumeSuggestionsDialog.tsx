@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { buildSkillVocabulary, extractResumeText, parseResume, type ParsedResume } from "@/lib/resumeParser";
+import { getResumeFormat, RESUME_BUCKET } from "@/lib/resumes";
+import { normalizeSkill } from "@/lib/skillMatch";
+
+type ProfileUpdate = Database["public"]["Tables"]["profiles"]["Update"];
+
+export type SuggestionFields = Pick<ProfileUpdate, "skills" | "experience_years" | "phone" | "location">;
+
+export interface ResumeToParse {
+  name: string;
+  path: string;
+  /** The file just uploaded; otherwise it is downloaded from storage */
+  file?: Blob;
+}
+
+interface ResumeSuggestionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  resume: ResumeToParse | null;
+  current: {
+    skills: string[] | null;
+    experience_years: number | null;
+    phone: string | null;
+    location: string | null;
+  };
+  /** Years of experience are calculated from work history, so none is suggested */
+  derivedExperience?: boolean;
+  /** Resolves to whether the profile was saved; the dialog stays open otherwise */
+  onApply: (updates: SuggestionFields) => Promise<boolean>;
+}
+
+type FieldKey = "experience_years" | "phone" | "location";
+
+const FIELD_LABELS: Record<FieldKey, string> = {
+  experience_years: "Years of experience",
+  phone: "Phone",
+  location: "Location",
+};
+
+const loadSuggestions = async (resume: ResumeToParse) => {
+  let file = resume.file;
+  if (!file) {
+    const { data, error } = await supabase.storage.from(RESUME_BUCKET).download(resume.path);
+    if (error) throw error;
+    file = data;
+  }
+
+  const [text, { data: jobs }] = await Promise.all([
+    extractResumeText(file, getResumeFormat(resume.path)),
+    supabase.from("jobs").select("required_skills").eq("status", "open"),
+  ]);
+
+  return parseResume(text, buildSkillVocabulary((jobs || []).flatMap((job) => job.required_skills)));
+};
+
+export const ResumeSuggestionsDialog = ({
+  open,
+  onOpenChange,
+  resume,
+  current,
+  derivedExperience,
+  onApply,
+}: ResumeSuggestionsDialogProps) => {
+  const [parsed, setParsed] = useState<ParsedResume | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [skippedSkills, setSkippedSkills] = useState<string[]>([]);
+  const [fieldChoices, setFieldChoices] = useState<Partial<Record<FieldKey, boolean>>>({});
+  const [applying, setApplying] = useState(false);
+
+  const existingSkills = new Set((current.skills || []).map(normalizeSkill));
+  const newSkills = (parsed?.skills || []).filter((skill) => !existingSkills.has(normalizeSkill(skill)));
+  const knownSkills = (parsed?.skills || []).filter((skill) => existingSkills.has(normalizeSkill(skill)));
+
+  const suggestedValues: Record<FieldKey, string | number | null> = {
+    experience_years: derivedExperience ? null : parsed?.experienceYears ?? null,
+    phone: parsed?.phone ?? null,
+    location: parsed?.location ?? null,
+  };
+  const changedFields = (Object.keys(FIELD_LABELS) as FieldKey[]).filter(
+    (key) => suggestedValues[key] !== null && suggestedValues[key] !== current[key]
+  );
+
+  const selectedSkills = newSkills.filter((skill) => !skippedSkills.includes(skill));
+  // Empty fields are filled by default; values the user entered are only replaced on request
+  const isFieldSelected = (key: FieldKey) => fieldChoices[key] ?? (current[key] === null || current[key] === "");
+  const selectedFields = changedFields.filter(isFieldSelected);
+
+  useEffect(() => {
+    if (!open || !resume) return;
+
+    let cancelled = false;
+    setParsed(null);
+    setFailed(false);
+    setSkippedSkills([]);
+    setFieldChoices({});
+
+    loadSuggestions(resume)
+      .then((result) => !cancelled && setParsed(result))
+      .catch(() => !cancelled && setFailed(true));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, resume]);
+
+  const handleApply = async () => {
+    const updates: SuggestionFields = {};
+    if (selectedSkills.length > 0) updates.skills = [...(current.skills || []), ...selectedSkills];
+    if (selectedFields.includes("experience_years")) updates.experience_years = parsed.experienceYears;
+    if (selectedFields.includes("phone")) updates.phone = parsed.phone;
+    if (selectedFields.includes("location")) updates.location = parsed.location;
+
+    setApplying(true);
+    const saved = await onApply(updates);
+    setApplying(false);
+    if (saved) onOpenChange(false);
+  };
+
+  const selectionCount = selectedSkills.length + selectedFields.length;
+
+  const renderBody = () => {
+    if (failed) {
+      return <p className="text-sm text-muted-foreground">We couldn't read this resume. Try a PDF or DOCX file.</p>;
+    }
+    if (!parsed) {
+      return <p className="text-sm text-muted-foreground">Reading your resume...</p>;
+    }
+    if (newSkills.length === 0 && changedFields.length === 0) {
+      return <p className="text-sm text-muted-foreground">Your profile already has everything we found.</p>;
+    }
+
+    return (
+      <div className="space-y-6">
+        {newSkills.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Skills</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {newSkills.map((skill) => (
+                <div key={skill} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`suggested-skill-${skill}`}
+                    checked={!skippedSkills.includes(skill)}
+                    onCheckedChange={(checked) =>
+                      setSkippedSkills(
+                        checked === true ? skippedSkills.filter((s) => s !== skill) : [...skippedSkills, skill]
+                      )
+                    }
+                  />
+                  <Label htmlFor={`suggested-skill-${skill}`} className="font-normal text-accent">
+                    + {skill}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            {knownSkills.length > 0 && (
+              <p className="text-xs text-muted-foreground">Already on your profile: {knownSkills.join(", ")}</p>
+            )}
+          </div>
+        )}
+
+        {changedFields.map((key) => (
+          <div key={key} className="flex items-start gap-2">
+            <Checkbox
+              id={`suggested-${key}`}
+              checked={isFieldSelected(key)}
+              onCheckedChange={(checked) => setFieldChoices({ ...fieldChoices, [key]: checked === true })}
+              className="mt-0.5"
+            />
+            <Label htmlFor={`suggested-${key}`} className="space-y-1 font-normal">
+              <span className="block font-medium">{FIELD_LABELS[key]}</span>
+              {current[key] !== null && current[key] !== "" && (
+                <span className="block text-destructive line-through">- {current[key]}</span>
+              )}
+              <span className="block text-accent">+ {suggestedValues[key]}</span>
+            </Label>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pre-fill from {resume?.name ?? "resume"}</DialogTitle>
+          <DialogDescription>
+            Pick the details to copy into your profile. Your resume is read on this device.
+          </DialogDescription>
+        </DialogHeader>
+        {renderBody()}
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleApply} disabled={applying || selectionCount === 0}>
+            {applying ? "Saving..." : "Apply Selected"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { openResume, useResumeUrl } from "@/hooks/use-resume-url";
+import { getResumeFileName, getResumeFormat } from "@/lib/resumes";
+import { toast } from "sonner";
+import { ExternalLink, FileText, X } from "lucide-react";
+
+interface ResumeViewerProps {
+  /** Object path in the resumes bucket */
+  path: string;
+  title?: string;
+  onClose?: () => void;
+}
+
+// Converted documents are shown in a sandboxed frame, so markup from an
+// uploaded file can't run scripts or reach the app
+const DOCX_STYLES = `
+  body { font-family: system-ui, sans-serif; line-height: 1.5; padding: 1.5rem; color: #1f2937; }
+  img { max-width: 100%; }
+  table { border-collapse: collapse; }
+  td, th { border: 1px solid #e5e7eb; padding: 0.25rem 0.5rem; }
+`;
+
+const toDocument = (html: string) =>
+  `<!doctype html><html><head><meta charset="utf-8"><style>${DOCX_STYLES}</style></head><body>${html}</body></html>`;
+
+export const ResumeViewer = ({ path, title, onClose }: ResumeViewerProps) => {
+  const { url, error } = useResumeUrl(path);
+  const format = getResumeFormat(path);
+  const [docxHtml, setDocxHtml] = useState<string | null>(null);
+  const [docxError, setDocxError] = useState(false);
+
+  useEffect(() => {
+    setDocxHtml(null);
+    setDocxError(false);
+    if (!url || format !== "docx") return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(response.statusText);
+        // Loaded on demand; only recruiters previewing a Word file need it
+        const mammoth = await import("mammoth");
+        const { value } = await mammoth.convertToHtml({ arrayBuffer: await response.arrayBuffer() });
+        if (!cancelled) setDocxHtml(value);
+      } catch {
+        if (!cancelled) setDocxError(true);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url, format]);
+
+  const handleOpen = () => {
+    openResume(path).catch(() => toast.error("Failed to open resume"));
+  };
+
+  const renderPreview = () => {
+    if (error) {
+      return <p className="text-sm text-muted-foreground">You don't have access to this resume.</p>;
+    }
+    if (!url) {
+      return <p className="text-sm text-muted-foreground">Loading resume...</p>;
+    }
+    if (format === "pdf") {
+      return <iframe src={url} title={title ?? "Resume"} className="h-full w-full rounded-md border" />;
+    }
+    if (format === "docx" && docxHtml !== null) {
+      return (
+        <iframe
+          srcDoc={toDocument(docxHtml)}
+          sandbox=""
+          title={title ?? "Resume"}
+          className="h-full w-full rounded-md border bg-white"
+        />
+      );
+    }
+    if (format === "docx" && !docxError) {
+      return <p className="text-sm text-muted-foreground">Preparing preview...</p>;
+    }
+    return (
+      <div className="flex flex-col items-center gap-3 text-center">
+        <FileText className="h-10 w-10 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">A preview isn't available for this file.</p>
+        <Button variant="outline" size="sm" onClick={handleOpen}>
+          <ExternalLink className="mr-2 h-4 w-4" />
+          Open {getResumeFileName(path)}
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between gap-2 border-b px-4 py-2">
+        <p className="truncate text-sm font-medium">{title ?? getResumeFileName(path)}</p>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" onClick={handleOpen} title="Open in new tab">
+            <ExternalLink className="h-4 w-4" />
+          </Button>
+          {onClose && (
+            <Button variant="ghost" size="icon" onClick={onClose} title="Close preview">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <div className="flex min-h-0 flex-1 items-center justify-center p-4">{renderPreview()}</div>
+    </div>
+  );
+};
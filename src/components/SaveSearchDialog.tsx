@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import type { JobFilters } from "@/lib/jobFilters";
+import {
+  DIGEST_FREQUENCY_LABELS,
+  describeFilters,
+  toStoredFilters,
+  type DigestFrequency,
+} from "@/lib/savedSearches";
+import { toast } from "sonner";
+
+interface SaveSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  filters: JobFilters;
+}
+
+export const SaveSearchDialog = ({ open, onOpenChange, userId, filters }: SaveSearchDialogProps) => {
+  const [name, setName] = useState("");
+  const [frequency, setFrequency] = useState<DigestFrequency>("daily");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setName(describeFilters(filters));
+  }, [open, filters]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error("Give your search a name");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("saved_searches").insert({
+        user_id: userId,
+        name: name.trim(),
+        filters: toStoredFilters(filters),
+        digest_frequency: frequency,
+      });
+
+      if (error) throw error;
+
+      toast.success("Search saved. We'll alert you when new jobs match.");
+      onOpenChange(false);
+    } catch (error) {
+      toast.error("Failed to save search");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save this search</DialogTitle>
+          <DialogDescription>{describeFilters(filters)}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="search_name">Name</Label>
+            <Input id="search_name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>New job alerts</Label>
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as DigestFrequency)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DIGEST_FREQUENCY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Saving..." : "Save Search"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  formatReminderDate,
+  getReminderState,
+  getSavedJobWarning,
+  type SavedJob,
+  type SavedJobWithJob,
+} from "@/lib/savedJobs";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import { AlertTriangle, BookmarkX, Building, CalendarClock, MapPin, Send } from "lucide-react";
+
+interface SavedJobCardProps {
+  savedJob: SavedJobWithJob;
+  applied: boolean;
+  onApply: (savedJob: SavedJobWithJob) => void;
+  onUnsave: (savedJob: SavedJobWithJob) => void;
+  onUpdated: (id: string, updates: Partial<SavedJob>) => void;
+}
+
+const REMINDER_TEXT = {
+  overdue: "Apply-by date has passed",
+  today: "Apply by today",
+  soon: "Apply by",
+  later: "Apply by",
+};
+
+export const SavedJobCard = ({ savedJob, applied, onApply, onUnsave, onUpdated }: SavedJobCardProps) => {
+  const [notes, setNotes] = useState(savedJob.notes ?? "");
+  const [savingNotes, setSavingNotes] = useState(false);
+
+  const job = savedJob.jobs;
+  const warning = job ? getSavedJobWarning(job.status) : null;
+  const reminder = savedJob.remind_on && !applied ? getReminderState(savedJob.remind_on) : null;
+  const notesChanged = notes.trim() !== (savedJob.notes ?? "");
+
+  const update = async (updates: Partial<SavedJob>) => {
+    const { error } = await supabase.from("saved_jobs").update(updates).eq("id", savedJob.id);
+
+    if (error) {
+      toast.error("Failed to update saved job");
+      return false;
+    }
+    onUpdated(savedJob.id, updates);
+    return true;
+  };
+
+  const saveNotes = async () => {
+    setSavingNotes(true);
+    if (await update({ notes: notes.trim() || null })) toast.success("Notes saved");
+    setSavingNotes(false);
+  };
+
+  return (
+    <Card className={cn("border-2", warning && "border-destructive/40")}>
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div className="space-y-2">
+            <CardTitle className="text-xl">
+              {job ? (
+                <Link to={`/jobs/${job.id}`} className="hover:underline">
+                  {job.title}
+                </Link>
+              ) : (
+                "Job no longer available"
+              )}
+            </CardTitle>
+            {job && (
+              <CardDescription className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                <span className="flex items-center gap-1">
+                  <Building className="h-4 w-4" />
+                  {job.company_name}
+                </span>
+                <span className="flex items-center gap-1">
+                  <MapPin className="h-4 w-4" />
+                  {job.location}
+                </span>
+              </CardDescription>
+            )}
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {applied && <Badge>Applied</Badge>}
+            {reminder && (
+              <Badge
+                variant={reminder === "overdue" || reminder === "today" ? "destructive" : "outline"}
+                className={cn(reminder === "soon" && "border-primary text-primary")}
+              >
+                <CalendarClock className="mr-1 h-3 w-3" />
+                {REMINDER_TEXT[reminder]}
+                {(reminder === "soon" || reminder === "later") && ` ${formatReminderDate(savedJob.remind_on)}`}
+              </Badge>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {warning && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{warning}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor={`notes-${savedJob.id}`}>Private notes</Label>
+          <Textarea
+            id={`notes-${savedJob.id}`}
+            rows={3}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Only you can see these, e.g. who referred you or what to mention"
+          />
+          {notesChanged && (
+            <Button size="sm" variant="outline" onClick={saveNotes} disabled={savingNotes}>
+              {savingNotes ? "Saving..." : "Save Notes"}
+            </Button>
+          )}
+        </div>
+
+        {!applied && (
+          <div className="space-y-2">
+            <Label htmlFor={`remind-${savedJob.id}`}>Apply by</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id={`remind-${savedJob.id}`}
+                type="date"
+                className="w-48"
+                value={savedJob.remind_on ?? ""}
+                onChange={(e) => update({ remind_on: e.target.value || null })}
+              />
+              {savedJob.remind_on && (
+                <Button variant="ghost" size="sm" onClick={() => update({ remind_on: null })}>
+                  Clear
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">We'll send you a reminder on this date</p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {job && !applied && job.status === "open" && (
+            <Button onClick={() => onApply(savedJob)}>
+              <Send className="mr-2 h-4 w-4" />
+              Apply Now
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onUnsave(savedJob)}>
+            <BookmarkX className="mr-2 h-4 w-4" />
+            Unsave
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,203 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  QUESTION_TYPE_LABELS,
+  emptyQuestion,
+  type KnockoutAction,
+  type QuestionDraft,
+  type ScreeningQuestionType,
+} from "@/lib/screening";
+import { Plus, Trash2 } from "lucide-react";
+
+interface ScreeningQuestionsEditorProps {
+  questions: QuestionDraft[];
+  onChange: (questions: QuestionDraft[]) => void;
+}
+
+export const ScreeningQuestionsEditor = ({ questions, onChange }: ScreeningQuestionsEditorProps) => {
+  const updateQuestion = (index: number, changes: Partial<QuestionDraft>) => {
+    onChange(questions.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+  };
+
+  const toggleAccepted = (index: number, answer: string, accepted: boolean) => {
+    const current = questions[index].accepted_answers;
+    updateQuestion(index, {
+      accepted_answers: accepted ? [...current, answer] : current.filter((a) => a !== answer),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {questions.map((question, index) => (
+        <div key={question.id ?? index} className="space-y-3 rounded-md border p-3">
+          <div className="flex items-start gap-2">
+            <Input
+              value={question.prompt}
+              onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+              placeholder="e.g., Are you authorized to work in this country?"
+            />
+            <Select
+              value={question.question_type}
+              onValueChange={(value) =>
+                updateQuestion(index, {
+                  question_type: value as ScreeningQuestionType,
+                  accepted_answers: [],
+                  knockout_min: null,
+                  is_knockout: value === "text" ? false : question.is_knockout,
+                })
+              }
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(questions.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {question.question_type === "multiple_choice" && (
+            <div className="space-y-1">
+              <Label className="text-sm">Choices (one per line)</Label>
+              <Textarea
+                rows={3}
+                value={question.options.join("\n")}
+                onChange={(e) => updateQuestion(index, { options: e.target.value.split("\n") })}
+              />
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-6">
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`required-${index}`}
+                checked={question.is_required}
+                onCheckedChange={(checked) => updateQuestion(index, { is_required: checked })}
+              />
+              <Label htmlFor={`required-${index}`}>Required</Label>
+            </div>
+            {question.question_type !== "text" && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`knockout-${index}`}
+                  checked={question.is_knockout}
+                  onCheckedChange={(checked) => updateQuestion(index, { is_knockout: checked })}
+                />
+                <Label htmlFor={`knockout-${index}`}>Knockout</Label>
+              </div>
+            )}
+          </div>
+
+          {question.is_knockout && (
+            <div className="space-y-3 rounded-md bg-secondary/50 p-3">
+              {question.question_type === "yes_no" && (
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm">Passing answer</Label>
+                  <Select
+                    value={question.accepted_answers[0] ?? ""}
+                    onValueChange={(value) => updateQuestion(index, { accepted_answers: [value] })}
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue placeholder="Choose" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="yes">Yes</SelectItem>
+                      <SelectItem value="no">No</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {question.question_type === "multiple_choice" && (
+                <div className="space-y-1">
+                  <Label className="text-sm">Passing choices</Label>
+                  {question.options
+                    .map((option) => option.trim())
+                    .filter(Boolean)
+                    .map((option) => (
+                      <div key={option} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`accepted-${index}-${option}`}
+                          checked={question.accepted_answers.includes(option)}
+                          onCheckedChange={(checked) => toggleAccepted(index, option, checked === true)}
+                        />
+                        <Label htmlFor={`accepted-${index}-${option}`} className="font-normal">
+                          {option}
+                        </Label>
+                      </div>
+                    ))}
+                </div>
+              )}
+
+              {question.question_type === "numeric" && (
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm">Minimum passing value</Label>
+                  <Input
+                    type="number"
+                    className="w-28"
+                    value={question.knockout_min ?? ""}
+                    onChange={(e) =>
+                      updateQuestion(index, {
+                        knockout_min: e.target.value === "" ? null : Number(e.target.value),
+                      })
+                    }
+                  />
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Label className="text-sm">When an answer fails</Label>
+                <Select
+                  value={question.knockout_action}
+                  onValueChange={(value) =>
+                    updateQuestion(index, { knockout_action: value as KnockoutAction })
+                  }
+                >
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="flag">Flag for review</SelectItem>
+                    <SelectItem value="reject">Reject automatically</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...questions, emptyQuestion()])}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add Question
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { buildShareLink, normalizeTag, SHARE_SOURCES } from "@/lib/attribution";
+import { toast } from "sonner";
+import { Copy } from "lucide-react";
+
+interface ShareJobDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobId: string;
+  jobTitle: string;
+}
+
+const OTHER_SOURCE = "other";
+
+export const ShareJobDialog = ({ open, onOpenChange, jobId, jobTitle }: ShareJobDialogProps) => {
+  const [sourceChoice, setSourceChoice] = useState<string>(SHARE_SOURCES[0].value);
+  const [customSource, setCustomSource] = useState("");
+  const [campaign, setCampaign] = useState("");
+
+  const source = sourceChoice === OTHER_SOURCE ? customSource : sourceChoice;
+  const link = buildShareLink(window.location.origin, jobId, source, campaign);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success("Link copied");
+    } catch (error) {
+      toast.error("Couldn't copy the link. Select it and copy it instead.");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share {jobTitle}</DialogTitle>
+          <DialogDescription>
+            Post a separate link on each channel. Applicants who arrive through it are credited to its source in
+            your analytics.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="share-source">Where will you post it?</Label>
+            <Select value={sourceChoice} onValueChange={setSourceChoice}>
+              <SelectTrigger id="share-source">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARE_SOURCES.map((preset) => (
+                  <SelectItem key={preset.value} value={preset.value}>
+                    {preset.label}
+                  </SelectItem>
+                ))}
+                <SelectItem value={OTHER_SOURCE}>Somewhere else</SelectItem>
+              </SelectContent>
+            </Select>
+            {sourceChoice === OTHER_SOURCE && (
+              <Input
+                value={customSource}
+                onChange={(e) => setCustomSource(e.target.value)}
+                placeholder="e.g. university job board"
+                aria-label="Source name"
+              />
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="share-campaign">Campaign (optional)</Label>
+            <Input
+              id="share-campaign"
+              value={campaign}
+              onChange={(e) => setCampaign(e.target.value)}
+              placeholder="e.g. spring hiring"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="share-link">Link</Label>
+            <Input id="share-link" value={link} readOnly onFocus={(e) => e.target.select()} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={copyLink} disabled={!normalizeTag(source)}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy Link
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { countSkillDemand, demandFor, type SkillDemand } from "@/lib/skillGap";
+import { GraduationCap } from "lucide-react";
+
+interface SkillGapPanelProps {
+  missingSkills: string[];
+}
+
+export const SkillGapPanel = ({ missingSkills }: SkillGapPanelProps) => {
+  const [demand, setDemand] = useState<Map<string, SkillDemand> | null>(null);
+  const [openJobsCount, setOpenJobsCount] = useState(0);
+
+  useEffect(() => {
+    const fetchDemand = async () => {
+      const { data, error } = await supabase
+        .from("jobs")
+        .select("required_skills")
+        .eq("status", "open");
+
+      if (error) {
+        console.error(error);
+        return;
+      }
+      setOpenJobsCount(data.length);
+      setDemand(countSkillDemand(data));
+    };
+
+    fetchDemand();
+  }, []);
+
+  if (missingSkills.length === 0) return null;
+
+  const rankedSkills = demand
+    ? [...missingSkills].sort((a, b) => demandFor(demand, b) - demandFor(demand, a))
+    : missingSkills;
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <h3 className="text-xl font-semibold flex items-center gap-2">
+        <GraduationCap className="h-5 w-5 text-primary" />
+        Skill Gap
+      </h3>
+      <p className="text-sm text-muted-foreground">
+        Skills this job asks for that aren't on your profile, and how in-demand they are across
+        all open jobs.
+      </p>
+      <ul className="space-y-2">
+        {rankedSkills.map((skill) => (
+          <li key={skill} className="flex items-center justify-between gap-4">
+            <Badge variant="outline">{skill}</Badge>
+            {demand && (
+              <span className="text-sm text-muted-foreground">
+                In {demandFor(demand, skill)} of {openJobsCount} open jobs
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+      <Link to="/profile#career-goals">
+        <Button variant="outline" size="sm">
+          Plan what to learn
+        </Button>
+      </Link>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { OUTCOME_LABELS, type StageDraft, type StageOutcome } from "@/lib/hiringStages";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+
+interface StageEditorProps {
+  stages: StageDraft[];
+  onChange: (stages: StageDraft[]) => void;
+}
+
+const IN_PROGRESS = "in_progress";
+const VIEWED = "viewed";
+
+export const StageEditor = ({ stages, onChange }: StageEditorProps) => {
+  const updateStage = (index: number, changes: Partial<StageDraft>) => {
+    onChange(stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= stages.length) return;
+    const reordered = [...stages];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const removeStage = (index: number) => {
+    onChange(stages.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      {stages.map((stage, index) => (
+        <div key={stage.id ?? index} className="flex items-center gap-2">
+          <span className="w-6 text-sm text-muted-foreground">{index + 1}.</span>
+          <Input
+            value={stage.name}
+            onChange={(e) => updateStage(index, { name: e.target.value })}
+            placeholder="e.g., Phone screen"
+          />
+          <Select
+            value={stage.outcome ?? (stage.marks_viewed ? VIEWED : IN_PROGRESS)}
+            onValueChange={(value) =>
+              updateStage(index, {
+                outcome: value === IN_PROGRESS || value === VIEWED ? null : (value as StageOutcome),
+                marks_viewed: value === VIEWED,
+              })
+            }
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={IN_PROGRESS}>In progress</SelectItem>
+              <SelectItem value={VIEWED}>In progress, viewed</SelectItem>
+              {Object.entries(OUTCOME_LABELS).map(([outcome, label]) => (
+                <SelectItem key={outcome} value={outcome}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => moveStage(index, -1)}
+            disabled={index === 0}
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => moveStage(index, 1)}
+            disabled={index === stages.length - 1}
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => removeStage(index)}
+            disabled={stages.length === 1}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...stages, { name: "", outcome: null, marks_viewed: false }])}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add Stage
+      </Button>
+    </div>
+  );
+};
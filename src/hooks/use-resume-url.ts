@@ -0,0 +1,55 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { RESUME_BUCKET, RESUME_URL_TTL_SECONDS } from "@/lib/resumes";
+
+/** Signs a resume path. Storage policies decide who may read it. */
+export const createResumeUrl = async (path: string) => {
+  const { data, error } = await supabase.storage
+    .from(RESUME_BUCKET)
+    .createSignedUrl(path, RESUME_URL_TTL_SECONDS);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+/**
+ * Opens a resume in a new tab. The tab is opened before the link is signed,
+ * while the click still counts as a user gesture, so popup blockers allow it.
+ */
+export const openResume = async (path: string) => {
+  const tab = window.open("", "_blank");
+  try {
+    const url = await createResumeUrl(path);
+    if (tab) {
+      tab.opener = null;
+      tab.location.href = url;
+    } else {
+      window.location.href = url;
+    }
+  } catch (error) {
+    tab?.close();
+    throw error;
+  }
+};
+
+export function useResumeUrl(path: string | null) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    setError(null);
+    if (!path) return;
+
+    let cancelled = false;
+    createResumeUrl(path)
+      .then((signedUrl) => !cancelled && setUrl(signedUrl))
+      .catch((signError) => !cancelled && setError(signError));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  return { url, error };
+}
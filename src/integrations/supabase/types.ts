@@ -14,50 +14,562 @@ export type Database = {
   }
   public: {
     Tables: {
+      activity_events: {
+        Row: {
+          actor_id: string | null
+          application_id: string | null
+          created_at: string
+          event_type: Database["public"]["Enums"]["activity_event_type"]
+          id: string
+          job_id: string | null
+          metadata: Json
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          application_id?: string | null
+          created_at?: string
+          event_type: Database["public"]["Enums"]["activity_event_type"]
+          id?: string
+          job_id?: string | null
+          metadata?: Json
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          application_id?: string | null
+          created_at?: string
+          event_type?: Database["public"]["Enums"]["activity_event_type"]
+          id?: string
+          job_id?: string | null
+          metadata?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "activity_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "activity_events_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "activity_events_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "activity_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_answers: {
+        Row: {
+          answer: string | null
+          application_id: string
+          created_at: string | null
+          id: string
+          question_id: string
+        }
+        Insert: {
+          answer?: string | null
+          application_id: string
+          created_at?: string | null
+          id?: string
+          question_id: string
+        }
+        Update: {
+          answer?: string | null
+          application_id?: string
+          created_at?: string | null
+          id?: string
+          question_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_answers_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "application_answers_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "screening_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_notes: {
+        Row: {
+          application_id: string
+          author_id: string
+          body: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          application_id: string
+          author_id?: string
+          body: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          application_id?: string
+          author_id?: string
+          body?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_notes_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "application_notes_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_reviews: {
+        Row: {
+          application_id: string
+          created_at: string
+          rating: number | null
+          tags: string[]
+          updated_at: string
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          rating?: number | null
+          tags?: string[]
+          updated_at?: string
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          rating?: number | null
+          tags?: string[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_reviews_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: true
+            referencedRelation: "applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_status_history: {
+        Row: {
+          application_id: string
+          changed_at: string | null
+          changed_by: string | null
+          from_stage_id: string | null
+          from_status: Database["public"]["Enums"]["application_status"] | null
+          id: string
+          to_stage_id: string | null
+          to_status: Database["public"]["Enums"]["application_status"]
+        }
+        Insert: {
+          application_id: string
+          changed_at?: string | null
+          changed_by?: string | null
+          from_stage_id?: string | null
+          from_status?: Database["public"]["Enums"]["application_status"] | null
+          id?: string
+          to_stage_id?: string | null
+          to_status: Database["public"]["Enums"]["application_status"]
+        }
+        Update: {
+          application_id?: string
+          changed_at?: string | null
+          changed_by?: string | null
+          from_stage_id?: string | null
+          from_status?: Database["public"]["Enums"]["application_status"] | null
+          id?: string
+          to_stage_id?: string | null
+          to_status?: Database["public"]["Enums"]["application_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_status_history_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "application_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "application_status_history_from_stage_id_fkey"
+            columns: ["from_stage_id"]
+            isOneToOne: false
+            referencedRelation: "job_stages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "application_status_history_to_stage_id_fkey"
+            columns: ["to_stage_id"]
+            isOneToOne: false
+            referencedRelation: "job_stages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       applications: {
         Row: {
           applicant_id: string
           applied_at: string | null
+          campaign: string | null
           cover_letter: string | null
+          id: string
+          is_flagged: boolean
+          job_id: string
+          resume_id: string | null
+          resume_url: string | null
+          source: string | null
+          stage_id: string | null
+          status: Database["public"]["Enums"]["application_status"]
+          updated_at: string | null
+        }
+        Insert: {
+          applicant_id: string
+          applied_at?: string | null
+          campaign?: string | null
+          cover_letter?: string | null
+          id?: string
+          is_flagged?: boolean
+          job_id: string
+          resume_id?: string | null
+          resume_url?: string | null
+          source?: string | null
+          stage_id?: string | null
+          status?: Database["public"]["Enums"]["application_status"]
+          updated_at?: string | null
+        }
+        Update: {
+          applicant_id?: string
+          applied_at?: string | null
+          campaign?: string | null
+          cover_letter?: string | null
+          id?: string
+          is_flagged?: boolean
+          job_id?: string
+          resume_id?: string | null
+          resume_url?: string | null
+          source?: string | null
+          stage_id?: string | null
+          status?: Database["public"]["Enums"]["application_status"]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "applications_applicant_id_fkey"
+            columns: ["applicant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "applications_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "applications_resume_id_fkey"
+            columns: ["resume_id"]
+            isOneToOne: false
+            referencedRelation: "resumes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "applications_stage_id_fkey"
+            columns: ["stage_id"]
+            isOneToOne: false
+            referencedRelation: "job_stages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      certifications: {
+        Row: {
+          created_at: string
+          credential_url: string | null
+          expires_on: string | null
+          id: string
+          issued_on: string | null
+          issuer: string | null
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          credential_url?: string | null
+          expires_on?: string | null
+          id?: string
+          issued_on?: string | null
+          issuer?: string | null
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          credential_url?: string | null
+          expires_on?: string | null
+          id?: string
+          issued_on?: string | null
+          issuer?: string | null
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "certifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      educations: {
+        Row: {
+          created_at: string
+          degree: string | null
+          end_date: string | null
+          field_of_study: string | null
+          id: string
+          institution: string
+          start_date: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          degree?: string | null
+          end_date?: string | null
+          field_of_study?: string | null
+          id?: string
+          institution: string
+          start_date?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          degree?: string | null
+          end_date?: string | null
+          field_of_study?: string | null
+          id?: string
+          institution?: string
+          start_date?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "educations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hiring_stage_templates: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          recruiter_id: string
+          stages: Json
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          recruiter_id: string
+          stages?: Json
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          recruiter_id?: string
+          stages?: Json
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hiring_stage_templates_recruiter_id_fkey"
+            columns: ["recruiter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_alerts: {
+        Row: {
+          created_at: string | null
+          emailed_at: string | null
+          id: string
+          job_id: string
+          read_at: string | null
+          saved_search_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          emailed_at?: string | null
+          id?: string
+          job_id: string
+          read_at?: string | null
+          saved_search_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          emailed_at?: string | null
+          id?: string
+          job_id?: string
+          read_at?: string | null
+          saved_search_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_alerts_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_alerts_saved_search_id_fkey"
+            columns: ["saved_search_id"]
+            isOneToOne: false
+            referencedRelation: "saved_searches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_alerts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_stages: {
+        Row: {
+          created_at: string | null
+          id: string
+          job_id: string
+          marks_viewed: boolean
+          name: string
+          outcome: Database["public"]["Enums"]["stage_outcome"] | null
+          position: number
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          job_id: string
+          marks_viewed?: boolean
+          name: string
+          outcome?: Database["public"]["Enums"]["stage_outcome"] | null
+          position: number
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          job_id?: string
+          marks_viewed?: boolean
+          name?: string
+          outcome?: Database["public"]["Enums"]["stage_outcome"] | null
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_stages_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_views: {
+        Row: {
           id: string
           job_id: string
-          resume_url: string | null
-          status: Database["public"]["Enums"]["application_status"]
-          updated_at: string | null
+          viewed_at: string
+          viewed_on: string
+          viewer_id: string | null
+          viewer_key: string
         }
         Insert: {
-          applicant_id: string
-          applied_at?: string | null
-          cover_letter?: string | null
           id?: string
           job_id: string
-          resume_url?: string | null
-          status?: Database["public"]["Enums"]["application_status"]
-          updated_at?: string | null
+          viewed_at?: string
+          viewed_on?: string
+          viewer_id?: string | null
+          viewer_key: string
         }
         Update: {
-          applicant_id?: string
-          applied_at?: string | null
-          cover_letter?: string | null
           id?: string
           job_id?: string
-          resume_url?: string | null
-          status?: Database["public"]["Enums"]["application_status"]
-          updated_at?: string | null
+          viewed_at?: string
+          viewed_on?: string
+          viewer_id?: string | null
+          viewer_key?: string
         }
         Relationships: [
           {
-            foreignKeyName: "applications_applicant_id_fkey"
-            columns: ["applicant_id"]
+            foreignKeyName: "job_views_job_id_fkey"
+            columns: ["job_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "jobs"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "applications_job_id_fkey"
-            columns: ["job_id"]
+            foreignKeyName: "job_views_viewer_id_fkey"
+            columns: ["viewer_id"]
             isOneToOne: false
-            referencedRelation: "jobs"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
@@ -76,6 +588,7 @@ export type Database = {
           required_skills: string[]
           salary_max: number | null
           salary_min: number | null
+          search_vector: unknown | null
           status: Database["public"]["Enums"]["job_status"]
           title: string
           updated_at: string | null
@@ -94,6 +607,7 @@ export type Database = {
           required_skills: string[]
           salary_max?: number | null
           salary_min?: number | null
+          search_vector?: unknown | null
           status?: Database["public"]["Enums"]["job_status"]
           title: string
           updated_at?: string | null
@@ -112,6 +626,7 @@ export type Database = {
           required_skills?: string[]
           salary_max?: number | null
           salary_min?: number | null
+          search_vector?: unknown | null
           status?: Database["public"]["Enums"]["job_status"]
           title?: string
           updated_at?: string | null
@@ -127,6 +642,79 @@ export type Database = {
           },
         ]
       }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string | null
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string | null
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string | null
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          type?: Database["public"]["Enums"]["notification_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      portfolio_links: {
+        Row: {
+          created_at: string
+          id: string
+          label: string
+          url: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          label: string
+          url: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          label?: string
+          url?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "portfolio_links_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           bio: string | null
@@ -137,11 +725,13 @@ export type Database = {
           full_name: string
           id: string
           location: string | null
+          open_to_opportunities: boolean
           phone: string | null
           profile_image_url: string | null
           resume_url: string | null
           role: Database["public"]["Enums"]["user_role"]
           skills: string[] | null
+          target_roles: string[] | null
           updated_at: string | null
         }
         Insert: {
@@ -153,11 +743,13 @@ export type Database = {
           full_name: string
           id: string
           location?: string | null
+          open_to_opportunities?: boolean
           phone?: string | null
           profile_image_url?: string | null
           resume_url?: string | null
           role?: Database["public"]["Enums"]["user_role"]
           skills?: string[] | null
+          target_roles?: string[] | null
           updated_at?: string | null
         }
         Update: {
@@ -169,31 +761,80 @@ export type Database = {
           full_name?: string
           id?: string
           location?: string | null
+          open_to_opportunities?: boolean
           phone?: string | null
           profile_image_url?: string | null
           resume_url?: string | null
           role?: Database["public"]["Enums"]["user_role"]
           skills?: string[] | null
+          target_roles?: string[] | null
           updated_at?: string | null
         }
         Relationships: []
       }
+      resumes: {
+        Row: {
+          file_name: string
+          file_path: string
+          id: string
+          is_default: boolean
+          name: string
+          uploaded_at: string
+          user_id: string
+        }
+        Insert: {
+          file_name: string
+          file_path: string
+          id?: string
+          is_default?: boolean
+          name: string
+          uploaded_at?: string
+          user_id: string
+        }
+        Update: {
+          file_name?: string
+          file_path?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          uploaded_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resumes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       saved_jobs: {
         Row: {
           id: string
           job_id: string
+          notes: string | null
+          remind_on: string | null
+          reminded_at: string | null
           saved_at: string | null
           user_id: string
         }
         Insert: {
           id?: string
           job_id: string
+          notes?: string | null
+          remind_on?: string | null
+          reminded_at?: string | null
           saved_at?: string | null
           user_id: string
         }
         Update: {
           id?: string
           job_id?: string
+          notes?: string | null
+          remind_on?: string | null
+          reminded_at?: string | null
           saved_at?: string | null
           user_id?: string
         }
@@ -214,21 +855,508 @@ export type Database = {
           },
         ]
       }
+      saved_searches: {
+        Row: {
+          created_at: string | null
+          digest_frequency: Database["public"]["Enums"]["digest_frequency"]
+          filters: Json
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          digest_frequency?: Database["public"]["Enums"]["digest_frequency"]
+          filters?: Json
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          digest_frequency?: Database["public"]["Enums"]["digest_frequency"]
+          filters?: Json
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_searches_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      screening_questions: {
+        Row: {
+          accepted_answers: string[] | null
+          created_at: string | null
+          id: string
+          is_knockout: boolean
+          is_required: boolean
+          job_id: string
+          knockout_action: Database["public"]["Enums"]["knockout_action"]
+          knockout_min: number | null
+          options: string[] | null
+          position: number
+          prompt: string
+          question_type: Database["public"]["Enums"]["screening_question_type"]
+        }
+        Insert: {
+          accepted_answers?: string[] | null
+          created_at?: string | null
+          id?: string
+          is_knockout?: boolean
+          is_required?: boolean
+          job_id: string
+          knockout_action?: Database["public"]["Enums"]["knockout_action"]
+          knockout_min?: number | null
+          options?: string[] | null
+          position: number
+          prompt: string
+          question_type: Database["public"]["Enums"]["screening_question_type"]
+        }
+        Update: {
+          accepted_answers?: string[] | null
+          created_at?: string | null
+          id?: string
+          is_knockout?: boolean
+          is_required?: boolean
+          job_id?: string
+          knockout_action?: Database["public"]["Enums"]["knockout_action"]
+          knockout_min?: number | null
+          options?: string[] | null
+          position?: number
+          prompt?: string
+          question_type?: Database["public"]["Enums"]["screening_question_type"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "screening_questions_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      work_experiences: {
+        Row: {
+          company: string
+          created_at: string
+          description: string | null
+          end_date: string | null
+          id: string
+          start_date: string
+          title: string
+          user_id: string
+        }
+        Insert: {
+          company: string
+          created_at?: string
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          start_date: string
+          title: string
+          user_id: string
+        }
+        Update: {
+          company?: string
+          created_at?: string
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          start_date?: string
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_experiences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      analytics_applications_over_time: {
+        Args: {
+          p_from: string
+          p_interval?: string
+          p_job_id?: string
+          p_to: string
+        }
+        Returns: {
+          applications: number
+          hires: number
+          period: string
+        }[]
+      }
+      analytics_funnel: {
+        Args: {
+          p_from: string
+          p_job_id?: string
+          p_to: string
+        }
+        Returns: {
+          current: number
+          outcome: Database["public"]["Enums"]["stage_outcome"]
+          reached: number
+          stage_name: string
+          stage_position: number
+        }[]
+      }
+      analytics_job_breakdown: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          applications: number
+          hired: number
+          in_progress: number
+          job_id: string
+          median_days_to_hire: number
+          rejected: number
+          status: Database["public"]["Enums"]["job_status"]
+          title: string
+          views: number
+          withdrawn: number
+        }[]
+      }
+      analytics_sources: {
+        Args: {
+          p_from: string
+          p_job_id?: string
+          p_to: string
+        }
+        Returns: {
+          applications: number
+          campaign: string
+          hired: number
+          in_progress: number
+          source: string
+        }[]
+      }
+      analytics_stage_durations: {
+        Args: {
+          p_from: string
+          p_job_id?: string
+          p_to: string
+        }
+        Returns: {
+          median_hours: number
+          moves: number
+          stage_name: string
+          stage_position: number
+        }[]
+      }
+      analytics_summary: {
+        Args: {
+          p_from: string
+          p_job_id?: string
+          p_to: string
+        }
+        Returns: {
+          applications: number
+          hired: number
+          in_progress: number
+          median_days_to_hire: number
+          rejected: number
+          views: number
+          withdrawn: number
+        }[]
+      }
+      count_matched_skill_groups: {
+        Args: {
+          p_groups: Json
+          p_known_spellings: string[]
+          p_skills: string[]
+        }
+        Returns: number
+      }
+      filter_open_jobs: {
+        Args: {
+          p_experience_max?: number
+          p_experience_min?: number
+          p_job_types?: string[]
+          p_location?: string
+          p_posted_within_days?: number
+          p_query?: string
+          p_salary_max?: number
+          p_salary_min?: number
+        }
+        Returns: {
+          applications_count: number | null
+          company_name: string
+          created_at: string | null
+          description: string
+          experience_required: number | null
+          id: string
+          job_type: string
+          location: string
+          recruiter_id: string
+          required_skills: string[]
+          salary_max: number | null
+          salary_min: number | null
+          search_vector: unknown | null
+          status: Database["public"]["Enums"]["job_status"]
+          title: string
+          updated_at: string | null
+          views_count: number | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "jobs"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      get_screening_questions: {
+        Args: { p_job_id: string }
+        Returns: {
+          id: string
+          is_required: boolean
+          options: string[]
+          position: number
+          prompt: string
+          question_type: Database["public"]["Enums"]["screening_question_type"]
+        }[]
+      }
+      has_applied_to_job: { Args: { p_job_id: string }; Returns: boolean }
+      has_saved_job: { Args: { p_job_id: string }; Returns: boolean }
+      is_applicant_of_recruiter: {
+        Args: { p_applicant_id: string }
+        Returns: boolean
+      }
+      is_recruiter: { Args: never; Returns: boolean }
+      is_recruiter_of_application: {
+        Args: { p_application_id: string }
+        Returns: boolean
+      }
+      job_matches_search: {
+        Args: {
+          p_filters: Json
+          p_job: Database["public"]["Tables"]["jobs"]["Row"]
+        }
+        Returns: boolean
+      }
+      job_search_facets: {
+        Args: {
+          p_experience_max?: number
+          p_experience_min?: number
+          p_job_types?: string[]
+          p_location?: string
+          p_posted_within_days?: number
+          p_query?: string
+          p_salary_max?: number
+          p_salary_min?: number
+        }
+        Returns: Json
+      }
+      record_job_view: {
+        Args: { p_job_id: string; p_session_id?: string }
+        Returns: boolean
+      }
+      recruiter_applications: {
+        Args: {
+          p_from: string
+          p_job_id?: string
+          p_to: string
+        }
+        Returns: {
+          applicant_id: string
+          applied_at: string | null
+          campaign: string | null
+          cover_letter: string | null
+          id: string
+          is_flagged: boolean
+          job_id: string
+          resume_id: string | null
+          resume_url: string | null
+          source: string | null
+          stage_id: string | null
+          status: Database["public"]["Enums"]["application_status"]
+          updated_at: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "applications"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      recruiter_hires: {
+        Args: {
+          p_from: string
+          p_job_id?: string
+          p_to: string
+        }
+        Returns: {
+          application_id: string
+          applied_at: string
+          hired_at: string
+          job_id: string
+        }[]
+      }
+      recruiter_job_views: {
+        Args: {
+          p_from: string
+          p_job_id?: string
+          p_to: string
+        }
+        Returns: {
+          id: string
+          job_id: string
+          viewed_at: string
+          viewed_on: string
+          viewer_id: string | null
+          viewer_key: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "job_views"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      refresh_experience_years: { Args: never; Returns: number }
+      request_job_alert_digest: {
+        Args: { p_frequency: string }
+        Returns: number
+      }
+      saved_search_integer: {
+        Args: { p_filters: Json; p_key: string }
+        Returns: number
+      }
+      search_candidates: {
+        Args: {
+          p_experience_max?: number
+          p_experience_min?: number
+          p_known_skills?: string[]
+          p_limit?: number
+          p_location?: string
+          p_offset?: number
+          p_query?: string
+          p_ranking_skills?: Json
+          p_required_skills?: Json
+        }
+        Returns: {
+          bio: string
+          email: string
+          experience_years: number
+          full_name: string
+          id: string
+          location: string
+          matched_skills: number
+          skills: string[]
+          target_roles: string[]
+          total_count: number
+        }[]
+      }
+      search_jobs: {
+        Args: {
+          p_cursor_created_at?: string
+          p_cursor_id?: string
+          p_cursor_rank?: number
+          p_experience_max?: number
+          p_experience_min?: number
+          p_job_types?: string[]
+          p_limit?: number
+          p_location?: string
+          p_posted_within_days?: number
+          p_query?: string
+          p_salary_max?: number
+          p_salary_min?: number
+          p_sort?: string
+        }
+        Returns: {
+          company_name: string
+          created_at: string
+          description: string
+          experience_required: number
+          id: string
+          job_type: string
+          location: string
+          rank: number
+          required_skills: string[]
+          salary_max: number
+          salary_min: number
+          title: string
+        }[]
+      }
+      send_saved_job_reminders: { Args: never; Returns: number }
+      set_job_stages: {
+        Args: { p_job_id: string; p_stages: Json }
+        Returns: {
+          created_at: string | null
+          id: string
+          job_id: string
+          marks_viewed: boolean
+          name: string
+          outcome: Database["public"]["Enums"]["stage_outcome"] | null
+          position: number
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "job_stages"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      submit_application: {
+        Args: {
+          p_answers?: Json
+          p_campaign?: string
+          p_cover_letter?: string
+          p_job_id: string
+          p_resume_id?: string
+          p_source?: string
+        }
+        Returns: string
+      }
+      valid_review_tags: { Args: { p_tags: string[] }; Returns: boolean }
+      valid_saved_search_filter: {
+        Args: { p_key: string; p_value: Json }
+        Returns: boolean
+      }
+      valid_saved_search_filters: { Args: { p_filters: Json }; Returns: boolean }
+      work_experience_years: { Args: { p_user_id: string }; Returns: number }
     }
     Enums: {
+      activity_event_type:
+        | "application_submitted"
+        | "application_status_changed"
+        | "job_posted"
+        | "job_closed"
+        | "profile_updated"
+        | "job_saved"
+        | "application_withdrawn"
       application_status:
         | "applied"
         | "viewed"
         | "shortlisted"
         | "rejected"
         | "hired"
+        | "withdrawn"
+      digest_frequency: "never" | "daily" | "weekly"
       job_status: "open" | "closed" | "paused"
+      knockout_action: "flag" | "reject"
+      notification_type:
+        | "application_status"
+        | "new_applicant"
+        | "job_closed"
+        | "job_alert"
+        | "saved_job_reminder"
+      screening_question_type: "text" | "yes_no" | "multiple_choice" | "numeric"
+      stage_outcome: "hired" | "rejected" | "withdrawn"
       user_role: "job_seeker" | "recruiter" | "admin"
     }
     CompositeTypes: {
@@ -357,14 +1485,35 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      activity_event_type: [
+        "application_submitted",
+        "application_status_changed",
+        "job_posted",
+        "job_closed",
+        "profile_updated",
+        "job_saved",
+        "application_withdrawn",
+      ],
       application_status: [
         "applied",
         "viewed",
         "shortlisted",
         "rejected",
         "hired",
+        "withdrawn",
       ],
+      digest_frequency: ["never", "daily", "weekly"],
       job_status: ["open", "closed", "paused"],
+      knockout_action: ["flag", "reject"],
+      notification_type: [
+        "application_status",
+        "new_applicant",
+        "job_closed",
+        "job_alert",
+        "saved_job_reminder",
+      ],
+      screening_question_type: ["text", "yes_no", "multiple_choice", "numeric"],
+      stage_outcome: ["hired", "rejected", "withdrawn"],
       user_role: ["job_seeker", "recruiter", "admin"],
     },
   },
@@ -0,0 +1,57 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type ActivityEvent = Database["public"]["Tables"]["activity_events"]["Row"];
+export type ActivityEventType = Database["public"]["Enums"]["activity_event_type"];
+type UserRole = Database["public"]["Enums"]["user_role"];
+
+/** Snapshot written by the activity triggers. */
+interface ActivityMetadata {
+  job_title?: string;
+  company_name?: string;
+  applicant_name?: string;
+  stage_name?: string;
+}
+
+export interface ActivityDescription {
+  message: string;
+  /** In-app path for the job or applicant the entry is about, if it still exists */
+  link: string | null;
+}
+
+const applicantLink = (event: ActivityEvent) =>
+  event.application_id ? `/applicants?application=${event.application_id}` : null;
+
+export const describeActivity = (event: ActivityEvent, role: UserRole): ActivityDescription => {
+  const metadata = (event.metadata ?? {}) as ActivityMetadata;
+  const job = metadata.job_title ?? "a job";
+  const company = metadata.company_name ? ` at ${metadata.company_name}` : "";
+  const applicant = metadata.applicant_name ?? "A candidate";
+  const jobLink = event.job_id ? `/jobs/${event.job_id}` : null;
+  const isRecruiter = role === "recruiter";
+
+  switch (event.event_type) {
+    case "application_submitted":
+      return isRecruiter
+        ? { message: `${applicant} applied to ${job}`, link: applicantLink(event) }
+        : { message: `You applied to ${job}${company}`, link: jobLink };
+    case "application_status_changed":
+      return isRecruiter
+        ? {
+            message: `${applicant} moved to ${metadata.stage_name} for ${job}`,
+            link: applicantLink(event),
+          }
+        : { message: `Your application for ${job} moved to ${metadata.stage_name}`, link: jobLink };
+    case "application_withdrawn":
+      return isRecruiter
+        ? { message: `${applicant} withdrew from ${job}`, link: applicantLink(event) }
+        : { message: `You withdrew your application for ${job}${company}`, link: "/my-applications" };
+    case "job_posted":
+      return { message: `You posted ${job}`, link: jobLink };
+    case "job_closed":
+      return { message: `You closed ${job}`, link: jobLink };
+    case "job_saved":
+      return { message: `You saved ${job}${company}`, link: jobLink };
+    case "profile_updated":
+      return { message: "You updated your profile", link: "/profile" };
+  }
+};
@@ -0,0 +1,85 @@
+import { addDays, differenceInCalendarDays, format, startOfDay, startOfYear, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import type { Database } from "@/integrations/supabase/types";
+
+type Functions = Database["public"]["Functions"];
+
+export type AnalyticsSummary = Functions["analytics_summary"]["Returns"][number];
+export type FunnelStage = Functions["analytics_funnel"]["Returns"][number];
+export type StageDuration = Functions["analytics_stage_durations"]["Returns"][number];
+export type ApplicationsPeriod = Functions["analytics_applications_over_time"]["Returns"][number];
+export type JobBreakdown = Functions["analytics_job_breakdown"]["Returns"][number];
+
+export type AnalyticsInterval = "day" | "week" | "month";
+
+export const RANGE_PRESETS = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "ytd", label: "Year to date" },
+  { value: "365", label: "Last 12 months" },
+] as const;
+
+export type RangePreset = (typeof RANGE_PRESETS)[number]["value"];
+
+/** The date range a preset covers, ending today. */
+export const presetRange = (preset: RangePreset, today = new Date()): DateRange => {
+  const to = startOfDay(today);
+  if (preset === "ytd") return { from: startOfYear(to), to };
+  return { from: subDays(to, Number(preset) - 1), to };
+};
+
+/** The RPC arguments for a range of whole days; the end date is included. */
+export const rangeToParams = (range: DateRange) => {
+  const from = startOfDay(range.from);
+  const to = addDays(startOfDay(range.to ?? range.from), 1);
+  return { p_from: from.toISOString(), p_to: to.toISOString() };
+};
+
+/** Picks a grouping that keeps the applications chart readable for the range. */
+export const intervalFor = (range: DateRange): AnalyticsInterval => {
+  const days = differenceInCalendarDays(range.to ?? range.from, range.from) + 1;
+  if (days <= 31) return "day";
+  if (days <= 183) return "week";
+  return "month";
+};
+
+export const formatPeriod = (period: string, interval: AnalyticsInterval) => {
+  const date = new Date(`${period}T00:00:00`);
+  return interval === "month" ? format(date, "MMM yyyy") : format(date, "MMM d");
+};
+
+export const formatRange = (range: DateRange) => {
+  if (!range.to || differenceInCalendarDays(range.to, range.from) === 0) return format(range.from, "MMM d, yyyy");
+  return `${format(range.from, "MMM d, yyyy")} – ${format(range.to, "MMM d, yyyy")}`;
+};
+
+/** Share of `part` in `whole` as a whole percentage, or null when there is nothing to compare. */
+export const percentOf = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : null);
+
+/**
+ * Adds each stage's conversion from the stage before it. Exit stages (rejected,
+ * withdrawn) come last and are compared with everyone who entered the funnel.
+ */
+export const withConversion = (funnel: FunnelStage[]) => {
+  const entered = funnel[0]?.reached ?? 0;
+  return funnel.map((stage, index) => {
+    const isExit = stage.outcome === "rejected" || stage.outcome === "withdrawn";
+    const previous = isExit || index === 0 ? entered : funnel[index - 1].reached;
+    return { ...stage, isExit, conversion: percentOf(stage.reached, previous) };
+  });
+};
+
+export const formatHours = (hours: number | null) => {
+  if (hours === null) return "—";
+  if (hours < 1) return "< 1 hour";
+  if (hours < 48) return `${Math.round(hours)} hours`;
+  return formatDays(hours / 24);
+};
+
+export const formatDays = (days: number | null) => {
+  if (days === null) return "—";
+  if (days < 1) return "< 1 day";
+  const rounded = Math.round(days);
+  return `${rounded} ${rounded === 1 ? "day" : "days"}`;
+};
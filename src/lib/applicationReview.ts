@@ -0,0 +1,37 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type ApplicationNote = Database["public"]["Tables"]["application_notes"]["Row"];
+export type ApplicationReview = Database["public"]["Tables"]["application_reviews"]["Row"];
+
+export const MAX_RATING = 5;
+export const MAX_TAGS = 20;
+export const MAX_NOTE_LENGTH = 5000;
+
+// Mirrors valid_review_tags() in the database
+const MAX_TAG_LENGTH = 40;
+
+/** Lowercases and hyphenates a tag so "Strong Frontend" and "strong-frontend" are the same tag. */
+export const normalizeReviewTag = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_TAG_LENGTH)
+    .replace(/-+$/, "");
+
+/** Every tag used across the given reviews, alphabetically, for the tag filter. */
+export const collectTags = (reviews: (Pick<ApplicationReview, "tags"> | null)[]) =>
+  [...new Set(reviews.flatMap((review) => review?.tags ?? []))].sort();
+
+export const sortNotes = (notes: ApplicationNote[]) =>
+  [...notes].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+export const formatNoteTime = (createdAt: string) =>
+  new Date(createdAt).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
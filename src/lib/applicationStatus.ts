@@ -0,0 +1,42 @@
+import type { Database } from "@/integrations/supabase/types";
+import { getStageVariant, type StageOutcome } from "@/lib/hiringStages";
+
+export type ApplicationStatus = Database["public"]["Enums"]["application_status"];
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  applied: "Applied",
+  viewed: "Viewed",
+  shortlisted: "Shortlisted",
+  rejected: "Rejected",
+  hired: "Hired",
+  withdrawn: "Withdrawn",
+};
+
+/** Applicants can pull out until a final decision has been made. */
+export const canWithdraw = (status: ApplicationStatus) =>
+  status === "applied" || status === "viewed" || status === "shortlisted";
+
+interface StatusSource {
+  status: ApplicationStatus;
+  stage: { name: string; outcome: StageOutcome | null } | null;
+}
+
+/**
+ * Badge text and variant for an application. Jobs without a withdrawn stage keep
+ * a withdrawn application in its last stage, so the status wins over the stage name.
+ */
+export const describeApplicationStatus = ({
+  status,
+  stage,
+}: StatusSource): { label: string; variant: ReturnType<typeof getStageVariant> } => {
+  if (status === "withdrawn") {
+    return {
+      label: stage?.outcome === "withdrawn" ? stage.name : APPLICATION_STATUS_LABELS.withdrawn,
+      variant: getStageVariant("withdrawn"),
+    };
+  }
+  return {
+    label: stage?.name ?? APPLICATION_STATUS_LABELS[status],
+    variant: getStageVariant(stage?.outcome ?? null),
+  };
+};
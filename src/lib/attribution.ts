@@ -0,0 +1,120 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type SourceBreakdown = Database["public"]["Functions"]["analytics_sources"]["Returns"][number];
+
+export interface Attribution {
+  source: string;
+  campaign: string | null;
+}
+
+export const SOURCE_PARAM = "utm_source";
+export const CAMPAIGN_PARAM = "utm_campaign";
+
+export const SHARE_SOURCES = [
+  { value: "linkedin", label: "LinkedIn" },
+  { value: "indeed", label: "Indeed" },
+  { value: "x", label: "X (Twitter)" },
+  { value: "facebook", label: "Facebook" },
+  { value: "email", label: "Email" },
+  { value: "referral", label: "Referral" },
+] as const;
+
+const STORAGE_KEY = "job-attribution";
+
+// A tagged visit still counts when the visitor applies within this many days
+const ATTRIBUTION_DAYS = 30;
+
+/** Lowercases and slugs a source or campaign so "LinkedIn" and "linkedin " count together. */
+export const normalizeTag = (value: string | null | undefined) => {
+  const tag = (value ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 100);
+  return tag || null;
+};
+
+export const buildShareLink = (origin: string, jobId: string, source: string, campaign: string) => {
+  const url = new URL(`/jobs/${jobId}`, origin);
+  const normalizedSource = normalizeTag(source);
+  const normalizedCampaign = normalizeTag(campaign);
+  if (normalizedSource) url.searchParams.set(SOURCE_PARAM, normalizedSource);
+  if (normalizedCampaign) url.searchParams.set(CAMPAIGN_PARAM, normalizedCampaign);
+  return url.toString();
+};
+
+/** The attribution carried by a job link's query string, if it was tagged. */
+export const readAttribution = (params: URLSearchParams): Attribution | null => {
+  const source = normalizeTag(params.get(SOURCE_PARAM));
+  return source ? { source, campaign: normalizeTag(params.get(CAMPAIGN_PARAM)) } : null;
+};
+
+type StoredAttribution = Attribution & { capturedAt: number };
+type StoredAttributions = Record<string, StoredAttribution>;
+
+const isRecent = (entry: StoredAttribution | undefined, now = Date.now()) =>
+  !!entry && now - entry.capturedAt < ATTRIBUTION_DAYS * 86_400_000;
+
+/**
+ * Tagged visits per job that are still recent enough to count. These are also
+ * copied into the user's metadata on sign-up, so they survive confirming the
+ * email address in another browser.
+ */
+export const getStoredAttributions = (now = Date.now()): StoredAttributions => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}") as StoredAttributions;
+    return Object.fromEntries(Object.entries(stored).filter(([, entry]) => isRecent(entry, now)));
+  } catch {
+    return {};
+  }
+};
+
+/** Remembers the latest tagged visit to a job until the visitor applies. */
+export const storeAttribution = (jobId: string, attribution: Attribution) => {
+  try {
+    const stored = getStoredAttributions();
+    stored[jobId] = { ...attribution, capturedAt: Date.now() };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage can be blocked; the application then counts as direct
+  }
+};
+
+export const clearAttribution = (jobId: string) => {
+  try {
+    const stored = getStoredAttributions();
+    delete stored[jobId];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Nothing to clear
+  }
+};
+
+/** The attribution to save with an application, preferring this browser's record over the sign-up copy. */
+export const getAttribution = (jobId: string, userMetadata?: Record<string, unknown>): Attribution | null => {
+  const signUpEntry = (userMetadata?.job_attribution as StoredAttributions | undefined)?.[jobId];
+  const entry = getStoredAttributions()[jobId] ?? (isRecent(signUpEntry) ? signUpEntry : undefined);
+  if (!entry) return null;
+  const source = normalizeTag(entry.source);
+  return source ? { source, campaign: normalizeTag(entry.campaign) } : null;
+};
+
+export const describeSource = (source: string | null) =>
+  source ? (SHARE_SOURCES.find((preset) => preset.value === source)?.label ?? source) : "Direct";
+
+/** Folds the per-campaign rows into one row per source, largest first. */
+export const groupBySource = (rows: SourceBreakdown[]) => {
+  const bySource = new Map<string, { source: string | null; applications: number; in_progress: number; hired: number }>();
+  rows.forEach((row) => {
+    const key = row.source ?? "";
+    const current = bySource.get(key) ?? { source: row.source, applications: 0, in_progress: 0, hired: 0 };
+    bySource.set(key, {
+      ...current,
+      applications: current.applications + row.applications,
+      in_progress: current.in_progress + row.in_progress,
+      hired: current.hired + row.hired,
+    });
+  });
+  return [...bySource.values()].sort((a, b) => b.applications - a.applications);
+};
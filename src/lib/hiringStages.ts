@@ -0,0 +1,88 @@
+import type { Database, Json } from "@/integrations/supabase/types";
+
+export type StageOutcome = Database["public"]["Enums"]["stage_outcome"];
+export type JobStage = Database["public"]["Tables"]["job_stages"]["Row"];
+
+/** A stage being edited; `id` is set for stages that already exist on a job. */
+export interface StageDraft {
+  id?: string;
+  name: string;
+  outcome: StageOutcome | null;
+  /** In-progress stage that shows the applicant their application was viewed */
+  marks_viewed: boolean;
+}
+
+export const OUTCOME_LABELS: Record<StageOutcome, string> = {
+  hired: "Hired",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+};
+
+// Mirrors create_default_job_stages() in the database
+export const DEFAULT_STAGES: StageDraft[] = [
+  { name: "Applied", outcome: null, marks_viewed: false },
+  { name: "Viewed", outcome: null, marks_viewed: true },
+  { name: "Shortlisted", outcome: null, marks_viewed: false },
+  { name: "Hired", outcome: "hired", marks_viewed: false },
+  { name: "Rejected", outcome: "rejected", marks_viewed: false },
+];
+
+/** The stage columns the UI needs; embedded selects return this shape. */
+export type StageSummary = Pick<JobStage, "id" | "name" | "position" | "outcome">;
+
+export const sortStages = <T extends StageSummary>(stages: T[]) =>
+  [...stages].sort((a, b) => a.position - b.position);
+
+export const getStageVariant = (outcome: StageOutcome | null) =>
+  outcome === "rejected" || outcome === "withdrawn"
+    ? "destructive"
+    : outcome === "hired"
+      ? "default"
+      : "secondary";
+
+/** Returns an error message, or null if the stages can be saved. */
+export const validateStages = (stages: StageDraft[]) => {
+  if (stages.length === 0) return "Add at least one stage";
+  if (stages.some((stage) => !stage.name.trim())) return "Every stage needs a name";
+  if (stages[0].outcome) return "The first stage can't be a final outcome";
+  const names = stages.map((stage) => stage.name.trim().toLowerCase());
+  if (new Set(names).size !== names.length) return "Stage names must be unique";
+  return null;
+};
+
+/** Shape stored in hiring_stage_templates.stages and accepted by set_job_stages(). */
+export const toStagesJson = (stages: StageDraft[]): Json =>
+  stages.map((stage) => ({
+    ...(stage.id ? { id: stage.id } : {}),
+    name: stage.name.trim(),
+    outcome: stage.outcome,
+    marks_viewed: !stage.outcome && stage.marks_viewed,
+  }));
+
+export const fromTemplateJson = (stages: Json): StageDraft[] =>
+  Array.isArray(stages)
+    ? stages.map((stage) => {
+        const { name, outcome, marks_viewed } = stage as {
+          name: string;
+          outcome: StageOutcome | null;
+          marks_viewed?: boolean;
+        };
+        return { name, outcome: outcome ?? null, marks_viewed: marks_viewed ?? false };
+      })
+    : [];
+
+export const stageKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Merges the stages of several jobs into one ordered list, matching stages by
+ * name. In-progress stages come first, final outcomes last.
+ */
+export const mergeStages = (stages: StageSummary[]) => {
+  const merged = new Map<string, StageSummary>();
+  [...stages]
+    .sort((a, b) => Number(!!a.outcome) - Number(!!b.outcome) || a.position - b.position)
+    .forEach((stage) => {
+      if (!merged.has(stageKey(stage.name))) merged.set(stageKey(stage.name), stage);
+    });
+  return Array.from(merged.values());
+};
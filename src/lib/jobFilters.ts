@@ -0,0 +1,103 @@
+export const JOB_TYPE_OPTIONS = [
+  { value: "full-time", label: "Full-time" },
+  { value: "part-time", label: "Part-time" },
+  { value: "contract", label: "Contract" },
+  { value: "internship", label: "Internship" },
+];
+
+export const POSTED_WITHIN_OPTIONS = [
+  { days: 1, label: "Past 24 hours" },
+  { days: 7, label: "Past week" },
+  { days: 30, label: "Past month" },
+];
+
+// A slider pushed to either end of its range leaves that side unbounded
+export const SALARY_RANGE = { min: 0, max: 300000, step: 10000 };
+export const EXPERIENCE_RANGE = { min: 0, max: 15, step: 1 };
+
+export interface JobFilters {
+  query: string;
+  location: string;
+  jobTypes: string[];
+  salaryMin: number | null;
+  salaryMax: number | null;
+  experienceMin: number | null;
+  experienceMax: number | null;
+  postedWithin: number | null;
+}
+
+/** Shape returned by job_search_facets(). */
+export interface JobFacets {
+  total: number;
+  job_types: Record<string, number>;
+  posted_within: Record<string, number>;
+}
+
+const PARAM_KEYS = {
+  query: "q",
+  location: "location",
+  jobTypes: "type",
+  salaryMin: "salary_min",
+  salaryMax: "salary_max",
+  experienceMin: "exp_min",
+  experienceMax: "exp_max",
+  postedWithin: "posted",
+} as const;
+
+// The search RPCs take INTEGER arguments, so anything else counts as unset
+const readNumber = (params: URLSearchParams, key: string) => {
+  const value = params.get(key);
+  if (value === null || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+};
+
+export const parseJobFilters = (params: URLSearchParams): JobFilters => ({
+  query: params.get(PARAM_KEYS.query) ?? "",
+  location: params.get(PARAM_KEYS.location) ?? "",
+  jobTypes: params.getAll(PARAM_KEYS.jobTypes),
+  salaryMin: readNumber(params, PARAM_KEYS.salaryMin),
+  salaryMax: readNumber(params, PARAM_KEYS.salaryMax),
+  experienceMin: readNumber(params, PARAM_KEYS.experienceMin),
+  experienceMax: readNumber(params, PARAM_KEYS.experienceMax),
+  postedWithin: readNumber(params, PARAM_KEYS.postedWithin),
+});
+
+/**
+ * Writes the filters into `params`, dropping empty ones so shared links stay
+ * short. Other parameters (such as the sort order) are left untouched.
+ */
+export const writeJobFilters = (params: URLSearchParams, filters: JobFilters) => {
+  const next = new URLSearchParams(params);
+  Object.values(PARAM_KEYS).forEach((key) => next.delete(key));
+
+  if (filters.query.trim()) next.set(PARAM_KEYS.query, filters.query);
+  if (filters.location.trim()) next.set(PARAM_KEYS.location, filters.location);
+  filters.jobTypes.forEach((type) => next.append(PARAM_KEYS.jobTypes, type));
+  (["salaryMin", "salaryMax", "experienceMin", "experienceMax", "postedWithin"] as const).forEach(
+    (field) => {
+      if (filters[field] !== null) next.set(PARAM_KEYS[field], String(filters[field]));
+    }
+  );
+  return next;
+};
+
+export const countActiveFilters = (filters: JobFilters) =>
+  [
+    filters.jobTypes.length > 0,
+    filters.salaryMin !== null || filters.salaryMax !== null,
+    filters.experienceMin !== null || filters.experienceMax !== null,
+    filters.postedWithin !== null,
+  ].filter(Boolean).length;
+
+/** Arguments shared by the search_jobs() and job_search_facets() RPCs. */
+export const toSearchArgs = (filters: JobFilters) => ({
+  p_query: filters.query,
+  p_location: filters.location,
+  p_job_types: filters.jobTypes.length > 0 ? filters.jobTypes : undefined,
+  p_salary_min: filters.salaryMin ?? undefined,
+  p_salary_max: filters.salaryMax ?? undefined,
+  p_experience_min: filters.experienceMin ?? undefined,
+  p_experience_max: filters.experienceMax ?? undefined,
+  p_posted_within_days: filters.postedWithin ?? undefined,
+});
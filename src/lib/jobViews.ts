@@ -0,0 +1,28 @@
+import { percentOf } from "@/lib/analytics";
+
+const VIEWER_ID_KEY = "job-viewer-id";
+
+/**
+ * A random id identifying this browser session to record_job_view when nobody
+ * is signed in, so repeat anonymous visits in the same session count once.
+ */
+export const getAnonymousViewerId = () => {
+  try {
+    const stored = sessionStorage.getItem(VIEWER_ID_KEY);
+    if (stored) return stored;
+
+    const id = crypto.randomUUID();
+    sessionStorage.setItem(VIEWER_ID_KEY, id);
+    return id;
+  } catch {
+    // Storage can be blocked; such visits then count once per page load
+    return crypto.randomUUID();
+  }
+};
+
+/** "12% of 240 views applied", or null before a job has any views. */
+export const describeViewConversion = (views: number | null, applications: number | null) => {
+  const rate = percentOf(applications ?? 0, views ?? 0);
+  if (rate === null) return null;
+  return `${rate}% of ${views} ${views === 1 ? "view" : "views"} applied`;
+};
@@ -0,0 +1,296 @@
+import { z } from "zod";
+import type { Database } from "@/integrations/supabase/types";
+import { isSafeUrl, type HistoryTable } from "@/lib/profileHistory";
+import { normalizeSkill } from "@/lib/skillMatch";
+
+type Tables = Database["public"]["Tables"];
+type Profile = Tables["profiles"]["Row"];
+
+export const JSON_RESUME_SCHEMA_URL =
+  "https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json";
+
+// JSON Resume dates may leave out the day or month, e.g. "2019" or "2019-06"
+const ISO_DATE = /^[1-2][0-9]{3}(-[0-1][0-9](-[0-3][0-9])?)?$/;
+
+// Exported files often carry "" for fields they don't use; treat those as absent
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => (value === "" || value === null ? undefined : value), schema.optional());
+
+const text = optional(z.string());
+const url = optional(z.string().url());
+const date = optional(z.string().regex(ISO_DATE, "Dates must look like 2019, 2019-06 or 2019-06-30"));
+const list = <T extends z.ZodTypeAny>(item: T) => optional(z.array(item));
+
+/** The parts of the JSON Resume v1 schema we read and write; other properties pass through untouched. */
+export const jsonResumeSchema = z
+  .object({
+    $schema: text,
+    basics: optional(
+      z
+        .object({
+          name: text,
+          label: text,
+          image: text,
+          email: optional(z.string().email()),
+          phone: text,
+          url,
+          summary: text,
+          location: optional(
+            z
+              .object({
+                address: text,
+                postalCode: text,
+                city: text,
+                countryCode: text,
+                region: text,
+              })
+              .passthrough()
+          ),
+          profiles: list(z.object({ network: text, username: text, url }).passthrough()),
+        })
+        .passthrough()
+    ),
+    work: list(
+      z
+        .object({
+          name: text,
+          position: text,
+          url,
+          startDate: date,
+          endDate: date,
+          summary: text,
+          highlights: list(z.string()),
+        })
+        .passthrough()
+    ),
+    education: list(
+      z
+        .object({
+          institution: text,
+          url,
+          area: text,
+          studyType: text,
+          startDate: date,
+          endDate: date,
+        })
+        .passthrough()
+    ),
+    certificates: list(z.object({ name: text, date, url, issuer: text }).passthrough()),
+    skills: list(z.object({ name: text, level: text, keywords: list(z.string()) }).passthrough()),
+    projects: list(z.object({ name: text, description: text, url }).passthrough()),
+  })
+  .passthrough();
+
+export type JsonResume = z.infer<typeof jsonResumeSchema>;
+
+type WithoutOwner<T> = Omit<T, "id" | "user_id" | "created_at">;
+
+export interface ProfileHistory {
+  work_experiences: WithoutOwner<Tables["work_experiences"]["Insert"]>[];
+  educations: WithoutOwner<Tables["educations"]["Insert"]>[];
+  certifications: WithoutOwner<Tables["certifications"]["Insert"]>[];
+  portfolio_links: WithoutOwner<Tables["portfolio_links"]["Insert"]>[];
+}
+
+export interface JsonResumeImport {
+  /** Only the fields the file fills in */
+  profile: Partial<Pick<Profile, "full_name" | "phone" | "location" | "bio">>;
+  email: string | null;
+  skills: string[];
+  history: ProfileHistory;
+}
+
+export type ExportProfile = Pick<Profile, "full_name" | "email" | "phone" | "location" | "bio" | "skills">;
+
+/** Reads a JSON Resume file's text; the error message says what is wrong with it. */
+export const parseJsonResume = (
+  raw: string
+): { success: true; resume: JsonResume } | { success: false; error: string } => {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { success: false, error: "The file isn't valid JSON" };
+  }
+
+  const result = jsonResumeSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join(".");
+    return { success: false, error: path ? `${path}: ${issue.message}` : issue.message };
+  }
+  return { success: true, resume: result.data };
+};
+
+// Our history tables store whole dates, so partial ones start at the first of the month or year
+const toDate = (value: string | undefined) => {
+  if (!value) return null;
+  const [year, month = "01", day = "01"] = value.split("-");
+  return `${year}-${month}-${day}`;
+};
+
+const toLocation = (location: NonNullable<JsonResume["basics"]>["location"]) => {
+  if (!location) return undefined;
+  const place = [location.city, location.region || location.countryCode].filter(Boolean).join(", ");
+  return place || location.address || undefined;
+};
+
+const describeWork = (summary: string | undefined, highlights: string[] | undefined) =>
+  [summary, ...(highlights || []).map((highlight) => `• ${highlight}`)].filter(Boolean).join("\n") || null;
+
+const dedupeSkills = (skills: string[]) => {
+  const seen = new Set<string>();
+  return skills
+    .map((skill) => skill.trim())
+    .filter((skill) => {
+      const key = normalizeSkill(skill);
+      if (!skill || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+/** Maps a JSON Resume document onto profile fields and history rows, skipping entries our tables can't hold. */
+export const fromJsonResume = (resume: JsonResume): JsonResumeImport => {
+  const basics = resume.basics || {};
+
+  const profile: JsonResumeImport["profile"] = {};
+  if (basics.name) profile.full_name = basics.name;
+  if (basics.phone) profile.phone = basics.phone;
+  if (basics.summary) profile.bio = basics.summary;
+  const location = toLocation(basics.location);
+  if (location) profile.location = location;
+
+  // Grouped skills such as "Web Development" list the actual skills as keywords
+  const skills = (resume.skills || []).flatMap((skill) =>
+    skill.keywords?.length ? skill.keywords : skill.name ? [skill.name] : []
+  );
+
+  const links = [
+    ...(basics.url ? [{ label: "Website", url: basics.url }] : []),
+    ...(basics.profiles || []).map((item) => ({ label: item.network || item.username, url: item.url })),
+    ...(resume.projects || []).map((project) => ({ label: project.name, url: project.url })),
+  ];
+
+  return {
+    profile,
+    email: basics.email ?? null,
+    skills: dedupeSkills(skills),
+    history: {
+      work_experiences: (resume.work || [])
+        .filter((work) => work.name && work.position && work.startDate)
+        .map((work) => ({
+          company: work.name,
+          title: work.position,
+          start_date: toDate(work.startDate),
+          end_date: toDate(work.endDate),
+          description: describeWork(work.summary, work.highlights),
+        })),
+      educations: (resume.education || [])
+        .filter((education) => education.institution)
+        .map((education) => ({
+          institution: education.institution,
+          degree: education.studyType ?? null,
+          field_of_study: education.area ?? null,
+          start_date: toDate(education.startDate),
+          end_date: toDate(education.endDate),
+        })),
+      certifications: (resume.certificates || [])
+        .filter((certificate) => certificate.name)
+        .map((certificate) => ({
+          name: certificate.name,
+          issuer: certificate.issuer ?? null,
+          issued_on: toDate(certificate.date),
+          expires_on: null,
+          credential_url: certificate.url && isSafeUrl(certificate.url) ? certificate.url : null,
+        })),
+      portfolio_links: links
+        .filter((link): link is { label: string; url: string } => !!link.label && !!link.url && isSafeUrl(link.url))
+        .map(({ label, url }) => ({ label, url })),
+    },
+  };
+};
+
+/** Skills from the file that aren't on the profile yet, in any spelling. */
+export const newSkills = (current: string[] | null, imported: string[]) => {
+  const existing = new Set((current || []).map(normalizeSkill));
+  return imported.filter((skill) => !existing.has(normalizeSkill(skill)));
+};
+
+const IDENTITY: { [T in HistoryTable]: (row: ProfileHistory[T][number]) => unknown[] } = {
+  work_experiences: (row) => [row.company, row.title, row.start_date],
+  educations: (row) => [row.institution, row.degree, row.start_date],
+  certifications: (row) => [row.name, row.issuer],
+  portfolio_links: (row) => [row.url],
+};
+
+const identityOf = <T extends HistoryTable>(table: T, row: ProfileHistory[T][number]) =>
+  JSON.stringify(IDENTITY[table](row).map((value) => (typeof value === "string" ? value.trim().toLowerCase() : value)));
+
+/** Drops imported entries that are already on the profile, so importing the same file twice adds nothing. */
+export const withoutExisting = (imported: ProfileHistory, existing: ProfileHistory): ProfileHistory => {
+  const keep = <T extends HistoryTable>(table: T) => {
+    const known = new Set(existing[table].map((row) => identityOf(table, row)));
+    return imported[table].filter((row) => !known.has(identityOf(table, row))) as ProfileHistory[T];
+  };
+
+  return {
+    work_experiences: keep("work_experiences"),
+    educations: keep("educations"),
+    certifications: keep("certifications"),
+    portfolio_links: keep("portfolio_links"),
+  };
+};
+
+const splitLocation = (location: string | null) => {
+  if (!location) return undefined;
+  const comma = location.lastIndexOf(",");
+  if (comma === -1) return { city: location };
+  return { city: location.slice(0, comma).trim(), region: location.slice(comma + 1).trim() };
+};
+
+// JSON Resume leaves unused fields out rather than setting them to null
+const compact = <T extends Record<string, unknown>>(value: T) =>
+  Object.fromEntries(Object.entries(value).filter(([, item]) => item !== null && item !== undefined && item !== "")) as T;
+
+/** Builds a JSON Resume document from the stored profile; throws if the result doesn't match the schema. */
+export const toJsonResume = (profile: ExportProfile, history: ProfileHistory): JsonResume =>
+  jsonResumeSchema.parse({
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: compact({
+      name: profile.full_name,
+      email: profile.email,
+      phone: profile.phone,
+      summary: profile.bio,
+      location: splitLocation(profile.location),
+      profiles: history.portfolio_links.map((link) => ({ network: link.label, url: link.url })),
+    }),
+    work: history.work_experiences.map((work) =>
+      compact({
+        name: work.company,
+        position: work.title,
+        startDate: work.start_date,
+        endDate: work.end_date,
+        summary: work.description,
+      })
+    ),
+    education: history.educations.map((education) =>
+      compact({
+        institution: education.institution,
+        studyType: education.degree,
+        area: education.field_of_study,
+        startDate: education.start_date,
+        endDate: education.end_date,
+      })
+    ),
+    certificates: history.certifications.map((certification) =>
+      compact({
+        name: certification.name,
+        issuer: certification.issuer,
+        date: certification.issued_on,
+        url: certification.credential_url,
+      })
+    ),
+    skills: (profile.skills || []).map((name) => ({ name })),
+    meta: { version: "v1.0.0", lastModified: new Date().toISOString() },
+  });
@@ -0,0 +1,69 @@
+import { normalizeSkill } from "@/lib/skillMatch";
+
+export interface LearningResource {
+  title: string;
+  url: string;
+  kind: "course" | "docs" | "tutorial" | "book";
+  free: boolean;
+}
+
+// Curated resources keyed by canonical skill name (see normalizeSkill).
+// Add entries here; skills without an entry fall back to a generic search.
+export const LEARNING_RESOURCES: Record<string, LearningResource[]> = {
+  javascript: [
+    { title: "MDN JavaScript Guide", url: "https://developer.mozilla.org/en-US/docs/Web/JavaScript/Guide", kind: "docs", free: true },
+    { title: "javascript.info", url: "https://javascript.info/", kind: "tutorial", free: true },
+  ],
+  typescript: [
+    { title: "TypeScript Handbook", url: "https://www.typescriptlang.org/docs/handbook/intro.html", kind: "docs", free: true },
+  ],
+  react: [
+    { title: "React: Learn", url: "https://react.dev/learn", kind: "docs", free: true },
+  ],
+  "node.js": [
+    { title: "Node.js Learn", url: "https://nodejs.org/en/learn", kind: "docs", free: true },
+  ],
+  "next.js": [
+    { title: "Next.js Learn", url: "https://nextjs.org/learn", kind: "course", free: true },
+  ],
+  python: [
+    { title: "The Python Tutorial", url: "https://docs.python.org/3/tutorial/", kind: "docs", free: true },
+  ],
+  postgresql: [
+    { title: "PostgreSQL Tutorial", url: "https://www.postgresql.org/docs/current/tutorial.html", kind: "docs", free: true },
+  ],
+  sql: [
+    { title: "SQLBolt", url: "https://sqlbolt.com/", kind: "tutorial", free: true },
+  ],
+  docker: [
+    { title: "Docker Get Started", url: "https://docs.docker.com/get-started/", kind: "docs", free: true },
+  ],
+  kubernetes: [
+    { title: "Kubernetes Basics", url: "https://kubernetes.io/docs/tutorials/kubernetes-basics/", kind: "tutorial", free: true },
+  ],
+  "amazon web services": [
+    { title: "AWS Skill Builder", url: "https://skillbuilder.aws/", kind: "course", free: true },
+  ],
+  git: [
+    { title: "Pro Git", url: "https://git-scm.com/book/en/v2", kind: "book", free: true },
+  ],
+  graphql: [
+    { title: "Learn GraphQL", url: "https://graphql.org/learn/", kind: "docs", free: true },
+  ],
+  "tailwind css": [
+    { title: "Tailwind CSS Docs", url: "https://tailwindcss.com/docs", kind: "docs", free: true },
+  ],
+  "machine learning": [
+    { title: "Machine Learning Crash Course", url: "https://developers.google.com/machine-learning/crash-course", kind: "course", free: true },
+  ],
+};
+
+export const findLearningResources = (skill: string): LearningResource[] =>
+  LEARNING_RESOURCES[normalizeSkill(skill)] ?? [
+    {
+      title: `Search tutorials for ${skill}`,
+      url: `https://www.google.com/search?q=${encodeURIComponent(`${skill} tutorial`)}`,
+      kind: "tutorial",
+      free: true,
+    },
+  ];
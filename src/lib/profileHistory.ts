@@ -0,0 +1,164 @@
+import type { Database } from "@/integrations/supabase/types";
+
+type Tables = Database["public"]["Tables"];
+
+export type WorkExperience = Tables["work_experiences"]["Row"];
+export type Education = Tables["educations"]["Row"];
+export type Certification = Tables["certifications"]["Row"];
+export type PortfolioLink = Tables["portfolio_links"]["Row"];
+
+export type HistoryTable = "work_experiences" | "educations" | "certifications" | "portfolio_links";
+export type HistoryEntry = WorkExperience | Education | Certification | PortfolioLink;
+
+export interface HistoryField {
+  name: string;
+  label: string;
+  type: "text" | "date" | "textarea" | "url";
+  required?: boolean;
+  placeholder?: string;
+  /** For end dates: a checkbox that leaves the date empty, e.g. "I currently work here" */
+  ongoingLabel?: string;
+}
+
+/** How an entry reads in a list or timeline. */
+export interface HistorySummary {
+  title: string;
+  subtitle: string | null;
+  period: string | null;
+  description: string | null;
+  url: string | null;
+}
+
+export interface HistorySection {
+  table: HistoryTable;
+  title: string;
+  description: string;
+  addLabel: string;
+  emptyText: string;
+  fields: HistoryField[];
+  /** Start and end date fields; the end may not come before the start */
+  dateRange?: [string, string];
+  summarize: (entry: HistoryEntry) => HistorySummary;
+}
+
+const formatMonth = (date: string) =>
+  // Date-only values would otherwise be read as UTC midnight and can land on the previous day
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { month: "short", year: "numeric" });
+
+export const formatPeriod = (start: string | null, end: string | null, ongoing = "Present") => {
+  if (!start && !end) return null;
+  if (!start) return formatMonth(end);
+  return `${formatMonth(start)} – ${end ? formatMonth(end) : ongoing}`;
+};
+
+const joinParts = (...parts: (string | null | undefined)[]) => parts.filter(Boolean).join(", ") || null;
+
+export const WORK_EXPERIENCE_SECTION: HistorySection = {
+  table: "work_experiences",
+  title: "Work Experience",
+  description: "Your roles, most recent first. Years of experience are calculated from these dates.",
+  addLabel: "Add Role",
+  emptyText: "No work experience added yet",
+  fields: [
+    { name: "title", label: "Job title", type: "text", required: true, placeholder: "e.g., Frontend Developer" },
+    { name: "company", label: "Company", type: "text", required: true },
+    { name: "start_date", label: "Start date", type: "date", required: true },
+    { name: "end_date", label: "End date", type: "date", ongoingLabel: "I currently work here" },
+    { name: "description", label: "Description", type: "textarea", placeholder: "What you worked on and achieved" },
+  ],
+  dateRange: ["start_date", "end_date"],
+  summarize: (entry) => {
+    const role = entry as WorkExperience;
+    return {
+      title: role.title,
+      subtitle: role.company,
+      period: formatPeriod(role.start_date, role.end_date),
+      description: role.description,
+      url: null,
+    };
+  },
+};
+
+export const EDUCATION_SECTION: HistorySection = {
+  table: "educations",
+  title: "Education",
+  description: "Degrees, diplomas and courses of study.",
+  addLabel: "Add Education",
+  emptyText: "No education added yet",
+  fields: [
+    { name: "institution", label: "School", type: "text", required: true },
+    { name: "degree", label: "Degree", type: "text", placeholder: "e.g., BSc" },
+    { name: "field_of_study", label: "Field of study", type: "text", placeholder: "e.g., Computer Science" },
+    { name: "start_date", label: "Start date", type: "date" },
+    { name: "end_date", label: "End date", type: "date", ongoingLabel: "I'm still studying here" },
+  ],
+  dateRange: ["start_date", "end_date"],
+  summarize: (entry) => {
+    const education = entry as Education;
+    return {
+      title: education.institution,
+      subtitle: joinParts(education.degree, education.field_of_study),
+      period: formatPeriod(education.start_date, education.end_date),
+      description: null,
+      url: null,
+    };
+  },
+};
+
+export const CERTIFICATION_SECTION: HistorySection = {
+  table: "certifications",
+  title: "Certifications",
+  description: "Licenses and certificates, with a link to verify them where available.",
+  addLabel: "Add Certification",
+  emptyText: "No certifications added yet",
+  fields: [
+    { name: "name", label: "Name", type: "text", required: true, placeholder: "e.g., AWS Certified Developer" },
+    { name: "issuer", label: "Issued by", type: "text" },
+    { name: "issued_on", label: "Issue date", type: "date" },
+    { name: "expires_on", label: "Expiry date", type: "date", ongoingLabel: "Doesn't expire" },
+    { name: "credential_url", label: "Credential URL", type: "url" },
+  ],
+  dateRange: ["issued_on", "expires_on"],
+  summarize: (entry) => {
+    const certification = entry as Certification;
+    const issued = certification.issued_on ? `Issued ${formatMonth(certification.issued_on)}` : null;
+    const expires = certification.expires_on ? `expires ${formatMonth(certification.expires_on)}` : null;
+    return {
+      title: certification.name,
+      subtitle: certification.issuer,
+      period: joinParts(issued, expires),
+      description: null,
+      url: certification.credential_url,
+    };
+  },
+};
+
+export const PORTFOLIO_SECTION: HistorySection = {
+  table: "portfolio_links",
+  title: "Portfolio",
+  description: "Links to your projects, code and published work.",
+  addLabel: "Add Link",
+  emptyText: "No portfolio links added yet",
+  fields: [
+    { name: "label", label: "Label", type: "text", required: true, placeholder: "e.g., GitHub" },
+    { name: "url", label: "URL", type: "url", required: true, placeholder: "https://" },
+  ],
+  summarize: (entry) => {
+    const link = entry as PortfolioLink;
+    return { title: link.label, subtitle: null, period: null, description: null, url: link.url };
+  },
+};
+
+export const HISTORY_SECTIONS = [WORK_EXPERIENCE_SECTION, EDUCATION_SECTION, CERTIFICATION_SECTION, PORTFOLIO_SECTION];
+
+/** Most recent start first; entries without dates keep the order they were added in, newest first. */
+export const sortByRecency = <T extends HistoryEntry>(entries: T[], section: HistorySection) => {
+  const start = (entry: T) =>
+    section.dateRange ? ((entry as Record<string, unknown>)[section.dateRange[0]] as string | null) ?? "" : "";
+  return [...entries].sort(
+    (a, b) => start(b).localeCompare(start(a)) || b.created_at.localeCompare(a.created_at)
+  );
+};
+
+/** Rejects non-http(s) links so they can be rendered as anchors safely. */
+export const isSafeUrl = (value: string) => /^https?:\/\/\S+$/i.test(value.trim());
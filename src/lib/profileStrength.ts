@@ -0,0 +1,114 @@
+import type { Database } from "@/integrations/supabase/types";
+
+type ProfileRow = Database["public"]["Tables"]["profiles"]["Row"];
+
+export type StrengthProfile = Pick<
+  ProfileRow,
+  "bio" | "phone" | "location" | "skills" | "experience_years" | "resume_url" | "profile_image_url"
+>;
+
+export interface StrengthItem {
+  key: string;
+  label: string;
+  /** What to do to complete the item, shown while it is missing */
+  action: string;
+  /** Element id on the profile page, used as a /profile#<id> deep link */
+  fieldId: string;
+  weight: number;
+  /** Share of the weight earned, from 0 to 1 */
+  progress: number;
+}
+
+export interface ProfileStrength {
+  /** 0-100 */
+  score: number;
+  items: StrengthItem[];
+  missing: StrengthItem[];
+}
+
+const MIN_BIO_LENGTH = 50;
+const TARGET_SKILLS = 5;
+
+const filled = (value: string | null | undefined) => !!value && value.trim().length > 0;
+
+/** Scores how complete a job seeker's profile is. Weights add up to 100. */
+export const computeProfileStrength = (profile: StrengthProfile): ProfileStrength => {
+  const skillsCount = profile.skills?.length ?? 0;
+  const bioLength = profile.bio?.trim().length ?? 0;
+
+  const items: StrengthItem[] = [
+    {
+      key: "resume",
+      label: "Resume",
+      action: "Upload your resume",
+      fieldId: "resume-section",
+      weight: 20,
+      progress: filled(profile.resume_url) ? 1 : 0,
+    },
+    {
+      key: "skills",
+      label: "Skills",
+      action:
+        skillsCount === 0
+          ? `Add at least ${TARGET_SKILLS} skills`
+          : `Add ${TARGET_SKILLS - skillsCount} more skill${TARGET_SKILLS - skillsCount === 1 ? "" : "s"}`,
+      fieldId: "skills",
+      weight: 20,
+      progress: Math.min(skillsCount / TARGET_SKILLS, 1),
+    },
+    {
+      key: "bio",
+      label: "Bio",
+      action: bioLength === 0 ? "Write a short bio" : `Expand your bio to at least ${MIN_BIO_LENGTH} characters`,
+      fieldId: "bio",
+      weight: 15,
+      progress: bioLength >= MIN_BIO_LENGTH ? 1 : bioLength > 0 ? 0.5 : 0,
+    },
+    {
+      key: "photo",
+      label: "Photo",
+      action: "Add a profile photo",
+      fieldId: "photo-section",
+      weight: 15,
+      progress: filled(profile.profile_image_url) ? 1 : 0,
+    },
+    {
+      key: "experience",
+      label: "Experience",
+      action: "Enter your years of experience",
+      fieldId: "experience_years",
+      weight: 10,
+      progress: profile.experience_years !== null && profile.experience_years !== undefined ? 1 : 0,
+    },
+    {
+      key: "location",
+      label: "Location",
+      action: "Add your location",
+      fieldId: "location",
+      weight: 10,
+      progress: filled(profile.location) ? 1 : 0,
+    },
+    {
+      key: "phone",
+      label: "Phone",
+      action: "Add a phone number",
+      fieldId: "phone",
+      weight: 10,
+      progress: filled(profile.phone) ? 1 : 0,
+    },
+  ];
+
+  const score = Math.round(items.reduce((sum, item) => sum + item.weight * item.progress, 0));
+
+  return {
+    score,
+    items,
+    // Biggest gains first
+    missing: items
+      .filter((item) => item.progress < 1)
+      .sort((a, b) => b.weight * (1 - b.progress) - a.weight * (1 - a.progress)),
+  };
+};
+
+export const getStrengthLabel = (score: number) =>
+  score >= 80 ? "Strong" : score >= 50 ? "Good" : "Needs work";
@@ -0,0 +1,102 @@
+import { matchJob, normalizeSkill, type JobMatch, type MatchableJob, type SkillProfile } from "@/lib/skillMatch";
+
+export interface RecommendationProfile extends SkillProfile {
+  location: string | null;
+}
+
+export interface RecommendableJob extends MatchableJob {
+  id: string;
+  location: string;
+}
+
+export interface RecommendationSignals {
+  /** Jobs the seeker already applied to; these are never recommended. */
+  appliedJobs: RecommendableJob[];
+  savedJobs: RecommendableJob[];
+}
+
+export interface Recommendation<T extends RecommendableJob> {
+  job: T;
+  score: number;
+  match: JobMatch;
+  reasons: string[];
+}
+
+const SAME_CITY_BONUS = 15;
+const REMOTE_BONUS = 10;
+const INTEREST_BONUS_PER_SKILL = 3;
+const MAX_INTEREST_BONUS = 12;
+const SAVED_BONUS = 5;
+
+// "San Francisco, CA" and "san francisco" both become "san francisco".
+const cityOf = (location: string | null) =>
+  (location || "").split(",")[0].trim().toLowerCase();
+
+const isRemote = (location: string) => /remote/i.test(location);
+
+/**
+ * Ranks jobs for a seeker by skill match, location, experience and the
+ * skills of jobs they have saved or applied to. Jobs already applied to are
+ * left out. Each result carries short human-readable reasons.
+ */
+export const recommendJobs = <T extends RecommendableJob>(
+  profile: RecommendationProfile,
+  jobs: T[],
+  signals: RecommendationSignals,
+  limit = 5
+): Recommendation<T>[] => {
+  const appliedIds = new Set(signals.appliedJobs.map((job) => job.id));
+  const savedIds = new Set(signals.savedJobs.map((job) => job.id));
+  const interestSkills = new Set(
+    [...signals.appliedJobs, ...signals.savedJobs].flatMap((job) =>
+      job.required_skills.map(normalizeSkill)
+    )
+  );
+  const profileSkills = new Set((profile.skills || []).map(normalizeSkill));
+  const profileCity = cityOf(profile.location);
+
+  return jobs
+    .filter((job) => !appliedIds.has(job.id))
+    .map((job) => {
+      const match = matchJob(profile, job);
+      const reasons: string[] = [];
+      let score = match.score;
+
+      if (job.required_skills.length > 0 && match.matchedSkills.length > 0) {
+        reasons.push(
+          `matches ${match.matchedSkills.length} of ${job.required_skills.length} skills`
+        );
+      }
+
+      if (profileCity && cityOf(job.location) === profileCity) {
+        score += SAME_CITY_BONUS;
+        reasons.push("same city");
+      } else if (isRemote(job.location)) {
+        score += REMOTE_BONUS;
+        reasons.push("remote");
+      }
+
+      if (job.experience_required && match.meetsExperience) {
+        reasons.push("fits your experience");
+      }
+
+      // Skills the seeker has shown interest in but not yet listed on their profile
+      const sharedInterests = job.required_skills
+        .map(normalizeSkill)
+        .filter((skill) => interestSkills.has(skill) && !profileSkills.has(skill));
+      if (sharedInterests.length > 0) {
+        score += Math.min(sharedInterests.length * INTEREST_BONUS_PER_SKILL, MAX_INTEREST_BONUS);
+        reasons.push("similar to jobs you saved or applied to");
+      }
+
+      if (savedIds.has(job.id)) {
+        score += SAVED_BONUS;
+        reasons.push("on your saved list");
+      }
+
+      return { job, score, match, reasons };
+    })
+    .filter((recommendation) => recommendation.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
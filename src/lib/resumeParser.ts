@@ -0,0 +1,194 @@
+import { knownSkillSpellings, normalizeSkill } from "@/lib/skillMatch";
+import type { ResumeFormat } from "@/lib/resumes";
+
+export interface ParsedResume {
+  /** One entry per canonical skill, in the platform's spelling when it has one */
+  skills: string[];
+  experienceYears: number | null;
+  phone: string | null;
+  location: string | null;
+}
+
+export interface SkillVocabulary {
+  /** Lowercase spelling -> canonical skill */
+  spellings: Map<string, string>;
+  /** Canonical skill -> spelling used on the platform */
+  display: Map<string, string>;
+}
+
+// Aliases that are also everyday words or too short to trust in free text
+const AMBIGUOUS_SPELLINGS = new Set(["go", "next", "node", "express", "ai", "ml", "ui", "ux", "rn", "ts", "py"]);
+
+/**
+ * Combines the alias table with the skills employers list on open jobs, so
+ * the parser recognizes what the platform actually hires for.
+ */
+export const buildSkillVocabulary = (platformSkills: string[]): SkillVocabulary => {
+  const spellings = new Map<string, string>();
+  const display = new Map<string, string>();
+
+  knownSkillSpellings().forEach(([spelling, canonical]) => spellings.set(spelling, canonical));
+  platformSkills.forEach((skill) => {
+    const key = normalizeSkill(skill);
+    spellings.set(skill.trim().toLowerCase().replace(/\s+/g, " "), key);
+    if (!display.has(key)) display.set(key, skill.trim());
+  });
+  AMBIGUOUS_SPELLINGS.forEach((spelling) => spellings.delete(spelling));
+
+  return { spellings, display };
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const detectSkills = (text: string, vocabulary: SkillVocabulary) => {
+  const flat = text.replace(/\s+/g, " ");
+  const found = new Map<string, string>();
+
+  vocabulary.spellings.forEach((canonical, spelling) => {
+    if (found.has(canonical)) return;
+    // Skill names contain symbols (c++, c#, node.js), so \b can't mark their edges
+    const match = new RegExp(`(?<![\\w+#.])${escapeRegExp(spelling)}(?![\\w+#]|\\.\\w)`, "i").exec(flat);
+    if (match) found.set(canonical, vocabulary.display.get(canonical) ?? match[0]);
+  });
+
+  return Array.from(found.values());
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+// "Mar 2019", "March 2019", "03/2019" or "2019"
+const DATE_POINT = String.raw`(?:(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+|(\d{1,2})/)?((?:19|20)\d{2})`;
+const DATE_RANGE = new RegExp(
+  String.raw`${DATE_POINT}\s*(?:-|–|—|to|until)\s*(?:${DATE_POINT}|(present|current|now|today))`,
+  "gi"
+);
+
+const EXPERIENCE_HEADING = /^(work |professional )?(experience|employment( history)?|work history|career history)$/i;
+const OTHER_HEADING =
+  /^(education|academic background|skills|technical skills|projects|certifications|awards|publications|references|languages|interests|volunteering|summary|profile)$/i;
+
+/** Lines of the work history section, or everything but education when there are no headings. */
+const experienceLines = (lines: string[]) => {
+  const heading = (line: string) => line.trim().replace(/:$/, "");
+  const hasExperienceHeading = lines.some((line) => EXPERIENCE_HEADING.test(heading(line)));
+  let section: "experience" | "education" | "other" | null = null;
+
+  return lines.filter((line) => {
+    if (EXPERIENCE_HEADING.test(heading(line))) {
+      section = "experience";
+      return false;
+    }
+    if (OTHER_HEADING.test(heading(line))) {
+      section = /^(education|academic)/i.test(heading(line)) ? "education" : "other";
+      return false;
+    }
+    return hasExperienceHeading ? section === "experience" : section !== "education";
+  });
+};
+
+const monthOf = (name: string | undefined, number: string | undefined, fallback: number) => {
+  if (name) return MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+  if (number && Number(number) >= 1 && Number(number) <= 12) return Number(number) - 1;
+  return fallback;
+};
+
+/**
+ * Adds up the date ranges in the work history, counting overlapping roles
+ * once. Returns whole years.
+ */
+export const estimateExperienceYears = (text: string, now = new Date()) => {
+  const section = experienceLines(text.split("\n")).join("\n");
+  const currentMonth = now.getFullYear() * 12 + now.getMonth();
+  const spans: [number, number][] = [];
+
+  for (const match of section.matchAll(DATE_RANGE)) {
+    const [, startName, startNumber, startYear, endName, endNumber, endYear, ongoing] = match;
+    const start = Number(startYear) * 12 + monthOf(startName, startNumber, 0);
+    const end = ongoing ? currentMonth + 1 : Number(endYear) * 12 + monthOf(endName, endNumber, 11) + 1;
+    if (end > start && end <= currentMonth + 1) spans.push([start, end]);
+  }
+
+  if (spans.length === 0) return null;
+
+  spans.sort((a, b) => a[0] - b[0]);
+  let months = 0;
+  let [runStart, runEnd] = spans[0];
+  spans.slice(1).forEach(([start, end]) => {
+    if (start <= runEnd) {
+      runEnd = Math.max(runEnd, end);
+    } else {
+      months += runEnd - runStart;
+      [runStart, runEnd] = [start, end];
+    }
+  });
+  months += runEnd - runStart;
+
+  return Math.floor(months / 12);
+};
+
+const PHONE_PATTERN = /(?<![\d+(])\+?\(?\d[\d ().-]{8,}\d(?!\d)/g;
+
+export const findPhone = (text: string) => {
+  for (const [candidate] of text.matchAll(PHONE_PATTERN)) {
+    // Enough digits to rule out years and date ranges
+    const digits = candidate.replace(/\D/g, "").length;
+    if (digits >= 10 && digits <= 15) return candidate.trim();
+  }
+  return null;
+};
+
+// "Austin, TX" or "Berlin, Germany"
+const LOCATION_PATTERN = /^[A-Z][A-Za-z.'-]+(?: [A-Z][A-Za-z.'-]+)*, (?:[A-Z]{2}|[A-Z][a-z]+(?: [A-Z][a-z]+)*)$/;
+const CONTACT_LINES = 15;
+
+/** Looks for a "City, Region" entry among the contact details at the top. */
+export const findLocation = (text: string) => {
+  for (const line of text.split("\n").slice(0, CONTACT_LINES)) {
+    const entry = line
+      .split(/[|•·]|\s{2,}|\t/)
+      .map((part) => part.trim())
+      .find((part) => LOCATION_PATTERN.test(part));
+    if (entry) return entry;
+  }
+  return null;
+};
+
+export const parseResume = (text: string, vocabulary: SkillVocabulary): ParsedResume => ({
+  skills: detectSkills(text, vocabulary),
+  experienceYears: estimateExperienceYears(text),
+  phone: findPhone(text),
+  location: findLocation(text),
+});
+
+const extractPdfText = async (data: ArrayBuffer) => {
+  const [pdfjs, { default: workerSrc }] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    pages.push(
+      content.items
+        .map((item) => ("str" in item ? item.str + (item.hasEOL ? "\n" : " ") : ""))
+        .join("")
+    );
+  }
+  return pages.join("\n");
+};
+
+/** Reads the text of a resume in the browser; nothing is sent to a server. */
+export const extractResumeText = async (file: Blob, format: ResumeFormat) => {
+  const buffer = await file.arrayBuffer();
+
+  if (format === "pdf") return extractPdfText(buffer);
+  if (format === "docx") {
+    const mammoth = await import("mammoth");
+    const { value } = await mammoth.extractRawText({ arrayBuffer: buffer });
+    return value;
+  }
+  throw new Error("Only PDF and DOCX resumes can be read");
+};
@@ -0,0 +1,34 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type Resume = Database["public"]["Tables"]["resumes"]["Row"];
+
+/** Private storage bucket holding resumes under `<user id>/` folders. */
+export const RESUME_BUCKET = "resumes";
+
+/** Signed links are created on demand, so they only need to outlive a page visit */
+export const RESUME_URL_TTL_SECONDS = 10 * 60;
+
+export type ResumeFormat = "pdf" | "docx" | "other";
+
+export const getResumeFormat = (path: string): ResumeFormat => {
+  const extension = path.split(".").pop()?.toLowerCase();
+  if (extension === "pdf") return "pdf";
+  if (extension === "docx") return "docx";
+  return "other";
+};
+
+export const getResumeFileName = (path: string) => path.split("/").pop() ?? path;
+
+export const MAX_RESUME_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Each upload gets a fresh path so an existing version, and any application
+ * it was sent with, is never overwritten.
+ */
+export const buildResumePath = (userId: string, file: File) => {
+  const extension = file.name.includes(".") ? `.${file.name.split(".").pop()!.toLowerCase()}` : "";
+  return `${userId}/${crypto.randomUUID()}${extension}`;
+};
+
+/** Suggests a version name from the uploaded file, e.g. "Jane Doe - Frontend.pdf" -> "Jane Doe - Frontend". */
+export const suggestResumeName = (file: File) => file.name.replace(/\.[^.]+$/, "").trim() || "Resume";
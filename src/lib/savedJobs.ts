@@ -0,0 +1,51 @@
+import type { Database } from "@/integrations/supabase/types";
+
+type JobStatus = Database["public"]["Enums"]["job_status"];
+
+export type SavedJob = Database["public"]["Tables"]["saved_jobs"]["Row"];
+
+export interface SavedJobWithJob extends SavedJob {
+  jobs: {
+    id: string;
+    title: string;
+    company_name: string;
+    location: string;
+    job_type: string;
+    status: JobStatus;
+  } | null;
+}
+
+/** Explains why a saved job can't be applied to right now, or null if it can. */
+export const getSavedJobWarning = (status: JobStatus) => {
+  if (status === "paused") return "This job is paused. The recruiter may start accepting applications again.";
+  if (status === "closed") return "This job is closed and no longer accepts applications.";
+  return null;
+};
+
+export type ReminderState = "overdue" | "today" | "soon" | "later";
+
+// Reminders within this many days are highlighted
+const SOON_DAYS = 3;
+
+const toLocalDate = (date: string) => new Date(`${date}T00:00:00`);
+
+/** Where an "apply by" date stands relative to today, counted in whole days. */
+export const getReminderState = (remindOn: string, today = new Date()): ReminderState => {
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const days = Math.round((toLocalDate(remindOn).getTime() - startOfToday.getTime()) / 86_400_000);
+  if (days < 0) return "overdue";
+  if (days === 0) return "today";
+  return days <= SOON_DAYS ? "soon" : "later";
+};
+
+export const formatReminderDate = (remindOn: string) =>
+  toLocalDate(remindOn).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+/** Jobs that can still be applied to come first, soonest "apply by" date first, then newest saved. */
+export const sortSavedJobs = (savedJobs: SavedJobWithJob[]) =>
+  [...savedJobs].sort(
+    (a, b) =>
+      Number(a.jobs?.status !== "open") - Number(b.jobs?.status !== "open") ||
+      (a.remind_on ?? "9999").localeCompare(b.remind_on ?? "9999") ||
+      (b.saved_at ?? "").localeCompare(a.saved_at ?? "")
+  );
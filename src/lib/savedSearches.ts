@@ -0,0 +1,87 @@
+import type { Database, Json } from "@/integrations/supabase/types";
+import { JOB_TYPE_OPTIONS, POSTED_WITHIN_OPTIONS, type JobFilters } from "@/lib/jobFilters";
+
+export type DigestFrequency = Database["public"]["Enums"]["digest_frequency"];
+export type SavedSearch = Database["public"]["Tables"]["saved_searches"]["Row"];
+
+export const DIGEST_FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  never: "In-app only",
+  daily: "Daily email",
+  weekly: "Weekly email",
+};
+
+/** Shape stored in saved_searches.filters and read by job_matches_search(). */
+type StoredFilters = {
+  query?: string;
+  location?: string;
+  job_types?: string[];
+  salary_min?: number;
+  salary_max?: number;
+  experience_min?: number;
+  experience_max?: number;
+  posted_within_days?: number;
+};
+
+export const toStoredFilters = (filters: JobFilters): Json => {
+  const stored: StoredFilters = {};
+  if (filters.query.trim()) stored.query = filters.query.trim();
+  if (filters.location.trim()) stored.location = filters.location.trim();
+  if (filters.jobTypes.length > 0) stored.job_types = filters.jobTypes;
+  if (filters.salaryMin !== null) stored.salary_min = filters.salaryMin;
+  if (filters.salaryMax !== null) stored.salary_max = filters.salaryMax;
+  if (filters.experienceMin !== null) stored.experience_min = filters.experienceMin;
+  if (filters.experienceMax !== null) stored.experience_max = filters.experienceMax;
+  if (filters.postedWithin !== null) stored.posted_within_days = filters.postedWithin;
+  return stored;
+};
+
+export const fromStoredFilters = (json: Json): JobFilters => {
+  const stored = (json && typeof json === "object" && !Array.isArray(json) ? json : {}) as StoredFilters;
+  return {
+    query: stored.query ?? "",
+    location: stored.location ?? "",
+    jobTypes: stored.job_types ?? [],
+    salaryMin: stored.salary_min ?? null,
+    salaryMax: stored.salary_max ?? null,
+    experienceMin: stored.experience_min ?? null,
+    experienceMax: stored.experience_max ?? null,
+    postedWithin: stored.posted_within_days ?? null,
+  };
+};
+
+const formatThousands = (value: number) => `$${(value / 1000).toFixed(0)}k`;
+
+/** One-line summary of a search, e.g. `"react" · Berlin · Full-time · $60k+`. */
+export const describeFilters = (filters: JobFilters) => {
+  const parts: string[] = [];
+  if (filters.query.trim()) parts.push(`"${filters.query.trim()}"`);
+  if (filters.location.trim()) parts.push(filters.location.trim());
+  if (filters.jobTypes.length > 0) {
+    parts.push(
+      filters.jobTypes
+        .map((type) => JOB_TYPE_OPTIONS.find((option) => option.value === type)?.label ?? type)
+        .join(", ")
+    );
+  }
+  if (filters.salaryMin !== null && filters.salaryMax !== null) {
+    parts.push(`${formatThousands(filters.salaryMin)}–${formatThousands(filters.salaryMax)}`);
+  } else if (filters.salaryMin !== null) {
+    parts.push(`${formatThousands(filters.salaryMin)}+`);
+  } else if (filters.salaryMax !== null) {
+    parts.push(`Up to ${formatThousands(filters.salaryMax)}`);
+  }
+  if (filters.experienceMin !== null || filters.experienceMax !== null) {
+    parts.push(
+      filters.experienceMax === null
+        ? `${filters.experienceMin}+ years`
+        : `${filters.experienceMin ?? 0}–${filters.experienceMax} years`
+    );
+  }
+  if (filters.postedWithin !== null) {
+    parts.push(
+      POSTED_WITHIN_OPTIONS.find((option) => option.days === filters.postedWithin)?.label ??
+        `Past ${filters.postedWithin} days`
+    );
+  }
+  return parts.length > 0 ? parts.join(" · ") : "All jobs";
+};
@@ -0,0 +1,95 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type ScreeningQuestionType = Database["public"]["Enums"]["screening_question_type"];
+export type KnockoutAction = Database["public"]["Enums"]["knockout_action"];
+export type ScreeningQuestion = Database["public"]["Tables"]["screening_questions"]["Row"];
+/** A question as applicants see it, without the knockout criteria. */
+export type ApplicantQuestion = Database["public"]["Functions"]["get_screening_questions"]["Returns"][number];
+
+/** A question being edited in PostJob; `id` is set once it has been saved. */
+export interface QuestionDraft {
+  id?: string;
+  prompt: string;
+  question_type: ScreeningQuestionType;
+  options: string[];
+  is_required: boolean;
+  is_knockout: boolean;
+  accepted_answers: string[];
+  knockout_min: number | null;
+  knockout_action: KnockoutAction;
+}
+
+export const QUESTION_TYPE_LABELS: Record<ScreeningQuestionType, string> = {
+  text: "Free text",
+  yes_no: "Yes / No",
+  multiple_choice: "Multiple choice",
+  numeric: "Number",
+};
+
+export const emptyQuestion = (): QuestionDraft => ({
+  prompt: "",
+  question_type: "text",
+  options: [],
+  is_required: true,
+  is_knockout: false,
+  accepted_answers: [],
+  knockout_min: null,
+  knockout_action: "flag",
+});
+
+type KnockoutRule = Pick<
+  ScreeningQuestion,
+  "question_type" | "is_knockout" | "accepted_answers" | "knockout_min"
+>;
+
+/** Mirrors screening_answer_fails() in the database. */
+export const failsKnockout = (question: KnockoutRule, answer: string | null | undefined) => {
+  if (!question.is_knockout) return false;
+  const trimmed = (answer ?? "").trim();
+  if (!trimmed) return true;
+
+  switch (question.question_type) {
+    case "yes_no":
+    case "multiple_choice": {
+      const accepted = (question.accepted_answers || []).map((a) => a.toLowerCase());
+      return accepted.length > 0 && !accepted.includes(trimmed.toLowerCase());
+    }
+    case "numeric":
+      if (!/^-?\d+(\.\d+)?$/.test(trimmed)) return true;
+      return question.knockout_min !== null && Number(trimmed) < question.knockout_min;
+    default:
+      return false;
+  }
+};
+
+const cleanOptions = (options: string[]) =>
+  options.map((option) => option.trim()).filter((option) => option.length > 0);
+
+/** Returns an error message, or null if the questions can be saved. */
+export const validateQuestions = (questions: QuestionDraft[]) => {
+  for (const question of questions) {
+    if (!question.prompt.trim()) return "Every question needs a prompt";
+    if (question.question_type === "multiple_choice" && cleanOptions(question.options).length < 2) {
+      return `"${question.prompt}" needs at least two choices`;
+    }
+    if (question.is_knockout && question.question_type === "text") {
+      return "Free-text questions can't be knockouts";
+    }
+  }
+  return null;
+};
+
+export const toQuestionRow = (question: QuestionDraft, jobId: string, position: number) => ({
+  job_id: jobId,
+  prompt: question.prompt.trim(),
+  question_type: question.question_type,
+  options: question.question_type === "multiple_choice" ? cleanOptions(question.options) : null,
+  is_required: question.is_required,
+  is_knockout: question.is_knockout,
+  accepted_answers:
+    question.is_knockout && question.question_type !== "numeric" ? question.accepted_answers : null,
+  knockout_min:
+    question.is_knockout && question.question_type === "numeric" ? question.knockout_min : null,
+  knockout_action: question.knockout_action,
+  position,
+});
@@ -0,0 +1,71 @@
+import { normalizeSkill } from "@/lib/skillMatch";
+import { findLearningResources, type LearningResource } from "@/lib/learningResources";
+
+export interface SkillDemand {
+  skill: string;
+  /** Number of open jobs that list the skill */
+  jobCount: number;
+}
+
+export interface SkillToLearn extends SkillDemand {
+  /** Share of the target-role jobs that list the skill, 0-100 */
+  coverage: number;
+  resources: LearningResource[];
+}
+
+interface JobSkills {
+  title?: string;
+  required_skills: string[];
+}
+
+/**
+ * Counts how many jobs ask for each skill, merging aliases. The first
+ * spelling seen is kept for display.
+ */
+export const countSkillDemand = (jobs: JobSkills[]) => {
+  const demand = new Map<string, SkillDemand>();
+  jobs.forEach((job) => {
+    new Set(job.required_skills.map(normalizeSkill)).forEach((key) => {
+      const existing = demand.get(key);
+      if (existing) {
+        existing.jobCount += 1;
+      } else {
+        const skill = job.required_skills.find((s) => normalizeSkill(s) === key)!;
+        demand.set(key, { skill, jobCount: 1 });
+      }
+    });
+  });
+  return demand;
+};
+
+export const demandFor = (demand: Map<string, SkillDemand>, skill: string) =>
+  demand.get(normalizeSkill(skill))?.jobCount ?? 0;
+
+export const jobMatchesRole = (title: string, role: string) =>
+  title.toLowerCase().includes(role.trim().toLowerCase());
+
+/**
+ * Builds a learning list for the given target roles: skills the seeker lacks,
+ * ordered by how many of the matching open jobs ask for them.
+ */
+export const buildLearningRoadmap = (
+  profileSkills: string[],
+  targetRoles: string[],
+  openJobs: JobSkills[]
+): SkillToLearn[] => {
+  const roleJobs = openJobs.filter(
+    (job) => job.title && targetRoles.some((role) => jobMatchesRole(job.title!, role))
+  );
+  if (roleJobs.length === 0) return [];
+
+  const known = new Set(profileSkills.map(normalizeSkill));
+
+  return Array.from(countSkillDemand(roleJobs).entries())
+    .filter(([key]) => !known.has(key))
+    .map(([, demand]) => ({
+      ...demand,
+      coverage: Math.round((demand.jobCount / roleJobs.length) * 100),
+      resources: findLearningResources(demand.skill),
+    }))
+    .sort((a, b) => b.jobCount - a.jobCount || a.skill.localeCompare(b.skill));
+};
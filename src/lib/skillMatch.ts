@@ -0,0 +1,114 @@
+// Canonical skill name -> alternative spellings seen in profiles and job posts.
+const SKILL_ALIASES: Record<string, string[]> = {
+  javascript: ["js", "ecmascript", "es6", "vanilla js"],
+  typescript: ["ts"],
+  react: ["reactjs", "react.js"],
+  "react native": ["reactnative", "rn"],
+  "node.js": ["node", "nodejs"],
+  "next.js": ["next", "nextjs"],
+  "vue.js": ["vue", "vuejs"],
+  angular: ["angularjs", "angular.js"],
+  "express.js": ["express", "expressjs"],
+  python: ["py", "python3"],
+  golang: ["go"],
+  "c++": ["cpp"],
+  "c#": ["csharp", "c sharp"],
+  ".net": ["dotnet", ".net core", "asp.net"],
+  postgresql: ["postgres", "psql"],
+  mongodb: ["mongo"],
+  kubernetes: ["k8s"],
+  "amazon web services": ["aws"],
+  "google cloud": ["gcp", "google cloud platform"],
+  azure: ["microsoft azure"],
+  "machine learning": ["ml"],
+  "artificial intelligence": ["ai"],
+  "ci/cd": ["cicd", "ci cd", "continuous integration"],
+  html: ["html5"],
+  css: ["css3"],
+  "tailwind css": ["tailwind", "tailwindcss"],
+  graphql: ["gql"],
+  "ui/ux": ["ux", "ui", "ux design", "ui design"],
+};
+
+const ALIAS_LOOKUP = new Map<string, string>();
+for (const [canonical, aliases] of Object.entries(SKILL_ALIASES)) {
+  ALIAS_LOOKUP.set(canonical, canonical);
+  aliases.forEach((alias) => ALIAS_LOOKUP.set(alias, canonical));
+}
+
+/** Every spelling the alias table knows, paired with its canonical skill name. */
+export const knownSkillSpellings = () => Array.from(ALIAS_LOOKUP.entries());
+
+// Weight of skill coverage vs. experience in the final score.
+const SKILLS_WEIGHT = 0.8;
+const EXPERIENCE_WEIGHT = 0.2;
+
+export interface SkillProfile {
+  skills: string[] | null;
+  experience_years: number | null;
+}
+
+export interface MatchableJob {
+  required_skills: string[];
+  experience_required: number | null;
+}
+
+export interface JobMatch {
+  /** 0-100 */
+  score: number;
+  matchedSkills: string[];
+  missingSkills: string[];
+  meetsExperience: boolean;
+}
+
+/**
+ * Returns the canonical form of a skill so that "JS", "javascript " and
+ * "JavaScript" compare equal.
+ */
+export const normalizeSkill = (skill: string) => {
+  const cleaned = skill.trim().toLowerCase().replace(/\s+/g, " ");
+  return ALIAS_LOOKUP.get(cleaned) ?? ALIAS_LOOKUP.get(cleaned.replace(/[\s.-]/g, "")) ?? cleaned;
+};
+
+/**
+ * The known spellings that normalize to the same skill, e.g. "js", "javascript"
+ * and "es6", or just the normalized skill when the alias table doesn't know it.
+ * count_matched_skill_groups() in the database reads profile skills the way
+ * normalizeSkill() does before looking them up in these.
+ */
+export const skillSpellings = (skill: string) => {
+  const canonical = normalizeSkill(skill);
+  const spellings = Array.from(ALIAS_LOOKUP.keys()).filter(
+    (spelling) => normalizeSkill(spelling) === canonical
+  );
+  return spellings.length > 0 ? spellings : [canonical];
+};
+
+export const matchJob = (profile: SkillProfile, job: MatchableJob): JobMatch => {
+  const profileSkills = new Set((profile.skills || []).map(normalizeSkill));
+  const matchedSkills: string[] = [];
+  const missingSkills: string[] = [];
+
+  job.required_skills.forEach((skill) => {
+    if (profileSkills.has(normalizeSkill(skill))) {
+      matchedSkills.push(skill);
+    } else {
+      missingSkills.push(skill);
+    }
+  });
+
+  const skillsRatio = job.required_skills.length
+    ? matchedSkills.length / job.required_skills.length
+    : 1;
+
+  const required = job.experience_required || 0;
+  const years = profile.experience_years || 0;
+  const experienceRatio = required > 0 ? Math.min(years / required, 1) : 1;
+
+  return {
+    score: Math.round((skillsRatio * SKILLS_WEIGHT + experienceRatio * EXPERIENCE_WEIGHT) * 100),
+    matchedSkills,
+    missingSkills,
+    meetsExperience: years >= required,
+  };
+};
@@ -0,0 +1,48 @@
+import type { Database, Json } from "@/integrations/supabase/types";
+import { knownSkillSpellings, skillSpellings } from "@/lib/skillMatch";
+
+export type Candidate = Database["public"]["Functions"]["search_candidates"]["Returns"][number];
+
+export const CANDIDATES_PAGE_SIZE = 25;
+
+export interface CandidateFilters {
+  skills: string[];
+  experienceMin: number | null;
+  experienceMax: number | null;
+  location: string;
+  keywords: string;
+  /** Job whose required skills rank the results, or null */
+  jobId: string | null;
+}
+
+export const DEFAULT_CANDIDATE_FILTERS: CandidateFilters = {
+  skills: [],
+  experienceMin: null,
+  experienceMax: null,
+  location: "",
+  keywords: "",
+  jobId: null,
+};
+
+/** Turns skills into the spelling groups search_candidates expects, so aliases match too. */
+export const toSkillGroups = (skills: string[]): Json =>
+  skills.filter((skill) => skill.trim()).map(skillSpellings);
+
+export const toSearchParams = (filters: CandidateFilters, rankingSkills: string[], page: number) => ({
+  p_required_skills: toSkillGroups(filters.skills),
+  p_ranking_skills: toSkillGroups(rankingSkills),
+  p_known_skills: knownSkillSpellings().map(([spelling]) => spelling),
+  p_experience_min: filters.experienceMin ?? undefined,
+  p_experience_max: filters.experienceMax ?? undefined,
+  p_location: filters.location.trim() || undefined,
+  p_query: filters.keywords.trim() || undefined,
+  p_limit: CANDIDATES_PAGE_SIZE,
+  p_offset: page * CANDIDATES_PAGE_SIZE,
+});
+
+/** Splits "React, node.js; SQL" into individual skills. */
+export const parseSkillList = (input: string) =>
+  input
+    .split(/[,;\n]/)
+    .map((skill) => skill.trim())
+    .filter(Boolean);
@@ -1,33 +1,88 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
+import type { DateRange } from "react-day-picker";
 import { Navigation } from "@/components/Navigation";
+import {
+  ApplicationsOverTimeChart,
+  HiringFunnelChart,
+  SourceBreakdownChart,
+  StageDurationChart,
+} from "@/components/AnalyticsCharts";
+import { DateRangePicker } from "@/components/DateRangePicker";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { supabase } from "@/integrations/supabase/client";
+import {
+  formatDays,
+  intervalFor,
+  percentOf,
+  presetRange,
+  rangeToParams,
+  type AnalyticsSummary,
+  type ApplicationsPeriod,
+  type FunnelStage,
+  type JobBreakdown,
+  type StageDuration,
+} from "@/lib/analytics";
+import { describeSource, type SourceBreakdown } from "@/lib/attribution";
+import { cn } from "@/lib/utils";
 import { toast } from "sonner";
-import { Briefcase, Users, TrendingUp, CheckCircle, Clock, XCircle } from "lucide-react";
+import { Briefcase, Eye, Users, TrendingUp, Clock, Timer } from "lucide-react";
+
+const EMPTY_SUMMARY: AnalyticsSummary = {
+  views: 0,
+  applications: 0,
+  in_progress: 0,
+  hired: 0,
+  rejected: 0,
+  withdrawn: 0,
+  median_days_to_hire: null,
+};
+
+const formatRate = (part: number, whole: number) => {
+  const percent = percentOf(part, whole);
+  return percent === null ? "—" : `${percent}%`;
+};
 
 const Analytics = () => {
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
-  const [stats, setStats] = useState({
-    totalJobs: 0,
-    activeJobs: 0,
-    totalApplications: 0,
-    appliedCount: 0,
-    reviewingCount: 0,
-    interviewCount: 0,
-    acceptedCount: 0,
-    rejectedCount: 0,
-  });
+  const [authorized, setAuthorized] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [range, setRange] = useState<DateRange>(() => presetRange("30"));
+  const [jobId, setJobId] = useState("all");
+  const [summary, setSummary] = useState<AnalyticsSummary>(EMPTY_SUMMARY);
+  const [funnel, setFunnel] = useState<FunnelStage[]>([]);
+  const [durations, setDurations] = useState<StageDuration[]>([]);
+  const [periods, setPeriods] = useState<ApplicationsPeriod[]>([]);
+  const [jobs, setJobs] = useState<JobBreakdown[]>([]);
+  const [sources, setSources] = useState<SourceBreakdown[]>([]);
+
+  const interval = intervalFor(range);
 
   useEffect(() => {
-    checkUserAndFetchAnalytics();
+    checkUser();
   }, []);
 
-  const checkUserAndFetchAnalytics = async () => {
+  const checkUser = async () => {
     try {
       const { data: { session } } = await supabase.auth.getSession();
-      
+
       if (!session) {
         navigate("/auth");
         return;
@@ -45,62 +100,56 @@ const Analytics = () => {
         return;
       }
 
-      await fetchAnalytics(session.user.id);
+      setAuthorized(true);
     } catch (error) {
       toast.error("Failed to load analytics");
-    } finally {
       setLoading(false);
     }
   };
 
-  const fetchAnalytics = async (userId) => {
+  // Every figure is aggregated by the database for the chosen range and job
+  const fetchAnalytics = useCallback(async () => {
+    setRefreshing(true);
     try {
-      // Fetch jobs stats
-      const { data: jobs } = await supabase
-        .from("jobs")
-        .select("id, status")
-        .eq("recruiter_id", userId);
-
-      const totalJobs = jobs?.length || 0;
-      const activeJobs = jobs?.filter((job) => job.status === "open").length || 0;
-
-      // Fetch applications stats
-      const { data: applications } = await supabase
-        .from("applications")
-        .select(`
-          id,
-          status,
-          jobs!inner(recruiter_id)
-        `)
-        .eq("jobs.recruiter_id", userId);
-
-      const totalApplications = applications?.length || 0;
-      const appliedCount = applications?.filter((app) => app.status === "applied").length || 0;
-      const reviewingCount = applications?.filter((app) => app.status === "shortlisted").length || 0;
-      const interviewCount = applications?.filter((app) => app.status === "viewed").length || 0;
-      const acceptedCount = applications?.filter((app) => app.status === "hired").length || 0;
-      const rejectedCount = applications?.filter((app) => app.status === "rejected").length || 0;
-
-      setStats({
-        totalJobs,
-        activeJobs,
-        totalApplications,
-        appliedCount,
-        reviewingCount,
-        interviewCount,
-        acceptedCount,
-        rejectedCount,
-      });
+      const params = rangeToParams(range);
+      const scoped = { ...params, p_job_id: jobId === "all" ? undefined : jobId };
+
+      const [summaryResult, funnelResult, durationsResult, periodsResult, jobsResult, sourcesResult] =
+        await Promise.all([
+          supabase.rpc("analytics_summary", scoped),
+          supabase.rpc("analytics_funnel", scoped),
+          supabase.rpc("analytics_stage_durations", scoped),
+          supabase.rpc("analytics_applications_over_time", { ...scoped, p_interval: intervalFor(range) }),
+          supabase.rpc("analytics_job_breakdown", params),
+          supabase.rpc("analytics_sources", scoped),
+        ]);
+
+      const error = [summaryResult, funnelResult, durationsResult, periodsResult, jobsResult, sourcesResult].find(
+        (result) => result.error
+      )?.error;
+      if (error) throw error;
+
+      setSummary(summaryResult.data?.[0] ?? EMPTY_SUMMARY);
+      setFunnel(funnelResult.data || []);
+      setDurations(durationsResult.data || []);
+      setPeriods(periodsResult.data || []);
+      setJobs(jobsResult.data || []);
+      setSources(sourcesResult.data || []);
     } catch (error) {
       console.error(error);
       toast.error("Failed to fetch analytics");
+    } finally {
+      setRefreshing(false);
+      setLoading(false);
     }
-  };
+  }, [range, jobId]);
 
-  const calculateSuccessRate = () => {
-    if (stats.totalApplications === 0) return 0;
-    return ((stats.acceptedCount / stats.totalApplications) * 100).toFixed(1);
-  };
+  useEffect(() => {
+    if (authorized) fetchAnalytics();
+  }, [authorized, fetchAnalytics]);
+
+  const activeJobs = jobs.filter((job) => job.status === "open").length;
+  const decided = summary.hired + summary.rejected;
 
   if (loading) {
     return (
@@ -117,26 +166,44 @@ const Analytics = () => {
     <div className="min-h-screen bg-background">
       <Navigation />
       <div className="container mx-auto px-4 py-8">
-        <div className="mb-8">
-          <h1 className="text-4xl font-bold mb-2">Analytics</h1>
-          <p className="text-muted-foreground">
-            Track your hiring performance and metrics
-          </p>
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Analytics</h1>
+            <p className="text-muted-foreground">
+              Track your hiring performance and metrics
+            </p>
+          </div>
+          <div className={cn("flex flex-wrap gap-2 transition-opacity", refreshing && "opacity-60")}>
+            <Select value={jobId} onValueChange={setJobId}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All jobs</SelectItem>
+                {jobs.map((job) => (
+                  <SelectItem key={job.job_id} value={job.job_id}>
+                    {job.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <DateRangePicker value={range} onChange={setRange} />
+          </div>
         </div>
 
         {/* Overview Cards */}
-        <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        <div className="grid md:grid-cols-3 lg:grid-cols-5 gap-6 mb-8">
           <Card className="border-2">
             <CardHeader>
               <div className="flex items-center justify-between">
-                <CardTitle className="text-sm font-medium">Total Jobs</CardTitle>
-                <Briefcase className="h-4 w-4 text-muted-foreground" />
+                <CardTitle className="text-sm font-medium">Job Views</CardTitle>
+                <Eye className="h-4 w-4 text-muted-foreground" />
               </div>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{stats.totalJobs}</div>
+              <div className="text-2xl font-bold">{summary.views}</div>
               <p className="text-xs text-muted-foreground mt-1">
-                {stats.activeJobs} currently active
+                {formatRate(summary.applications, summary.views)} went on to apply
               </p>
             </CardContent>
           </Card>
@@ -144,14 +211,14 @@ const Analytics = () => {
           <Card className="border-2">
             <CardHeader>
               <div className="flex items-center justify-between">
-                <CardTitle className="text-sm font-medium">Total Applications</CardTitle>
+                <CardTitle className="text-sm font-medium">Applications</CardTitle>
                 <Users className="h-4 w-4 text-muted-foreground" />
               </div>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{stats.totalApplications}</div>
+              <div className="text-2xl font-bold">{summary.applications}</div>
               <p className="text-xs text-muted-foreground mt-1">
-                Across all job postings
+                {jobId === "all" ? `Across ${jobs.length} jobs, ${activeJobs} active` : "For this job"}
               </p>
             </CardContent>
           </Card>
@@ -159,14 +226,29 @@ const Analytics = () => {
           <Card className="border-2">
             <CardHeader>
               <div className="flex items-center justify-between">
-                <CardTitle className="text-sm font-medium">Success Rate</CardTitle>
+                <CardTitle className="text-sm font-medium">Hire Rate</CardTitle>
                 <TrendingUp className="h-4 w-4 text-muted-foreground" />
               </div>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{calculateSuccessRate()}%</div>
+              <div className="text-2xl font-bold">{formatRate(summary.hired, summary.applications)}</div>
               <p className="text-xs text-muted-foreground mt-1">
-                {stats.acceptedCount} accepted applications
+                {summary.hired} hired, {formatRate(summary.hired, decided)} of decided applications
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card className="border-2">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-sm font-medium">Time to Hire</CardTitle>
+                <Timer className="h-4 w-4 text-muted-foreground" />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatDays(summary.median_days_to_hire)}</div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Median from application to hire
               </p>
             </CardContent>
           </Card>
@@ -179,66 +261,157 @@ const Analytics = () => {
               </div>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">
-                {stats.appliedCount + stats.reviewingCount + stats.interviewCount}
-              </div>
+              <div className="text-2xl font-bold">{summary.in_progress}</div>
               <p className="text-xs text-muted-foreground mt-1">
-                Applications to review
+                {summary.rejected} rejected, {summary.withdrawn} withdrawn
               </p>
             </CardContent>
           </Card>
         </div>
 
-        {/* Application Status Breakdown */}
-        <Card className="border-2">
+        <div className="grid lg:grid-cols-2 gap-6 mb-8">
+          <Card className="border-2">
+            <CardHeader>
+              <CardTitle>Hiring Funnel</CardTitle>
+              <CardDescription>
+                How many applications reached each stage, and the share that made it from the stage before
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {summary.applications === 0 || funnel.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No applications in this period</p>
+              ) : (
+                <HiringFunnelChart funnel={funnel} />
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="border-2">
+            <CardHeader>
+              <CardTitle>Time in Stage</CardTitle>
+              <CardDescription>
+                Median time applications spent in each stage before moving on
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {durations.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No applications have moved between stages yet</p>
+              ) : (
+                <StageDurationChart durations={durations} />
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="border-2 mb-8">
           <CardHeader>
-            <CardTitle>Application Status Breakdown</CardTitle>
+            <CardTitle>Applications Over Time</CardTitle>
             <CardDescription>
-              Distribution of applications across different stages
+              New applications per {interval}, and when those applicants were hired
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="space-y-4">
-              <div className="flex items-center justify-between p-4 rounded-lg bg-secondary/50">
-                <div className="flex items-center gap-3">
-                  <Users className="h-5 w-5 text-primary" />
-                  <span className="font-medium">Applied</span>
-                </div>
-                <span className="text-2xl font-bold">{stats.appliedCount}</span>
-              </div>
-
-              <div className="flex items-center justify-between p-4 rounded-lg bg-secondary/50">
-                <div className="flex items-center gap-3">
-                  <Clock className="h-5 w-5 text-primary" />
-                  <span className="font-medium">Shortlisted</span>
-                </div>
-                <span className="text-2xl font-bold">{stats.reviewingCount}</span>
-              </div>
-
-              <div className="flex items-center justify-between p-4 rounded-lg bg-secondary/50">
-                <div className="flex items-center gap-3">
-                  <TrendingUp className="h-5 w-5 text-primary" />
-                  <span className="font-medium">Viewed</span>
-                </div>
-                <span className="text-2xl font-bold">{stats.interviewCount}</span>
-              </div>
+            <ApplicationsOverTimeChart periods={periods} interval={interval} />
+          </CardContent>
+        </Card>
 
-              <div className="flex items-center justify-between p-4 rounded-lg bg-accent/10">
-                <div className="flex items-center gap-3">
-                  <CheckCircle className="h-5 w-5 text-accent" />
-                  <span className="font-medium">Hired</span>
-                </div>
-                <span className="text-2xl font-bold text-accent">{stats.acceptedCount}</span>
+        <Card className="border-2 mb-8">
+          <CardHeader>
+            <CardTitle>Applicant Sources</CardTitle>
+            <CardDescription>
+              Where applicants found the job, from the links you shared. Applicants without a tagged link count as
+              direct.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {sources.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No applications in this period</p>
+            ) : (
+              <div className="grid lg:grid-cols-2 gap-6">
+                <SourceBreakdownChart sources={sources} />
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Source</TableHead>
+                      <TableHead>Campaign</TableHead>
+                      <TableHead className="text-right">Applicants</TableHead>
+                      <TableHead className="text-right">Hired</TableHead>
+                      <TableHead className="text-right">Hire Rate</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sources.map((row) => (
+                      <TableRow key={`${row.source}-${row.campaign}`}>
+                        <TableCell className="font-medium">{describeSource(row.source)}</TableCell>
+                        <TableCell className="text-muted-foreground">{row.campaign ?? "—"}</TableCell>
+                        <TableCell className="text-right">{row.applications}</TableCell>
+                        <TableCell className="text-right">{row.hired}</TableCell>
+                        <TableCell className="text-right">{formatRate(row.hired, row.applications)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
               </div>
+            )}
+          </CardContent>
+        </Card>
 
-              <div className="flex items-center justify-between p-4 rounded-lg bg-destructive/10">
-                <div className="flex items-center gap-3">
-                  <XCircle className="h-5 w-5 text-destructive" />
-                  <span className="font-medium">Rejected</span>
-                </div>
-                <span className="text-2xl font-bold text-destructive">{stats.rejectedCount}</span>
+        <Card className="border-2">
+          <CardHeader>
+            <CardTitle>Jobs</CardTitle>
+            <CardDescription>
+              Views and applications in this period for each of your job postings
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {jobs.length === 0 ? (
+              <div className="text-center py-8 space-y-2">
+                <Briefcase className="h-8 w-8 mx-auto text-muted-foreground" />
+                <p className="text-muted-foreground">You haven't posted any jobs yet</p>
               </div>
-            </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Job</TableHead>
+                    <TableHead className="text-right">Views</TableHead>
+                    <TableHead className="text-right">Applications</TableHead>
+                    <TableHead className="text-right">View to Apply</TableHead>
+                    <TableHead className="text-right">In Progress</TableHead>
+                    <TableHead className="text-right">Hired</TableHead>
+                    <TableHead className="text-right">Hire Rate</TableHead>
+                    <TableHead className="text-right">Time to Hire</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {jobs.map((job) => (
+                    <TableRow
+                      key={job.job_id}
+                      className={cn("cursor-pointer", job.job_id === jobId && "bg-muted")}
+                      onClick={() => setJobId(job.job_id === jobId ? "all" : job.job_id)}
+                    >
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{job.title}</span>
+                          {job.status !== "open" && (
+                            <Badge variant="outline" className="capitalize">
+                              {job.status}
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{job.views}</TableCell>
+                      <TableCell className="text-right">{job.applications}</TableCell>
+                      <TableCell className="text-right">{formatRate(job.applications, job.views)}</TableCell>
+                      <TableCell className="text-right">{job.in_progress}</TableCell>
+                      <TableCell className="text-right">{job.hired}</TableCell>
+                      <TableCell className="text-right">{formatRate(job.hired, job.applications)}</TableCell>
+                      <TableCell className="text-right">{formatDays(job.median_days_to_hire)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
           </CardContent>
         </Card>
       </div>
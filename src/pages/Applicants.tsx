@@ -1,12 +1,25 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Navigation } from "@/components/Navigation";
+import { ApplicantsKanban } from "@/components/ApplicantsKanban";
+import { ApplicantAssessment } from "@/components/ApplicantAssessment";
+import { ApplicantBackground } from "@/components/ApplicantBackground";
+import { ProfileStrengthBadge } from "@/components/ProfileStrengthBadge";
+import { ResumeViewer } from "@/components/ResumeViewer";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { openResume } from "@/hooks/use-resume-url";
 import { supabase } from "@/integrations/supabase/client";
+import { collectTags } from "@/lib/applicationReview";
+import { describeApplicationStatus } from "@/lib/applicationStatus";
+import { mergeStages, sortStages, stageKey } from "@/lib/hiringStages";
+import { failsKnockout } from "@/lib/screening";
 import { toast } from "sonner";
-import { Mail, Phone, FileText, Calendar, Briefcase } from "lucide-react";
+import { Mail, Phone, FileText, Calendar, Briefcase, List, Columns3, Flag, ListChecks } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -19,12 +32,28 @@ const Applicants = () => {
   const navigate = useNavigate();
   const [applications, setApplications] = useState([]);
   const [loading, setLoading] = useState(true);
-  const [filterStatus, setFilterStatus] = useState("all");
+  const [filterStage, setFilterStage] = useState("all");
+  const [filterJob, setFilterJob] = useState("all");
+  const [filterTag, setFilterTag] = useState("all");
+  const [userId, setUserId] = useState<string | null>(null);
+  const [view, setView] = useState<"list" | "board">("list");
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const isMobile = useIsMobile();
+  // Set when arriving from a link to one applicant, e.g. the activity feed
+  const [searchParams] = useSearchParams();
+  const highlightedId = searchParams.get("application");
 
   useEffect(() => {
     checkUserAndFetchApplications();
   }, []);
 
+  useEffect(() => {
+    if (loading || !highlightedId) return;
+    document
+      .getElementById(`application-${highlightedId}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [loading, highlightedId]);
+
   const checkUserAndFetchApplications = async () => {
     try {
       const { data: { session } } = await supabase.auth.getSession();
@@ -46,6 +75,7 @@ const Applicants = () => {
         return;
       }
 
+      setUserId(session.user.id);
       await fetchApplications(session.user.id);
     } catch (error) {
       toast.error("Failed to load applications");
@@ -63,12 +93,31 @@ const Applicants = () => {
           id,
           title,
           company_name,
-          recruiter_id
+          recruiter_id,
+          job_stages!job_stages_job_id_fkey(id, name, position, outcome)
         ),
+        stage:job_stages!applications_stage_id_fkey(id, name, position, outcome),
+        application_answers(
+          id,
+          answer,
+          screening_questions(prompt, position, question_type, is_knockout, accepted_answers, knockout_min)
+        ),
+        application_reviews(*),
+        application_notes(*),
         profiles!applications_applicant_id_fkey(
           full_name,
           email,
-          phone
+          phone,
+          location,
+          bio,
+          skills,
+          experience_years,
+          resume_url,
+          profile_image_url,
+          work_experiences(id, company, title, start_date, end_date, description, created_at),
+          educations(id, institution, degree, field_of_study, start_date, end_date, created_at),
+          certifications(id, name, issuer, issued_on, expires_on, credential_url, created_at),
+          portfolio_links(id, label, url, created_at)
         )
       `)
       .eq("jobs.recruiter_id", userId)
@@ -82,42 +131,74 @@ const Applicants = () => {
     }
   };
 
-  const updateApplicationStatus = async (applicationId, newStatus) => {
+  const updateApplicationStage = async (applicationId, stageId) => {
+    const previousApplications = applications;
+    // Move the card right away; roll back if the update is rejected
+    setApplications(
+      applications.map((app) =>
+        app.id === applicationId
+          ? { ...app, stage_id: stageId, stage: app.jobs.job_stages.find((s) => s.id === stageId) }
+          : app
+      )
+    );
+
     try {
       const { error } = await supabase
         .from("applications")
-        .update({ status: newStatus })
+        .update({ stage_id: stageId })
         .eq("id", applicationId);
 
       if (error) throw error;
 
-      toast.success("Application status updated");
-      
-      const { data: { session } } = await supabase.auth.getSession();
-      if (session) {
-        await fetchApplications(session.user.id);
-      }
+      toast.success("Application stage updated");
     } catch (error) {
-      toast.error("Failed to update status");
+      setApplications(previousApplications);
+      toast.error("Failed to update stage");
     }
   };
 
-  const filteredApplications = applications.filter((app) => {
-    if (filterStatus === "all") return true;
-    return app.status === filterStatus;
-  });
+  const updateApplication = (applicationId, updates) => {
+    setApplications((current) =>
+      current.map((app) => (app.id === applicationId ? { ...app, ...updates } : app))
+    );
+  };
 
-  const getStatusColor = (status) => {
-    const colors = {
-      applied: "default",
-      shortlisted: "secondary",
-      viewed: "default",
-      hired: "default",
-      rejected: "destructive",
-    };
-    return colors[status] || "default";
+  // Board columns are matched by stage name, so a job without that stage can't take the card
+  const moveToColumn = (applicationId, columnKey) => {
+    const application = applications.find((app) => app.id === applicationId);
+    const stage = application?.jobs.job_stages.find((s) => stageKey(s.name) === columnKey);
+    if (!stage) {
+      toast.error(`"${application?.jobs.title}" has no such stage`);
+      return;
+    }
+    updateApplicationStage(applicationId, stage.id);
   };
 
+  const jobs = Array.from(
+    new Map(applications.map((app) => [app.jobs.id, app.jobs])).values()
+  );
+
+  const tags = collectTags(applications.map((app) => app.application_reviews));
+  // Falls back to all applicants once the last use of the chosen tag is removed
+  const activeTag = tags.includes(filterTag) ? filterTag : "all";
+
+  const jobApplications = applications.filter((app) => {
+    if (filterJob !== "all" && app.job_id !== filterJob) return false;
+    if (activeTag !== "all" && !app.application_reviews?.tags.includes(activeTag)) return false;
+    return true;
+  });
+
+  const stageColumns = mergeStages(
+    jobs
+      .filter((job) => filterJob === "all" || job.id === filterJob)
+      .flatMap((job) => job.job_stages)
+  ).map((stage) => ({ key: stageKey(stage.name), label: stage.name, outcome: stage.outcome }));
+
+  const filteredApplications = jobApplications.filter((app) => {
+    if (filterStage === "all") return true;
+    return app.stage && stageKey(app.stage.name) === filterStage;
+  });
+
   const formatDate = (dateString) => {
     const date = new Date(dateString);
     return date.toLocaleDateString("en-US", { 
@@ -127,6 +208,162 @@ const Applicants = () => {
     });
   };
 
+  const previewApplication = applications.find((app) => app.id === previewId && app.resume_url);
+
+  const viewResume = (application) => {
+    // The preview pane needs the width, so small screens get the file in a new tab
+    if (isMobile) {
+      openResume(application.resume_url).catch(() => toast.error("Failed to open resume"));
+      return;
+    }
+    setPreviewId(application.id);
+  };
+
+  const applicationCards = (
+    <div className="space-y-4">
+      {filteredApplications.map((application) => (
+        <Card
+          key={application.id}
+          id={`application-${application.id}`}
+          className={`border-2 ${
+            application.id === highlightedId || application.id === previewId ? "border-primary" : ""
+          }`}
+        >
+          <CardHeader>
+            <div className="flex justify-between items-start">
+              <div className="space-y-2">
+                <CardTitle className="text-xl">
+                  {application.profiles?.full_name || "Unknown Applicant"}
+                </CardTitle>
+                <CardDescription className="flex items-center gap-2">
+                  <Briefcase className="h-4 w-4" />
+                  {application.jobs?.title} at {application.jobs?.company_name}
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                {application.profiles && <ProfileStrengthBadge profile={application.profiles} />}
+                {application.is_flagged && (
+                  <Badge variant="outline" className="border-destructive text-destructive">
+                    <Flag className="mr-1 h-3 w-3" />
+                    Flagged
+                  </Badge>
+                )}
+                <Badge variant={describeApplicationStatus(application).variant}>
+                  {describeApplicationStatus(application).label}
+                </Badge>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                {application.profiles?.email && (
+                  <div className="flex items-center gap-1">
+                    <Mail className="h-4 w-4" />
+                    {application.profiles.email}
+                  </div>
+                )}
+                {application.profiles?.phone && (
+                  <div className="flex items-center gap-1">
+                    <Phone className="h-4 w-4" />
+                    {application.profiles.phone}
+                  </div>
+                )}
+                <div className="flex items-center gap-1">
+                  <Calendar className="h-4 w-4" />
+                  Applied {formatDate(application.applied_at)}
+                </div>
+              </div>
+
+              {application.profiles && <ApplicantBackground profile={application.profiles} />}
+
+              {application.cover_letter && (
+                <div>
+                  <h4 className="font-semibold mb-2 flex items-center gap-2">
+                    <FileText className="h-4 w-4" />
+                    Cover Letter
+                  </h4>
+                  <p className="text-sm text-muted-foreground line-clamp-3">
+                    {application.cover_letter}
+                  </p>
+                </div>
+              )}
+
+              {application.application_answers?.length > 0 && (
+                <div>
+                  <h4 className="font-semibold mb-2 flex items-center gap-2">
+                    <ListChecks className="h-4 w-4" />
+                    Screening Answers
+                  </h4>
+                  <dl className="space-y-2 text-sm">
+                    {[...application.application_answers]
+                      .sort(
+                        (a, b) =>
+                          (a.screening_questions?.position ?? 0) -
+                          (b.screening_questions?.position ?? 0)
+                      )
+                      .map((item) => {
+                        const failed =
+                          item.screening_questions &&
+                          failsKnockout(item.screening_questions, item.answer);
+                        return (
+                          <div key={item.id}>
+                            <dt className="text-muted-foreground">
+                              {item.screening_questions?.prompt}
+                            </dt>
+                            <dd className={failed ? "text-destructive font-medium" : undefined}>
+                              {item.answer}
+                              {failed && " (fails knockout)"}
+                            </dd>
+                          </div>
+                        );
+                      })}
+                  </dl>
+                </div>
+              )}
+
+              <ApplicantAssessment
+                applicationId={application.id}
+                userId={userId}
+                review={application.application_reviews}
+                notes={application.application_notes ?? []}
+                onReviewChange={(review) => updateApplication(application.id, { application_reviews: review })}
+                onNotesChange={(notes) => updateApplication(application.id, { application_notes: notes })}
+              />
+
+              <div className="flex gap-2 flex-wrap">
+                <Select
+                  value={application.stage_id ?? undefined}
+                  onValueChange={(value) => updateApplicationStage(application.id, value)}
+                  disabled={application.status === "withdrawn"}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="Move to stage" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sortStages(application.jobs.job_stages).map((stage) => (
+                      <SelectItem key={stage.id} value={stage.id}>
+                        {stage.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {application.resume_url && (
+                  <Button
+                    variant="outline"
+                    onClick={() => viewResume(application)}
+                  >
+                    View Resume
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background">
@@ -142,31 +379,88 @@ const Applicants = () => {
     <div className="min-h-screen bg-background">
       <Navigation />
       <div className="container mx-auto px-4 py-8">
-        <div className="flex justify-between items-center mb-8">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
           <div>
             <h1 className="text-4xl font-bold mb-2">Applicants</h1>
             <p className="text-muted-foreground">
               Manage applications for your job postings
             </p>
           </div>
-          <div className="w-48">
-            <Select value={filterStatus} onValueChange={setFilterStatus}>
-              <SelectTrigger>
-                <SelectValue placeholder="Filter by status" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Statuses</SelectItem>
-                <SelectItem value="applied">Applied</SelectItem>
-                <SelectItem value="shortlisted">Shortlisted</SelectItem>
-                <SelectItem value="viewed">Viewed</SelectItem>
-                <SelectItem value="hired">Hired</SelectItem>
-                <SelectItem value="rejected">Rejected</SelectItem>
-              </SelectContent>
-            </Select>
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="w-56">
+              <Select value={filterJob} onValueChange={setFilterJob}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Filter by job" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Jobs</SelectItem>
+                  {jobs.map((job) => (
+                    <SelectItem key={job.id} value={job.id}>
+                      {job.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {tags.length > 0 && (
+              <div className="w-48">
+                <Select value={activeTag} onValueChange={setFilterTag}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Filter by tag" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Tags</SelectItem>
+                    {tags.map((tag) => (
+                      <SelectItem key={tag} value={tag}>
+                        {tag}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {view === "list" && (
+              <div className="w-48">
+                <Select value={filterStage} onValueChange={setFilterStage}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Filter by stage" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Stages</SelectItem>
+                    {stageColumns.map((column) => (
+                      <SelectItem key={column.key} value={column.key}>
+                        {column.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <Tabs value={view} onValueChange={(value) => setView(value as "list" | "board")}>
+              <TabsList>
+                <TabsTrigger value="list">
+                  <List className="mr-2 h-4 w-4" />
+                  List
+                </TabsTrigger>
+                <TabsTrigger value="board">
+                  <Columns3 className="mr-2 h-4 w-4" />
+                  Board
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
           </div>
         </div>
 
-        {filteredApplications.length === 0 ? (
+        {view === "board" ? (
+          <ApplicantsKanban
+            columns={stageColumns}
+            applications={jobApplications.map((app) => ({
+              ...app,
+              columnKey: app.stage ? stageKey(app.stage.name) : "",
+            }))}
+            onMove={moveToColumn}
+          />
+        ) : filteredApplications.length === 0 ? (
           <Card>
             <CardContent className="py-12">
               <p className="text-center text-muted-foreground">
@@ -174,89 +468,24 @@ const Applicants = () => {
               </p>
             </CardContent>
           </Card>
-        ) : (
-          <div className="space-y-4">
-            {filteredApplications.map((application) => (
-              <Card key={application.id} className="border-2">
-                <CardHeader>
-                  <div className="flex justify-between items-start">
-                    <div className="space-y-2">
-                      <CardTitle className="text-xl">
-                        {application.profiles?.full_name || "Unknown Applicant"}
-                      </CardTitle>
-                      <CardDescription className="flex items-center gap-2">
-                        <Briefcase className="h-4 w-4" />
-                        {application.jobs?.title} at {application.jobs?.company_name}
-                      </CardDescription>
-                    </div>
-                    <Badge variant={getStatusColor(application.status)}>
-                      {application.status}
-                    </Badge>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
-                      {application.profiles?.email && (
-                        <div className="flex items-center gap-1">
-                          <Mail className="h-4 w-4" />
-                          {application.profiles.email}
-                        </div>
-                      )}
-                      {application.profiles?.phone && (
-                        <div className="flex items-center gap-1">
-                          <Phone className="h-4 w-4" />
-                          {application.profiles.phone}
-                        </div>
-                      )}
-                      <div className="flex items-center gap-1">
-                        <Calendar className="h-4 w-4" />
-                        Applied {formatDate(application.applied_at)}
-                      </div>
-                    </div>
-
-                    {application.cover_letter && (
-                      <div>
-                        <h4 className="font-semibold mb-2 flex items-center gap-2">
-                          <FileText className="h-4 w-4" />
-                          Cover Letter
-                        </h4>
-                        <p className="text-sm text-muted-foreground line-clamp-3">
-                          {application.cover_letter}
-                        </p>
-                      </div>
-                    )}
-
-                    <div className="flex gap-2 flex-wrap">
-                      <Select
-                        value={application.status}
-                        onValueChange={(value) => updateApplicationStatus(application.id, value)}
-                      >
-                        <SelectTrigger className="w-40">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="applied">Applied</SelectItem>
-                          <SelectItem value="shortlisted">Shortlisted</SelectItem>
-                          <SelectItem value="viewed">Viewed</SelectItem>
-                          <SelectItem value="hired">Hired</SelectItem>
-                          <SelectItem value="rejected">Rejected</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      {application.resume_url && (
-                        <Button
-                          variant="outline"
-                          onClick={() => window.open(application.resume_url, "_blank")}
-                        >
-                          View Resume
-                        </Button>
-                      )}
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+        ) : previewApplication ? (
+          <div className="h-[calc(100vh-12rem)] rounded-lg border">
+            <ResizablePanelGroup direction="horizontal">
+              <ResizablePanel defaultSize={55} minSize={30}>
+                <div className="h-full overflow-y-auto p-4">{applicationCards}</div>
+              </ResizablePanel>
+              <ResizableHandle withHandle />
+              <ResizablePanel defaultSize={45} minSize={25}>
+                <ResumeViewer
+                  path={previewApplication.resume_url}
+                  title={`${previewApplication.profiles?.full_name || "Applicant"}'s resume`}
+                  onClose={() => setPreviewId(null)}
+                />
+              </ResizablePanel>
+            </ResizablePanelGroup>
           </div>
+        ) : (
+          applicationCards
         )}
       </div>
     </div>
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -7,14 +7,20 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { supabase } from "@/integrations/supabase/client";
+import { getStoredAttributions } from "@/lib/attribution";
 import { toast } from "sonner";
 import { Navigation } from "@/components/Navigation";
 import { Briefcase, User } from "lucide-react";
 
 type UserRole = "job_seeker" | "recruiter";
 
+// Only same-site paths, so the redirect parameter can't send people elsewhere
+const safeRedirect = (path: string | null) => (path?.startsWith("/") && !path.startsWith("//") ? path : null);
+
 const Auth = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const redirect = safeRedirect(searchParams.get("redirect"));
   const [loading, setLoading] = useState(false);
   const [role, setRole] = useState<UserRole>("job_seeker");
 
@@ -35,8 +41,10 @@ const Auth = () => {
           data: {
             full_name: fullName,
             role: role,
+            // Tagged job links visited before signing up, read back when applying
+            job_attribution: getStoredAttributions(),
           },
-          emailRedirectTo: `${window.location.origin}/`,
+          emailRedirectTo: `${window.location.origin}${redirect ?? "/"}`,
         },
       });
 
@@ -50,7 +58,7 @@ const Auth = () => {
           .eq("id", data.user.id);
 
         toast.success("Account created successfully!");
-        navigate("/dashboard");
+        navigate(redirect ?? "/dashboard");
       }
     } catch (error: any) {
       toast.error(error.message || "Failed to sign up");
@@ -76,7 +84,7 @@ const Auth = () => {
       if (error) throw error;
 
       toast.success("Signed in successfully!");
-      navigate("/dashboard");
+      navigate(redirect ?? "/dashboard");
     } catch (error: any) {
       toast.error(error.message || "Failed to sign in");
     } finally {
@@ -1,19 +1,26 @@
 import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { Navigation } from "@/components/Navigation";
+import { RecommendedJobs } from "@/components/RecommendedJobs";
+import { ActivityFeed } from "@/components/ActivityFeed";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
 import { supabase } from "@/integrations/supabase/client";
+import { computeProfileStrength, type StrengthProfile } from "@/lib/profileStrength";
 import { toast } from "sonner";
 import { Briefcase, FileText, TrendingUp, Users } from "lucide-react";
 import type { User } from "@supabase/supabase-js";
 
-interface Profile {
+interface Profile extends StrengthProfile {
   role: "job_seeker" | "recruiter" | "admin";
   full_name: string;
   email: string;
 }
 
+// Only the top few steps fit on the card; the profile page lists them all
+const MAX_STRENGTH_STEPS = 3;
+
 const Dashboard = () => {
   const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
@@ -41,7 +48,7 @@ const Dashboard = () => {
 
       const { data: profileData, error } = await supabase
         .from("profiles")
-        .select("role, full_name, email")
+        .select("role, full_name, email, bio, phone, location, skills, experience_years, resume_url, profile_image_url")
         .eq("id", session.user.id)
         .single();
 
@@ -106,6 +113,8 @@ const Dashboard = () => {
     );
   }
 
+  const strength = profile?.role === "job_seeker" ? computeProfileStrength(profile) : null;
+
   return (
     <div className="min-h-screen bg-background">
       <Navigation />
@@ -133,8 +142,8 @@ const Dashboard = () => {
               <CardContent>
                 <p className="text-3xl font-bold mb-2">{applicationsCount}</p>
                 <CardDescription>Total applications submitted</CardDescription>
-                <Button className="w-full mt-4" onClick={() => navigate("/jobs")}>
-                  Browse Jobs
+                <Button className="w-full mt-4" onClick={() => navigate("/my-applications")}>
+                  Track Applications
                 </Button>
               </CardContent>
             </Card>
@@ -147,8 +156,24 @@ const Dashboard = () => {
                 </div>
               </CardHeader>
               <CardContent>
-                <p className="text-3xl font-bold mb-2">60%</p>
-                <CardDescription>Complete your profile to increase visibility</CardDescription>
+                <p className="text-3xl font-bold mb-2">{strength.score}%</p>
+                <Progress value={strength.score} className="mb-3" />
+                {strength.missing.length === 0 ? (
+                  <CardDescription>Your profile is complete</CardDescription>
+                ) : (
+                  <>
+                    <CardDescription>Complete your profile to increase visibility</CardDescription>
+                    <ul className="mt-2 space-y-1 text-sm">
+                      {strength.missing.slice(0, MAX_STRENGTH_STEPS).map((item) => (
+                        <li key={item.key}>
+                          <Link to={`/profile#${item.fieldId}`} className="text-primary hover:underline">
+                            {item.action}
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
                 <Button variant="outline" className="w-full mt-4" onClick={() => navigate("/profile")}>
                   Update Profile
                 </Button>
@@ -165,8 +190,11 @@ const Dashboard = () => {
               <CardContent>
                 <p className="text-3xl font-bold mb-2">{savedJobsCount}</p>
                 <CardDescription>Jobs you've bookmarked</CardDescription>
-                <Button variant="outline" className="w-full mt-4" onClick={() => navigate("/jobs")}>
-                  Explore Jobs
+                <Button variant="outline" className="w-full mt-4" onClick={() => navigate("/saved-jobs")}>
+                  View Saved Jobs
+                </Button>
+                <Button variant="outline" className="w-full mt-2" onClick={() => navigate("/saved-searches")}>
+                  Saved Searches & Alerts
                 </Button>
               </CardContent>
             </Card>
@@ -186,6 +214,9 @@ const Dashboard = () => {
                 <Button className="w-full mt-4" onClick={() => navigate("/post-job")}>
                   Post New Job
                 </Button>
+                <Button variant="outline" className="w-full mt-2" onClick={() => navigate("/my-jobs")}>
+                  Manage Jobs
+                </Button>
               </CardContent>
             </Card>
 
@@ -202,6 +233,9 @@ const Dashboard = () => {
                 <Button variant="outline" className="w-full mt-4" onClick={() => navigate("/applicants")}>
                   View Applicants
                 </Button>
+                <Button variant="outline" className="w-full mt-2" onClick={() => navigate("/candidates")}>
+                  Find Candidates
+                </Button>
               </CardContent>
             </Card>
 
@@ -223,16 +257,20 @@ const Dashboard = () => {
           </div>
         )}
 
+        {profile?.role === "job_seeker" && user && <RecommendedJobs userId={user.id} />}
+
         {/* Recent Activity Section */}
         <Card className="mt-8 border-2">
           <CardHeader>
             <CardTitle>Recent Activity</CardTitle>
-            <CardDescription>Your latest updates and notifications</CardDescription>
+            <CardDescription>
+              {profile?.role === "recruiter"
+                ? "Jobs you posted and what's happening with your applicants"
+                : "Your applications, saved jobs and profile updates"}
+            </CardDescription>
           </CardHeader>
           <CardContent>
-            <p className="text-center text-muted-foreground py-8">
-              No recent activity to display
-            </p>
+            {user && profile && <ActivityFeed userId={user.id} role={profile.role} />}
           </CardContent>
         </Card>
       </div>
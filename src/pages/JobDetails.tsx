@@ -1,28 +1,84 @@
 import { useState, useEffect } from "react";
-import { useParams, useNavigate, Link } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams, Link } from "react-router-dom";
 import { Navigation } from "@/components/Navigation";
+import { SkillGapPanel } from "@/components/SkillGapPanel";
+import { ApplyDialog } from "@/components/ApplyDialog";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import { supabase } from "@/integrations/supabase/client";
-import { MapPin, Briefcase, DollarSign, Clock, ArrowLeft, Building } from "lucide-react";
+import { matchJob, type SkillProfile } from "@/lib/skillMatch";
+import { describeApplicationStatus, type ApplicationStatus } from "@/lib/applicationStatus";
+import type { StageOutcome } from "@/lib/hiringStages";
+import { getAnonymousViewerId } from "@/lib/jobViews";
+import { readAttribution, storeAttribution } from "@/lib/attribution";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { MapPin, Briefcase, DollarSign, Clock, ArrowLeft, Building, Target, PauseCircle } from "lucide-react";
 import { toast } from "sonner";
 
+interface OwnApplication {
+  status: ApplicationStatus;
+  stage: { name: string; outcome: StageOutcome | null } | null;
+}
+
 const JobDetails = () => {
   const { id } = useParams();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [job, setJob] = useState(null);
   const [loading, setLoading] = useState(true);
   const [user, setUser] = useState(null);
+  const [seekerProfile, setSeekerProfile] = useState<SkillProfile | null>(null);
+  const [application, setApplication] = useState<OwnApplication | null>(null);
+  const [applyOpen, setApplyOpen] = useState(false);
 
   useEffect(() => {
     checkUser();
     fetchJobDetails();
+    recordView();
+
+    // Links shared by the recruiter carry where they were posted
+    const attribution = readAttribution(searchParams);
+    if (attribution) storeAttribution(id, attribution);
   }, [id]);
 
+  // The database skips repeat views on the same day and the recruiter's own visits
+  const recordView = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const { error } = await supabase.rpc("record_job_view", {
+      p_job_id: id,
+      p_session_id: session ? undefined : getAnonymousViewerId(),
+    });
+    if (error) console.error(error);
+  };
+
   const checkUser = async () => {
     const { data: { session } } = await supabase.auth.getSession();
     setUser(session?.user ?? null);
+
+    if (session?.user) {
+      const { data: profileData } = await supabase
+        .from("profiles")
+        .select("role, skills, experience_years")
+        .eq("id", session.user.id)
+        .single();
+
+      if (profileData?.role === "job_seeker") {
+        setSeekerProfile(profileData);
+        await fetchApplication(session.user.id);
+      }
+    }
+  };
+
+  const fetchApplication = async (userId: string) => {
+    const { data } = await supabase
+      .from("applications")
+      .select("status, stage:job_stages!applications_stage_id_fkey(name, outcome)")
+      .eq("job_id", id)
+      .eq("applicant_id", userId)
+      .maybeSingle();
+    setApplication(data);
   };
 
   const fetchJobDetails = async () => {
@@ -43,32 +99,14 @@ const JobDetails = () => {
     }
   };
 
-  const handleApply = async () => {
+  const handleApply = () => {
     if (!user) {
       toast.error("Please sign in to apply");
-      navigate("/auth");
+      navigate(`/auth?redirect=${encodeURIComponent(`/jobs/${id}`)}`);
       return;
     }
 
-    try {
-      const { error } = await supabase.from("applications").insert({
-        job_id: id,
-        applicant_id: user.id,
-        status: "applied",
-      });
-
-      if (error) {
-        if (error.code === "23505") {
-          toast.error("You've already applied to this job");
-        } else {
-          throw error;
-        }
-      } else {
-        toast.success("Application submitted successfully!");
-      }
-    } catch (error) {
-      toast.error("Failed to submit application");
-    }
+    setApplyOpen(true);
   };
 
   const formatSalary = (min, max) => {
@@ -112,6 +150,9 @@ const JobDetails = () => {
     );
   }
 
+  const match = seekerProfile ? matchJob(seekerProfile, job) : null;
+  const applicationStatus = application ? describeApplicationStatus(application) : null;
+
   return (
     <div className="min-h-screen bg-background">
       <Navigation />
@@ -125,6 +166,20 @@ const JobDetails = () => {
           Back to Jobs
         </Button>
 
+        {job.status !== "open" && (
+          <Alert className="mb-6">
+            <PauseCircle className="h-4 w-4" />
+            <AlertTitle>
+              {job.status === "paused" ? "This job is paused" : "This job is closed"}
+            </AlertTitle>
+            <AlertDescription>
+              {job.status === "paused"
+                ? "The recruiter has temporarily stopped accepting applications."
+                : "The recruiter is no longer accepting applications for this role."}
+            </AlertDescription>
+          </Alert>
+        )}
+
         <Card className="border-2">
           <CardHeader>
             <div className="flex justify-between items-start">
@@ -157,13 +212,54 @@ const JobDetails = () => {
                 </div>
               </div>
               
-              <Button size="lg" onClick={handleApply}>
-                Apply Now
-              </Button>
+              {application ? (
+                <div className="text-right space-y-1">
+                  <p className="text-sm text-muted-foreground">Your application</p>
+                  <Badge variant={applicationStatus.variant} className="text-sm">
+                    {applicationStatus.label}
+                  </Badge>
+                  <Link to="/my-applications" className="block text-xs text-primary hover:underline">
+                    Track your applications
+                  </Link>
+                </div>
+              ) : job.status === "open" ? (
+                <Button size="lg" onClick={handleApply}>
+                  Apply Now
+                </Button>
+              ) : null}
             </div>
           </CardHeader>
 
           <CardContent className="space-y-6">
+            {match && (
+              <div className="rounded-lg border p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-xl font-semibold flex items-center gap-2">
+                    <Target className="h-5 w-5 text-primary" />
+                    Your Match
+                  </h3>
+                  <span className="text-2xl font-bold">{match.score}%</span>
+                </div>
+                <Progress value={match.score} className="h-2" />
+                {match.matchedSkills.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm text-muted-foreground">Skills you have:</span>
+                    {match.matchedSkills.map((skill) => (
+                      <Badge key={skill}>{skill}</Badge>
+                    ))}
+                  </div>
+                )}
+                {!match.meetsExperience && (
+                  <p className="text-sm text-muted-foreground">
+                    This role asks for {job.experience_required} years of experience; your profile lists{" "}
+                    {seekerProfile.experience_years || 0}.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {match && <SkillGapPanel missingSkills={match.missingSkills} />}
+
             <div>
               <h3 className="text-xl font-semibold mb-3">Job Description</h3>
               <p className="text-muted-foreground whitespace-pre-wrap">{job.description}</p>
@@ -189,6 +285,17 @@ const JobDetails = () => {
           </CardContent>
         </Card>
       </div>
+
+      {user && (
+        <ApplyDialog
+          open={applyOpen}
+          onOpenChange={setApplyOpen}
+          jobId={job.id}
+          jobTitle={job.title}
+          userId={user.id}
+          onApplied={() => fetchApplication(user.id)}
+        />
+      )}
     </div>
   );
 };
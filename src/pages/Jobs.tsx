@@ -1,12 +1,38 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { Navigation } from "@/components/Navigation";
+import { JobFiltersPanel } from "@/components/JobFiltersPanel";
+import { SaveSearchDialog } from "@/components/SaveSearchDialog";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import {
+  Drawer,
+  DrawerContent,
+  DrawerHeader,
+  DrawerTitle,
+  DrawerTrigger,
+} from "@/components/ui/drawer";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
-import { MapPin, Briefcase, DollarSign, Clock, Search, Bookmark } from "lucide-react";
-import { Link } from "react-router-dom";
+import { matchJob, type JobMatch, type SkillProfile } from "@/lib/skillMatch";
+import {
+  countActiveFilters,
+  parseJobFilters,
+  toSearchArgs,
+  writeJobFilters,
+  type JobFacets,
+  type JobFilters,
+} from "@/lib/jobFilters";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { MapPin, Briefcase, DollarSign, Clock, Search, Bookmark, Target, SlidersHorizontal, BellPlus } from "lucide-react";
+import { Link, useSearchParams } from "react-router-dom";
 import { toast } from "sonner";
 import type { User } from "@supabase/supabase-js";
 
@@ -19,23 +45,74 @@ interface Job {
   salary_min: number | null;
   salary_max: number | null;
   required_skills: string[];
+  experience_required: number | null;
   created_at: string;
   description: string;
+  rank: number;
 }
 
+type SortOption = "relevance" | "newest" | "best_match";
+
+const PAGE_SIZE = 20;
+
 const Jobs = () => {
+  const isMobile = useIsMobile();
+  // Filters and sort order live in the query string so searches can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filtersKey = writeJobFilters(new URLSearchParams(), parseJobFilters(searchParams)).toString();
+  const filters = useMemo(() => parseJobFilters(new URLSearchParams(filtersKey)), [filtersKey]);
   const [jobs, setJobs] = useState<Job[]>([]);
+  const [facets, setFacets] = useState<JobFacets | null>(null);
   const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [locationFilter, setLocationFilter] = useState("");
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [searchTerm, setSearchTerm] = useState(filters.query);
+  const [locationFilter, setLocationFilter] = useState(filters.location);
   const [user, setUser] = useState<User | null>(null);
   const [savedJobIds, setSavedJobIds] = useState<Set<string>>(new Set());
+  const [seekerProfile, setSeekerProfile] = useState<SkillProfile | null>(null);
+  const [saveSearchOpen, setSaveSearchOpen] = useState(false);
+  // Ignores responses to searches that have since been replaced
+  const requestId = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const sortBy = (searchParams.get("sort") as SortOption | null) ?? (seekerProfile ? "best_match" : "relevance");
+
+  const setSortBy = (sort: SortOption) => {
+    const next = new URLSearchParams(searchParams);
+    next.set("sort", sort);
+    setSearchParams(next, { replace: true });
+  };
+
+  const updateFilters = useCallback(
+    (changes: Partial<JobFilters>) => {
+      setSearchParams(
+        (previous) => writeJobFilters(previous, { ...parseJobFilters(previous), ...changes }),
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
 
   useEffect(() => {
     checkUser();
-    fetchJobs();
   }, []);
 
+  // Keep the inputs in step when the URL changes, e.g. on back navigation
+  useEffect(() => {
+    setSearchTerm(filters.query);
+    setLocationFilter(filters.location);
+  }, [filters.query, filters.location]);
+
+  useEffect(() => {
+    if (searchTerm === filters.query && locationFilter === filters.location) return;
+
+    const timer = setTimeout(() => {
+      updateFilters({ query: searchTerm, location: locationFilter });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm, locationFilter, filters.query, filters.location, updateFilters]);
+
   const checkUser = async () => {
     const { data: { session } } = await supabase.auth.getSession();
     setUser(session?.user || null);
@@ -50,38 +127,102 @@ const Jobs = () => {
       if (data) {
         setSavedJobIds(new Set(data.map(item => item.job_id)));
       }
-    }
-  };
 
-  const fetchJobs = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("jobs")
-        .select("*")
-        .eq("status", "open")
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      setJobs(data || []);
-    } catch (error: any) {
-      toast.error("Failed to load jobs");
-    } finally {
-      setLoading(false);
+      // Only job seekers get match scores
+      const { data: profileData } = await supabase
+        .from("profiles")
+        .select("role, skills, experience_years")
+        .eq("id", session.user.id)
+        .single();
+
+      if (profileData?.role === "job_seeker") {
+        setSeekerProfile(profileData);
+      }
     }
   };
 
-  const filteredJobs = jobs.filter((job) => {
-    const matchesSearch =
-      job.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      job.company_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      job.required_skills.some((skill) =>
-        skill.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    const matchesLocation = locationFilter
-      ? job.location.toLowerCase().includes(locationFilter.toLowerCase())
-      : true;
-    return matchesSearch && matchesLocation;
-  });
+  // Best match re-sorts in the browser, so it shares the server's relevance order
+  const serverSort = sortBy === "newest" ? "newest" : "relevance";
+
+  const fetchJobs = useCallback(
+    async (after: Job | null) => {
+      const current = ++requestId.current;
+      if (after) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
+
+      try {
+        const { data, error } = await supabase.rpc("search_jobs", {
+          ...toSearchArgs(filters),
+          p_sort: serverSort,
+          p_limit: PAGE_SIZE,
+          ...(after && {
+            p_cursor_rank: after.rank,
+            p_cursor_created_at: after.created_at,
+            p_cursor_id: after.id,
+          }),
+        });
+
+        if (error) throw error;
+        if (current !== requestId.current) return;
+
+        const page = data || [];
+        setJobs((previous) => (after ? [...previous, ...page] : page));
+        setHasMore(page.length === PAGE_SIZE);
+      } catch (error) {
+        if (current === requestId.current) toast.error("Failed to load jobs");
+      } finally {
+        if (current === requestId.current) {
+          setLoading(false);
+          setLoadingMore(false);
+        }
+      }
+    },
+    [filters, serverSort]
+  );
+
+  useEffect(() => {
+    fetchJobs(null);
+  }, [fetchJobs]);
+
+  useEffect(() => {
+    const fetchFacets = async () => {
+      const { data, error } = await supabase.rpc("job_search_facets", toSearchArgs(filters));
+      if (error) {
+        console.error(error);
+      } else {
+        setFacets(data as unknown as JobFacets);
+      }
+    };
+
+    fetchFacets();
+  }, [filters]);
+
+  const lastJob = jobs[jobs.length - 1] ?? null;
+
+  // Loads the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loadingMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) fetchJobs(lastJob);
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [fetchJobs, hasMore, loadingMore, lastJob]);
+
+  const matches = new Map<string, JobMatch>(
+    seekerProfile ? jobs.map((job) => [job.id, matchJob(seekerProfile, job)]) : []
+  );
+
+  // Match scores are computed in the browser, so best match orders the pages loaded so far
+  const sortedJobs =
+    sortBy === "best_match" && seekerProfile
+      ? [...jobs].sort((a, b) => matches.get(b.id)!.score - matches.get(a.id)!.score)
+      : jobs;
 
   const formatSalary = (min: number | null, max: number | null) => {
     if (!min && !max) return "Salary not specified";
@@ -153,7 +294,7 @@ const Jobs = () => {
         {/* Search and Filters */}
         <Card className="mb-8">
           <CardContent className="pt-6">
-            <div className="grid md:grid-cols-2 gap-4">
+            <div className="grid gap-4 md:grid-cols-3">
               <div className="relative">
                 <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                 <Input
@@ -172,94 +313,188 @@ const Jobs = () => {
                   className="pl-10"
                 />
               </div>
+              <Select value={sortBy} onValueChange={(value) => setSortBy(value as SortOption)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="relevance">Relevance</SelectItem>
+                  {seekerProfile && <SelectItem value="best_match">Best match</SelectItem>}
+                  <SelectItem value="newest">Newest</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
           </CardContent>
         </Card>
 
-        {/* Job Listings */}
-        {loading ? (
-          <div className="text-center py-12">
-            <p className="text-muted-foreground">Loading jobs...</p>
-          </div>
-        ) : filteredJobs.length === 0 ? (
-          <div className="text-center py-12">
-            <p className="text-muted-foreground">No jobs found matching your criteria</p>
-          </div>
-        ) : (
-          <div className="grid gap-4">
-            {filteredJobs.map((job) => (
-              <Card
-                key={job.id}
-                className="hover:shadow-card-hover transition-all duration-300 border-2"
-              >
-                <CardHeader>
-                  <div className="flex justify-between items-start">
-                    <div className="space-y-2">
-                      <CardTitle className="text-2xl">{job.title}</CardTitle>
-                      <CardDescription className="text-lg">
-                        {job.company_name}
-                      </CardDescription>
-                    </div>
-                    <div className="flex gap-2">
-                      {user && (
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => toggleSaveJob(job.id)}
-                        >
-                          <Bookmark
-                            className={`h-4 w-4 ${savedJobIds.has(job.id) ? "fill-primary" : ""}`}
-                          />
-                        </Button>
-                      )}
-                      <Link to={`/jobs/${job.id}`}>
-                        <Button>View Details</Button>
-                      </Link>
-                    </div>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4">
-                    <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
-                      <div className="flex items-center gap-1">
-                        <MapPin className="h-4 w-4" />
-                        {job.location}
-                      </div>
-                      <div className="flex items-center gap-1">
-                        <Briefcase className="h-4 w-4" />
-                        {job.job_type}
-                      </div>
-                      <div className="flex items-center gap-1">
-                        <DollarSign className="h-4 w-4" />
-                        {formatSalary(job.salary_min, job.salary_max)}
-                      </div>
-                      <div className="flex items-center gap-1">
-                        <Clock className="h-4 w-4" />
-                        {formatDate(job.created_at)}
+        <div className={isMobile ? undefined : "grid gap-8 md:grid-cols-[240px_1fr] items-start"}>
+          {!isMobile && (
+            <Card>
+              <CardContent className="pt-6">
+                <JobFiltersPanel filters={filters} facets={facets} onChange={updateFilters} />
+              </CardContent>
+            </Card>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between gap-4 mb-4">
+              <p className="text-sm text-muted-foreground">
+                {facets && `${facets.total} job${facets.total === 1 ? "" : "s"} found`}
+              </p>
+              <div className="flex items-center gap-2">
+                {user && (
+                  <Button variant="outline" size="sm" onClick={() => setSaveSearchOpen(true)}>
+                    <BellPlus className="mr-2 h-4 w-4" />
+                    Save search
+                  </Button>
+                )}
+                {isMobile && (
+                  <Drawer>
+                    <DrawerTrigger asChild>
+                      <Button variant="outline" size="sm">
+                        <SlidersHorizontal className="mr-2 h-4 w-4" />
+                        Filters
+                        {countActiveFilters(filters) > 0 && ` (${countActiveFilters(filters)})`}
+                      </Button>
+                    </DrawerTrigger>
+                    <DrawerContent>
+                      <DrawerHeader className="sr-only">
+                        <DrawerTitle>Filters</DrawerTitle>
+                      </DrawerHeader>
+                      <div className="max-h-[70vh] overflow-y-auto p-4">
+                        <JobFiltersPanel filters={filters} facets={facets} onChange={updateFilters} />
                       </div>
-                    </div>
-                    <p className="text-muted-foreground line-clamp-2">
-                      {job.description}
-                    </p>
-                    <div className="flex flex-wrap gap-2">
-                      {job.required_skills.slice(0, 5).map((skill, index) => (
-                        <Badge key={index} variant="secondary">
-                          {skill}
-                        </Badge>
-                      ))}
-                      {job.required_skills.length > 5 && (
-                        <Badge variant="outline">
-                          +{job.required_skills.length - 5} more
-                        </Badge>
-                      )}
-                    </div>
+                    </DrawerContent>
+                  </Drawer>
+                )}
+              </div>
+            </div>
+
+            {/* Job Listings */}
+            {loading ? (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">Loading jobs...</p>
+              </div>
+            ) : sortedJobs.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">No jobs found matching your criteria</p>
+              </div>
+            ) : (
+              <div className="grid gap-4">
+                {sortedJobs.map((job) => {
+                  const match = matches.get(job.id);
+                  return (
+                    <Card
+                      key={job.id}
+                      className="hover:shadow-card-hover transition-all duration-300 border-2"
+                    >
+                      <CardHeader>
+                        <div className="flex justify-between items-start">
+                          <div className="space-y-2">
+                            <CardTitle className="text-2xl">{job.title}</CardTitle>
+                            <CardDescription className="text-lg">
+                              {job.company_name}
+                            </CardDescription>
+                            {match && (
+                              <Badge variant={match.score >= 70 ? "default" : "outline"} className="gap-1">
+                                <Target className="h-3 w-3" />
+                                {match.score}% match
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="flex gap-2">
+                            {user && (
+                              <Button
+                                variant="outline"
+                                size="icon"
+                                onClick={() => toggleSaveJob(job.id)}
+                              >
+                                <Bookmark
+                                  className={`h-4 w-4 ${savedJobIds.has(job.id) ? "fill-primary" : ""}`}
+                                />
+                              </Button>
+                            )}
+                            <Link to={`/jobs/${job.id}`}>
+                              <Button>View Details</Button>
+                            </Link>
+                          </div>
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-4">
+                          <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                            <div className="flex items-center gap-1">
+                              <MapPin className="h-4 w-4" />
+                              {job.location}
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <Briefcase className="h-4 w-4" />
+                              {job.job_type}
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <DollarSign className="h-4 w-4" />
+                              {formatSalary(job.salary_min, job.salary_max)}
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <Clock className="h-4 w-4" />
+                              {formatDate(job.created_at)}
+                            </div>
+                          </div>
+                          <p className="text-muted-foreground line-clamp-2">
+                            {job.description}
+                          </p>
+                          <div className="flex flex-wrap gap-2">
+                            {job.required_skills.slice(0, 5).map((skill, index) => (
+                              <Badge
+                                key={index}
+                                variant={
+                                  match && !match.matchedSkills.includes(skill) ? "outline" : "secondary"
+                                }
+                              >
+                                {skill}
+                              </Badge>
+                            ))}
+                            {job.required_skills.length > 5 && (
+                              <Badge variant="outline">
+                                +{job.required_skills.length - 5} more
+                              </Badge>
+                            )}
+                          </div>
+                          {match && job.required_skills.length > 0 && (
+                            <p className="text-sm text-muted-foreground">
+                              You have {match.matchedSkills.length} of {job.required_skills.length} required skills
+                              {match.missingSkills.length > 0 &&
+                                ` · Missing: ${match.missingSkills.slice(0, 3).join(", ")}${
+                                  match.missingSkills.length > 3 ? "…" : ""
+                                }`}
+                            </p>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+                {hasMore && (
+                  <div ref={sentinelRef} className="flex justify-center py-4">
+                    <Button variant="outline" onClick={() => fetchJobs(lastJob)} disabled={loadingMore}>
+                      {loadingMore ? "Loading..." : "Load more jobs"}
+                    </Button>
                   </div>
-                </CardContent>
-              </Card>
-            ))}
+                )}
+              </div>
+            )}
           </div>
-        )}
+        </div>
       </div>
+
+      {user && (
+        <SaveSearchDialog
+          open={saveSearchOpen}
+          onOpenChange={setSaveSearchOpen}
+          userId={user.id}
+          filters={filters}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,293 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Navigation } from "@/components/Navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  APPLICATION_STATUS_LABELS,
+  canWithdraw,
+  describeApplicationStatus,
+  type ApplicationStatus,
+} from "@/lib/applicationStatus";
+import type { StageOutcome } from "@/lib/hiringStages";
+import { toast } from "sonner";
+import { Building, Calendar, ExternalLink, Undo2 } from "lucide-react";
+
+interface StatusChange {
+  id: string;
+  to_status: ApplicationStatus;
+  changed_at: string | null;
+  to_stage: { name: string; outcome: StageOutcome | null } | null;
+}
+
+interface MyApplication {
+  id: string;
+  status: ApplicationStatus;
+  applied_at: string | null;
+  jobs: { id: string; title: string; company_name: string; location: string; status: string } | null;
+  stage: { name: string; outcome: StageOutcome | null } | null;
+  application_status_history: StatusChange[];
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+
+const MyApplications = () => {
+  const navigate = useNavigate();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [applications, setApplications] = useState<MyApplication[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filterStatus, setFilterStatus] = useState<ApplicationStatus | "all">("all");
+
+  useEffect(() => {
+    checkUserAndFetch();
+  }, []);
+
+  const checkUserAndFetch = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+
+      setUserId(session.user.id);
+      await fetchApplications(session.user.id);
+    } catch (error) {
+      toast.error("Failed to load applications");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchApplications = async (applicantId: string) => {
+    const { data, error } = await supabase
+      .from("applications")
+      .select(`
+        id,
+        status,
+        applied_at,
+        jobs(id, title, company_name, location, status),
+        stage:job_stages!applications_stage_id_fkey(name, outcome),
+        application_status_history(
+          id,
+          to_status,
+          changed_at,
+          to_stage:job_stages!application_status_history_to_stage_id_fkey(name, outcome)
+        )
+      `)
+      .eq("applicant_id", applicantId)
+      .order("applied_at", { ascending: false });
+
+    if (error) throw error;
+    setApplications(data || []);
+  };
+
+  const withdrawApplication = async (application: MyApplication) => {
+    try {
+      const { error } = await supabase
+        .from("applications")
+        .update({ status: "withdrawn" })
+        .eq("id", application.id);
+
+      if (error) throw error;
+
+      toast.success(`Withdrew your application for ${application.jobs?.title ?? "this job"}`);
+      await fetchApplications(userId);
+    } catch (error) {
+      toast.error("Failed to withdraw application");
+    }
+  };
+
+  const filteredApplications = applications.filter(
+    (application) => filterStatus === "all" || application.status === filterStatus
+  );
+
+  const statusCounts = applications.reduce<Partial<Record<ApplicationStatus, number>>>(
+    (counts, application) => ({ ...counts, [application.status]: (counts[application.status] ?? 0) + 1 }),
+    {}
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="container mx-auto px-4 py-12">
+          <p className="text-center text-muted-foreground">Loading applications...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">My Applications</h1>
+            <p className="text-muted-foreground">Follow each application from submission to decision</p>
+          </div>
+          <Select value={filterStatus} onValueChange={(value) => setFilterStatus(value as ApplicationStatus | "all")}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses ({applications.length})</SelectItem>
+              {(Object.keys(APPLICATION_STATUS_LABELS) as ApplicationStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {APPLICATION_STATUS_LABELS[status]} ({statusCounts[status] ?? 0})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {applications.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center space-y-4">
+              <p className="text-muted-foreground">You haven't applied to any jobs yet.</p>
+              <Button onClick={() => navigate("/jobs")}>Browse Jobs</Button>
+            </CardContent>
+          </Card>
+        ) : filteredApplications.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">No applications with this status</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {filteredApplications.map((application) => {
+              const status = describeApplicationStatus(application);
+              const history = [...application.application_status_history].sort((a, b) =>
+                (a.changed_at ?? "").localeCompare(b.changed_at ?? "")
+              );
+
+              return (
+                <Card key={application.id} className="border-2">
+                  <CardHeader>
+                    <div className="flex justify-between items-start gap-4">
+                      <div className="space-y-2">
+                        <CardTitle className="text-xl">
+                          {application.jobs ? (
+                            <Link to={`/jobs/${application.jobs.id}`} className="hover:underline">
+                              {application.jobs.title}
+                            </Link>
+                          ) : (
+                            "Job no longer available"
+                          )}
+                        </CardTitle>
+                        {application.jobs && (
+                          <CardDescription className="flex items-center gap-2">
+                            <Building className="h-4 w-4" />
+                            {application.jobs.company_name} · {application.jobs.location}
+                          </CardDescription>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {application.jobs && application.jobs.status !== "open" && (
+                          <Badge variant="outline">
+                            {application.jobs.status === "paused" ? "Job paused" : "Job closed"}
+                          </Badge>
+                        )}
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {application.applied_at && (
+                      <p className="text-sm text-muted-foreground flex items-center gap-1">
+                        <Calendar className="h-4 w-4" />
+                        Applied {formatDate(application.applied_at)}
+                      </p>
+                    )}
+
+                    {history.length > 0 && (
+                      <div>
+                        <h4 className="font-semibold mb-2 text-sm">Status history</h4>
+                        <ol className="space-y-2 border-l-2 border-muted pl-4">
+                          {history.map((change) => (
+                            <li key={change.id} className="relative text-sm">
+                              <span className="absolute -left-[1.4rem] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+                              <span className="font-medium">
+                                {describeApplicationStatus({ status: change.to_status, stage: change.to_stage }).label}
+                              </span>
+                              {change.changed_at && (
+                                <span className="text-muted-foreground"> · {formatDate(change.changed_at)}</span>
+                              )}
+                            </li>
+                          ))}
+                        </ol>
+                      </div>
+                    )}
+
+                    <div className="flex flex-wrap gap-2">
+                      {application.jobs && (
+                        <Button variant="outline" onClick={() => navigate(`/jobs/${application.jobs.id}`)}>
+                          <ExternalLink className="mr-2 h-4 w-4" />
+                          View Job
+                        </Button>
+                      )}
+                      {canWithdraw(application.status) && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost">
+                              <Undo2 className="mr-2 h-4 w-4" />
+                              Withdraw
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Withdraw this application?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The recruiter will see that you withdrew. You can't apply to{" "}
+                                {application.jobs?.title ?? "this job"} again.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => withdrawApplication(application)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Withdraw
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MyApplications;
@@ -0,0 +1,289 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Navigation } from "@/components/Navigation";
+import { ShareJobDialog } from "@/components/ShareJobDialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { describeViewConversion } from "@/lib/jobViews";
+import { toast } from "sonner";
+import { BarChart3, Calendar, Eye, MapPin, Pause, Pencil, Play, Plus, Share2, Trash2, Users, XCircle } from "lucide-react";
+
+type JobStatus = Database["public"]["Enums"]["job_status"];
+
+interface ManagedJob {
+  id: string;
+  title: string;
+  company_name: string;
+  location: string;
+  status: JobStatus;
+  created_at: string | null;
+  views_count: number | null;
+  applications_count: number | null;
+}
+
+const STATUS_BADGES: Record<JobStatus, { label: string; variant: "default" | "secondary" | "outline" }> = {
+  open: { label: "Open", variant: "default" },
+  paused: { label: "Paused", variant: "secondary" },
+  closed: { label: "Closed", variant: "outline" },
+};
+
+const MyJobs = () => {
+  const navigate = useNavigate();
+  const [jobs, setJobs] = useState<ManagedJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sharing, setSharing] = useState<ManagedJob | null>(null);
+
+  useEffect(() => {
+    checkUserAndFetchJobs();
+  }, []);
+
+  const checkUserAndFetchJobs = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("role")
+        .eq("id", session.user.id)
+        .single();
+
+      if (profile?.role !== "recruiter") {
+        toast.error("Only recruiters can access this page");
+        navigate("/dashboard");
+        return;
+      }
+
+      await fetchJobs(session.user.id);
+    } catch (error) {
+      toast.error("Failed to load jobs");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchJobs = async (userId: string) => {
+    const { data, error } = await supabase
+      .from("jobs")
+      .select("id, title, company_name, location, status, created_at, views_count, applications_count")
+      .eq("recruiter_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error(error);
+      toast.error("Failed to fetch jobs");
+    } else {
+      setJobs(data || []);
+    }
+  };
+
+  const updateJobStatus = async (jobId: string, status: JobStatus) => {
+    try {
+      const { error } = await supabase.from("jobs").update({ status }).eq("id", jobId);
+
+      if (error) throw error;
+
+      setJobs(jobs.map((job) => (job.id === jobId ? { ...job, status } : job)));
+      toast.success(
+        status === "open" ? "Job reopened" : status === "paused" ? "Job paused" : "Job closed"
+      );
+    } catch (error) {
+      toast.error("Failed to update job status");
+    }
+  };
+
+  const deleteJob = async (jobId: string) => {
+    try {
+      const { error } = await supabase.from("jobs").delete().eq("id", jobId);
+
+      if (error) throw error;
+
+      setJobs(jobs.filter((job) => job.id !== jobId));
+      toast.success("Job deleted");
+    } catch (error) {
+      toast.error("Failed to delete job");
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return "";
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="container mx-auto px-4 py-12">
+          <p className="text-center text-muted-foreground">Loading jobs...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">My Jobs</h1>
+            <p className="text-muted-foreground">Edit, pause, close or reopen your job postings</p>
+          </div>
+          <Button onClick={() => navigate("/post-job")}>
+            <Plus className="mr-2 h-4 w-4" />
+            Post New Job
+          </Button>
+        </div>
+
+        {jobs.length === 0 ? (
+          <Card>
+            <CardContent className="py-12">
+              <p className="text-center text-muted-foreground">You haven't posted any jobs yet</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {jobs.map((job) => {
+              const applicantsCount = job.applications_count ?? 0;
+              const conversion = describeViewConversion(job.views_count, job.applications_count);
+              return (
+                <Card key={job.id} className="border-2">
+                  <CardHeader>
+                    <div className="flex justify-between items-start gap-4">
+                      <div className="space-y-2">
+                        <CardTitle className="text-xl">
+                          <Link to={`/jobs/${job.id}`} className="hover:underline">
+                            {job.title}
+                          </Link>
+                        </CardTitle>
+                        <CardDescription className="flex flex-wrap items-center gap-4">
+                          <span className="flex items-center gap-1">
+                            <MapPin className="h-4 w-4" />
+                            {job.location}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <Calendar className="h-4 w-4" />
+                            Posted {formatDate(job.created_at)}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <Users className="h-4 w-4" />
+                            {applicantsCount} applicant{applicantsCount === 1 ? "" : "s"}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <BarChart3 className="h-4 w-4" />
+                            {conversion ?? "No views yet"}
+                          </span>
+                        </CardDescription>
+                      </div>
+                      <Badge variant={STATUS_BADGES[job.status].variant}>
+                        {STATUS_BADGES[job.status].label}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex flex-wrap gap-2">
+                      <Button variant="outline" onClick={() => navigate(`/post-job/${job.id}`)}>
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Edit
+                      </Button>
+                      <Button variant="outline" onClick={() => navigate(`/jobs/${job.id}`)}>
+                        <Eye className="mr-2 h-4 w-4" />
+                        View
+                      </Button>
+                      {job.status === "open" && (
+                        <Button variant="outline" onClick={() => setSharing(job)}>
+                          <Share2 className="mr-2 h-4 w-4" />
+                          Share
+                        </Button>
+                      )}
+                      {job.status === "open" ? (
+                        <Button variant="outline" onClick={() => updateJobStatus(job.id, "paused")}>
+                          <Pause className="mr-2 h-4 w-4" />
+                          Pause
+                        </Button>
+                      ) : (
+                        <Button variant="outline" onClick={() => updateJobStatus(job.id, "open")}>
+                          <Play className="mr-2 h-4 w-4" />
+                          Reopen
+                        </Button>
+                      )}
+                      {job.status !== "closed" && (
+                        <Button variant="outline" onClick={() => updateJobStatus(job.id, "closed")}>
+                          <XCircle className="mr-2 h-4 w-4" />
+                          Close
+                        </Button>
+                      )}
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="destructive">
+                            <Trash2 className="mr-2 h-4 w-4" />
+                            Delete
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete "{job.title}"?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This permanently removes the job
+                              {applicantsCount > 0 &&
+                                ` and its ${applicantsCount} application${applicantsCount === 1 ? "" : "s"}`}
+                              . To stop accepting applications but keep the history, close the
+                              job instead.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteJob(job.id)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {sharing && (
+        <ShareJobDialog
+          open
+          onOpenChange={(open) => !open && setSharing(null)}
+          jobId={sharing.id}
+          jobTitle={sharing.title}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MyJobs;
@@ -1,5 +1,7 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Navigation } from "@/components/Navigation";
+import { StageEditor } from "@/components/StageEditor";
+import { ScreeningQuestionsEditor } from "@/components/ScreeningQuestionsEditor";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -7,28 +9,189 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { supabase } from "@/integrations/supabase/client";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useParams } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_STAGES,
+  fromTemplateJson,
+  sortStages,
+  toStagesJson,
+  validateStages,
+  type StageDraft,
+} from "@/lib/hiringStages";
+import { toQuestionRow, validateQuestions, type QuestionDraft } from "@/lib/screening";
+import type { Json } from "@/integrations/supabase/types";
+
+interface StageTemplate {
+  id: string;
+  name: string;
+  stages: Json;
+}
+
+type JobType = "full-time" | "part-time" | "contract" | "internship";
 
 const PostJob = () => {
+  const { id } = useParams();
+  const isEditing = !!id;
   const navigate = useNavigate();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
+  const [loadingJob, setLoadingJob] = useState(isEditing);
   const [formData, setFormData] = useState({
     title: "",
     company_name: "",
     description: "",
     requirements: "",
     location: "",
-    job_type: "full-time" as "full-time" | "part-time" | "contract" | "internship",
+    job_type: "full-time" as JobType,
     salary_min: "",
     salary_max: "",
     experience_level: "",
     required_skills: "",
   });
+  const [stages, setStages] = useState<StageDraft[]>(DEFAULT_STAGES);
+  const [templates, setTemplates] = useState<StageTemplate[]>([]);
+  const [templateName, setTemplateName] = useState("");
+  const [questions, setQuestions] = useState<QuestionDraft[]>([]);
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      const { data } = await supabase
+        .from("hiring_stage_templates")
+        .select("id, name, stages")
+        .order("name");
+      setTemplates(data || []);
+    };
+
+    fetchTemplates();
+  }, []);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchJob = async () => {
+      const { data: job, error } = await supabase
+        .from("jobs")
+        .select(`
+          *,
+          job_stages!job_stages_job_id_fkey(id, name, position, outcome, marks_viewed),
+          screening_questions(*)
+        `)
+        .eq("id", id)
+        .single();
+
+      if (error) {
+        toast({
+          title: "Error",
+          description: "Failed to load job",
+          variant: "destructive",
+        });
+        navigate("/my-jobs");
+        return;
+      }
+
+      setFormData({
+        title: job.title,
+        company_name: job.company_name,
+        description: job.description,
+        requirements: "",
+        location: job.location,
+        job_type: job.job_type as JobType,
+        salary_min: job.salary_min?.toString() ?? "",
+        salary_max: job.salary_max?.toString() ?? "",
+        experience_level: job.experience_required?.toString() ?? "",
+        required_skills: job.required_skills.join(", "),
+      });
+      setStages(
+        sortStages(job.job_stages).map(({ id, name, outcome, marks_viewed }) => ({
+          id,
+          name,
+          outcome,
+          marks_viewed,
+        }))
+      );
+      setQuestions(
+        [...job.screening_questions]
+          .sort((a, b) => a.position - b.position)
+          .map((question) => ({
+            id: question.id,
+            prompt: question.prompt,
+            question_type: question.question_type,
+            options: question.options || [],
+            is_required: question.is_required,
+            is_knockout: question.is_knockout,
+            accepted_answers: question.accepted_answers || [],
+            knockout_min: question.knockout_min,
+            knockout_action: question.knockout_action,
+          }))
+      );
+      setLoadingJob(false);
+    };
+
+    fetchJob();
+  }, [id, navigate, toast]);
+
+  const applyTemplate = (templateId: string) => {
+    if (templateId === "default") {
+      setStages(DEFAULT_STAGES);
+      return;
+    }
+    const template = templates.find((t) => t.id === templateId);
+    if (template) setStages(fromTemplateJson(template.stages));
+  };
+
+  // Updates questions in place so existing answers stay attached to them
+  const saveQuestions = async (jobId: string) => {
+    const { data: existing, error } = await supabase
+      .from("screening_questions")
+      .select("id")
+      .eq("job_id", jobId);
+
+    if (error) throw error;
+
+    const keptIds = questions.filter((q) => q.id).map((q) => q.id);
+    const removedIds = (existing || []).map((q) => q.id).filter((qid) => !keptIds.includes(qid));
+
+    if (removedIds.length > 0) {
+      const { error: deleteError } = await supabase
+        .from("screening_questions")
+        .delete()
+        .in("id", removedIds);
+      if (deleteError) throw deleteError;
+    }
+
+    for (const [position, question] of questions.entries()) {
+      const row = toQuestionRow(question, jobId, position);
+      const { error: saveError } = question.id
+        ? await supabase.from("screening_questions").update(row).eq("id", question.id)
+        : await supabase.from("screening_questions").insert(row);
+      if (saveError) throw saveError;
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const stagesError = validateStages(stages);
+    if (stagesError) {
+      toast({
+        title: "Check the hiring stages",
+        description: stagesError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const questionsError = validateQuestions(questions);
+    if (questionsError) {
+      toast({
+        title: "Check the screening questions",
+        description: questionsError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -49,8 +212,7 @@ const PostJob = () => {
         .map(s => s.trim())
         .filter(s => s.length > 0);
 
-      const { error } = await supabase.from("jobs").insert({
-        recruiter_id: user.id,
+      const jobFields = {
         title: formData.title,
         company_name: formData.company_name,
         description: formData.description,
@@ -60,16 +222,43 @@ const PostJob = () => {
         salary_max: formData.salary_max ? parseInt(formData.salary_max) : null,
         experience_required: formData.experience_level ? parseInt(formData.experience_level) : null,
         required_skills: skillsArray,
-      });
+      };
+
+      const { data: job, error } = isEditing
+        ? await supabase.from("jobs").update(jobFields).eq("id", id).select("id").single()
+        : await supabase
+            .from("jobs")
+            .insert({ recruiter_id: user.id, ...jobFields })
+            .select("id")
+            .single();
 
       if (error) throw error;
 
+      const { error: stagesError } = await supabase.rpc("set_job_stages", {
+        p_job_id: job.id,
+        p_stages: toStagesJson(stages),
+      });
+
+      if (stagesError) throw stagesError;
+
+      await saveQuestions(job.id);
+
+      if (templateName.trim()) {
+        const { error: templateError } = await supabase.from("hiring_stage_templates").insert({
+          recruiter_id: user.id,
+          name: templateName.trim(),
+          stages: toStagesJson(stages),
+        });
+
+        if (templateError) throw templateError;
+      }
+
       toast({
         title: "Success!",
-        description: "Job posted successfully",
+        description: isEditing ? "Job updated successfully" : "Job posted successfully",
       });
 
-      navigate("/dashboard");
+      navigate(isEditing ? "/my-jobs" : "/dashboard");
     } catch (error: any) {
       toast({
         title: "Error",
@@ -89,129 +278,183 @@ const PostJob = () => {
         <Card className="max-w-3xl mx-auto">
           <CardHeader>
             <CardTitle className="text-3xl bg-hero-gradient bg-clip-text text-transparent">
-              Post a New Job
+              {isEditing ? "Edit Job" : "Post a New Job"}
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <div className="space-y-2">
-                <Label htmlFor="title">Job Title *</Label>
-                <Input
-                  id="title"
-                  required
-                  value={formData.title}
-                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
-                  placeholder="e.g., Senior React Developer"
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="company_name">Company Name *</Label>
-                <Input
-                  id="company_name"
-                  required
-                  value={formData.company_name}
-                  onChange={(e) => setFormData({ ...formData, company_name: e.target.value })}
-                  placeholder="e.g., TechCorp Inc."
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="location">Location *</Label>
-                <Input
-                  id="location"
-                  required
-                  value={formData.location}
-                  onChange={(e) => setFormData({ ...formData, location: e.target.value })}
-                  placeholder="e.g., Remote, Bangalore, New York"
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="job_type">Job Type *</Label>
-                <Select
-                  value={formData.job_type}
-                  onValueChange={(value: any) => setFormData({ ...formData, job_type: value })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="full-time">Full-time</SelectItem>
-                    <SelectItem value="part-time">Part-time</SelectItem>
-                    <SelectItem value="contract">Contract</SelectItem>
-                    <SelectItem value="internship">Internship</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
+            {loadingJob ? (
+              <p className="text-center text-muted-foreground py-8">Loading job...</p>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
                 <div className="space-y-2">
-                  <Label htmlFor="salary_min">Min Salary</Label>
+                  <Label htmlFor="title">Job Title *</Label>
                   <Input
-                    id="salary_min"
-                    type="number"
-                    value={formData.salary_min}
-                    onChange={(e) => setFormData({ ...formData, salary_min: e.target.value })}
-                    placeholder="50000"
+                    id="title"
+                    required
+                    value={formData.title}
+                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                    placeholder="e.g., Senior React Developer"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="company_name">Company Name *</Label>
+                  <Input
+                    id="company_name"
+                    required
+                    value={formData.company_name}
+                    onChange={(e) => setFormData({ ...formData, company_name: e.target.value })}
+                    placeholder="e.g., TechCorp Inc."
                   />
                 </div>
+
                 <div className="space-y-2">
-                  <Label htmlFor="salary_max">Max Salary</Label>
+                  <Label htmlFor="location">Location *</Label>
                   <Input
-                    id="salary_max"
+                    id="location"
+                    required
+                    value={formData.location}
+                    onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                    placeholder="e.g., Remote, Bangalore, New York"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="job_type">Job Type *</Label>
+                  <Select
+                    value={formData.job_type}
+                    onValueChange={(value: any) => setFormData({ ...formData, job_type: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="full-time">Full-time</SelectItem>
+                      <SelectItem value="part-time">Part-time</SelectItem>
+                      <SelectItem value="contract">Contract</SelectItem>
+                      <SelectItem value="internship">Internship</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="salary_min">Min Salary</Label>
+                    <Input
+                      id="salary_min"
+                      type="number"
+                      value={formData.salary_min}
+                      onChange={(e) => setFormData({ ...formData, salary_min: e.target.value })}
+                      placeholder="50000"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="salary_max">Max Salary</Label>
+                    <Input
+                      id="salary_max"
+                      type="number"
+                      value={formData.salary_max}
+                      onChange={(e) => setFormData({ ...formData, salary_max: e.target.value })}
+                      placeholder="100000"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="experience_level">Years of Experience Required</Label>
+                  <Input
+                    id="experience_level"
                     type="number"
-                    value={formData.salary_max}
-                    onChange={(e) => setFormData({ ...formData, salary_max: e.target.value })}
-                    placeholder="100000"
+                    value={formData.experience_level}
+                    onChange={(e) => setFormData({ ...formData, experience_level: e.target.value })}
+                    placeholder="e.g., 3"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="required_skills">Required Skills * (comma-separated)</Label>
+                  <Input
+                    id="required_skills"
+                    required
+                    value={formData.required_skills}
+                    onChange={(e) => setFormData({ ...formData, required_skills: e.target.value })}
+                    placeholder="e.g., React, TypeScript, Node.js"
                   />
                 </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="experience_level">Years of Experience Required</Label>
-                <Input
-                  id="experience_level"
-                  type="number"
-                  value={formData.experience_level}
-                  onChange={(e) => setFormData({ ...formData, experience_level: e.target.value })}
-                  placeholder="e.g., 3"
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="required_skills">Required Skills * (comma-separated)</Label>
-                <Input
-                  id="required_skills"
-                  required
-                  value={formData.required_skills}
-                  onChange={(e) => setFormData({ ...formData, required_skills: e.target.value })}
-                  placeholder="e.g., React, TypeScript, Node.js"
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="description">Job Description *</Label>
-                <Textarea
-                  id="description"
-                  required
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  placeholder="Describe the role, responsibilities, and what makes this opportunity great..."
-                  rows={6}
-                />
-              </div>
-
-
-              <div className="flex gap-4">
-                <Button type="submit" disabled={loading} className="flex-1">
-                  {loading ? "Posting..." : "Post Job"}
-                </Button>
-                <Button type="button" variant="outline" onClick={() => navigate("/dashboard")}>
-                  Cancel
-                </Button>
-              </div>
-            </form>
+
+                <div className="space-y-2">
+                  <Label htmlFor="description">Job Description *</Label>
+                  <Textarea
+                    id="description"
+                    required
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder="Describe the role, responsibilities, and what makes this opportunity great..."
+                    rows={6}
+                  />
+                </div>
+
+                <div className="space-y-4 rounded-lg border p-4">
+                  <div>
+                    <Label>Screening Questions</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Asked when candidates apply. Knockout questions flag or reject applicants
+                      whose answers don't qualify.
+                    </p>
+                  </div>
+                  <ScreeningQuestionsEditor questions={questions} onChange={setQuestions} />
+                </div>
+
+                <div className="space-y-4 rounded-lg border p-4">
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <div>
+                      <Label>Hiring Stages</Label>
+                      <p className="text-sm text-muted-foreground">
+                        The steps candidates move through. Final stages record the outcome.
+                      </p>
+                    </div>
+                    <Select onValueChange={applyTemplate}>
+                      <SelectTrigger className="w-52">
+                        <SelectValue placeholder="Start from a template" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Default stages</SelectItem>
+                        {templates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <StageEditor stages={stages} onChange={setStages} />
+                  <div className="space-y-2">
+                    <Label htmlFor="template_name">Save these stages as a template (optional)</Label>
+                    <Input
+                      id="template_name"
+                      value={templateName}
+                      onChange={(e) => setTemplateName(e.target.value)}
+                      placeholder="e.g., Engineering pipeline"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex gap-4">
+                  <Button type="submit" disabled={loading} className="flex-1">
+                    {loading
+                      ? isEditing ? "Saving..." : "Posting..."
+                      : isEditing ? "Save Changes" : "Post Job"}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => navigate(isEditing ? "/my-jobs" : "/dashboard")}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            )}
           </CardContent>
         </Card>
       </main>
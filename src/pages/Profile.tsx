@@ -1,14 +1,28 @@
-import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useCallback, useEffect, useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import { Navigation } from "@/components/Navigation";
+import { JsonResumeTransfer } from "@/components/JsonResumeTransfer";
+import { LearningRoadmap } from "@/components/LearningRoadmap";
+import { ProfileHistorySection } from "@/components/ProfileHistorySection";
+import { ResumeManager } from "@/components/ResumeManager";
+import {
+  ResumeSuggestionsDialog,
+  type ResumeToParse,
+  type SuggestionFields,
+} from "@/components/ResumeSuggestionsDialog";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Progress } from "@/components/ui/progress";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { Upload, FileText } from "lucide-react";
+import { HISTORY_SECTIONS, WORK_EXPERIENCE_SECTION, type HistoryEntry } from "@/lib/profileHistory";
+import { computeProfileStrength } from "@/lib/profileStrength";
+import { FileJson, FileText, Target, Camera } from "lucide-react";
 import type { User } from "@supabase/supabase-js";
 
 interface Profile {
@@ -23,21 +37,48 @@ interface Profile {
   skills: string[] | null;
   experience_years: number | null;
   resume_url: string | null;
+  profile_image_url: string | null;
+  target_roles: string[] | null;
+  open_to_opportunities: boolean;
 }
 
+const parseExperience = (value: string) => {
+  const years = parseInt(value);
+  return Number.isNaN(years) ? null : years;
+};
+
 const Profile = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [uploading, setUploading] = useState(false);
+  const [uploadingPhoto, setUploadingPhoto] = useState(false);
   const [skillInput, setSkillInput] = useState("");
+  const [roleInput, setRoleInput] = useState("");
+  const [resumeToParse, setResumeToParse] = useState<ResumeToParse | null>(null);
+  // Bumped to re-mount the form, whose inputs are uncontrolled, and the history sections after values
+  // change underneath them
+  const [formKey, setFormKey] = useState(0);
+  // Years of experience are calculated from work history once there is any
+  const [hasWorkHistory, setHasWorkHistory] = useState(false);
 
   useEffect(() => {
     checkUser();
   }, []);
 
+  // Deep links such as /profile#career-goals scroll once the form has rendered,
+  // and focus the field when they point at an input
+  useEffect(() => {
+    if (loading || !location.hash) return;
+    const target = document.getElementById(location.hash.slice(1));
+    target?.scrollIntoView({ behavior: "smooth", block: "center" });
+    if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) {
+      target.focus({ preventScroll: true });
+    }
+  }, [loading, location.hash]);
+
   const checkUser = async () => {
     try {
       const { data: { session } } = await supabase.auth.getSession();
@@ -49,6 +90,10 @@ const Profile = () => {
 
       setUser(session.user);
 
+      // Brings the derived years of experience up to date before the profile is read
+      const { data: derivedYears } = await supabase.rpc("refresh_experience_years");
+      setHasWorkHistory(derivedYears !== null);
+
       const { data: profileData, error } = await supabase
         .from("profiles")
         .select("*")
@@ -78,7 +123,11 @@ const Profile = () => {
         location: formData.get("location") as string,
         bio: formData.get("bio") as string,
         company_name: profile.role === "recruiter" ? formData.get("company_name") as string : null,
-        experience_years: profile.role === "job_seeker" ? parseInt(formData.get("experience_years") as string) || null : null,
+        experience_years: profile.role !== "job_seeker"
+          ? null
+          : hasWorkHistory
+            ? profile.experience_years
+            : parseExperience(formData.get("experience_years") as string),
         skills: profile.skills,
       };
 
@@ -97,43 +146,102 @@ const Profile = () => {
     }
   };
 
-  const handleResumeUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  // The database keeps resume_url pointed at the default version; mirror it for the strength score
+  const handleDefaultResumeChange = useCallback((path: string | null) => {
+    setProfile((current) => (current ? { ...current, resume_url: path } : current));
+  }, []);
+
+  const handleWorkHistoryChange = useCallback(async (entries: HistoryEntry[]) => {
+    setHasWorkHistory(entries.length > 0);
+    if (entries.length === 0) return;
+
+    const { data } = await supabase
+      .from("profiles")
+      .select("experience_years")
+      .eq("id", entries[0].user_id)
+      .single();
+
+    if (data) {
+      setProfile((current) => (current ? { ...current, experience_years: data.experience_years } : current));
+    }
+  }, []);
+
+  const handleJsonResumeImported = async () => {
+    if (!user) return;
+
+    const { data } = await supabase
+      .from("profiles")
+      .select("*")
+      .eq("id", user.id)
+      .single();
+
+    if (data) setProfile(data);
+    setFormKey((key) => key + 1);
+  };
+
+  const applyResumeSuggestions = async (updates: SuggestionFields) => {
+    if (!profile || !user) return false;
+
+    const { error } = await supabase
+      .from("profiles")
+      .update(updates)
+      .eq("id", user.id);
+
+    if (error) {
+      toast.error("Failed to update profile: " + error.message);
+      return false;
+    }
+    setProfile({ ...profile, ...updates });
+    setFormKey((key) => key + 1);
+    toast.success("Profile updated from your resume");
+    return true;
+  };
+
+  const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file || !user) return;
 
-    if (file.size > 5 * 1024 * 1024) {
-      toast.error("File size must be less than 5MB");
+    if (!file.type.startsWith("image/")) {
+      toast.error("Please choose an image file");
+      return;
+    }
+
+    if (file.size > 2 * 1024 * 1024) {
+      toast.error("Photo size must be less than 2MB");
       return;
     }
 
-    setUploading(true);
+    setUploadingPhoto(true);
     try {
       const fileExt = file.name.split('.').pop();
-      const fileName = `${user.id}/resume.${fileExt}`;
+      const fileName = `${user.id}/avatar.${fileExt}`;
 
       const { error: uploadError } = await supabase.storage
-        .from("resumes")
+        .from("avatars")
         .upload(fileName, file, { upsert: true });
 
       if (uploadError) throw uploadError;
 
       const { data: { publicUrl } } = supabase.storage
-        .from("resumes")
+        .from("avatars")
         .getPublicUrl(fileName);
 
+      // The path stays the same across uploads, so bust cached copies of the old photo
+      const photoUrl = `${publicUrl}?t=${Date.now()}`;
+
       const { error: updateError } = await supabase
         .from("profiles")
-        .update({ resume_url: publicUrl })
+        .update({ profile_image_url: photoUrl })
         .eq("id", user.id);
 
       if (updateError) throw updateError;
 
-      setProfile({ ...profile!, resume_url: publicUrl });
-      toast.success("Resume uploaded successfully");
-    } catch (error: any) {
-      toast.error("Failed to upload resume: " + error.message);
+      setProfile({ ...profile!, profile_image_url: photoUrl });
+      toast.success("Photo updated successfully");
+    } catch (error) {
+      toast.error("Failed to upload photo: " + error.message);
     } finally {
-      setUploading(false);
+      setUploadingPhoto(false);
     }
   };
 
@@ -155,6 +263,53 @@ const Profile = () => {
     setProfile({ ...profile, skills: newSkills });
   };
 
+  const updateTargetRoles = async (targetRoles: string[]) => {
+    if (!profile || !user) return;
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({ target_roles: targetRoles })
+      .eq("id", user.id);
+
+    if (error) {
+      toast.error("Failed to update target roles: " + error.message);
+      return;
+    }
+    setProfile({ ...profile, target_roles: targetRoles });
+  };
+
+  const addTargetRole = () => {
+    if (!roleInput.trim() || !profile) return;
+    const currentRoles = profile.target_roles || [];
+    if (currentRoles.some((role) => role.toLowerCase() === roleInput.trim().toLowerCase())) {
+      toast.error("Role already added");
+      return;
+    }
+    updateTargetRoles([...currentRoles, roleInput.trim()]);
+    setRoleInput("");
+  };
+
+  const removeTargetRole = (roleToRemove: string) => {
+    if (!profile) return;
+    updateTargetRoles((profile.target_roles || []).filter((role) => role !== roleToRemove));
+  };
+
+  const updateOpenToOpportunities = async (open: boolean) => {
+    if (!profile || !user) return;
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({ open_to_opportunities: open })
+      .eq("id", user.id);
+
+    if (error) {
+      toast.error("Failed to update visibility: " + error.message);
+      return;
+    }
+    setProfile({ ...profile, open_to_opportunities: open });
+    toast.success(open ? "Recruiters can now find your profile" : "Your profile is hidden from recruiter search");
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background">
@@ -168,6 +323,8 @@ const Profile = () => {
 
   if (!profile) return null;
 
+  const strength = profile.role === "job_seeker" ? computeProfileStrength(profile) : null;
+
   return (
     <div className="min-h-screen bg-background">
       <Navigation />
@@ -177,13 +334,64 @@ const Profile = () => {
           <p className="text-muted-foreground">Manage your account information</p>
         </div>
 
-        <form onSubmit={handleSubmit}>
+        {strength && (
+          <Card className="border-2 mb-8">
+            <CardHeader>
+              <CardTitle>Profile Strength: {strength.score}%</CardTitle>
+              <CardDescription>
+                {strength.missing.length === 0
+                  ? "Your profile is complete"
+                  : "Complete these steps to stand out to recruiters"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Progress value={strength.score} />
+              {strength.missing.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                  {strength.missing.map((item) => (
+                    <li key={item.key}>
+                      <Link to={`#${item.fieldId}`} className="text-primary hover:underline">
+                        {item.action}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <form key={formKey} onSubmit={handleSubmit}>
           <Card className="border-2">
             <CardHeader>
               <CardTitle>Personal Information</CardTitle>
               <CardDescription>Update your profile details</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              <div id="photo-section" className="flex items-center gap-4 scroll-mt-20">
+                <Avatar className="h-16 w-16">
+                  <AvatarImage src={profile.profile_image_url ?? undefined} alt={profile.full_name} />
+                  <AvatarFallback>{profile.full_name.charAt(0).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <Input
+                  id="photo"
+                  type="file"
+                  accept="image/*"
+                  onChange={handlePhotoUpload}
+                  disabled={uploadingPhoto}
+                  className="hidden"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => document.getElementById("photo")?.click()}
+                  disabled={uploadingPhoto}
+                >
+                  <Camera className="mr-2 h-4 w-4" />
+                  {uploadingPhoto ? "Uploading..." : profile.profile_image_url ? "Change Photo" : "Upload Photo"}
+                </Button>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="full_name">Full Name</Label>
                 <Input
@@ -237,13 +445,27 @@ const Profile = () => {
               {profile.role === "job_seeker" && (
                 <div className="space-y-2">
                   <Label htmlFor="experience_years">Years of Experience</Label>
-                  <Input
-                    id="experience_years"
-                    name="experience_years"
-                    type="number"
-                    min="0"
-                    defaultValue={profile.experience_years || ""}
-                  />
+                  {hasWorkHistory ? (
+                    <>
+                      <Input
+                        key="derived"
+                        id="experience_years"
+                        type="number"
+                        value={profile.experience_years ?? ""}
+                        disabled
+                      />
+                      <p className="text-xs text-muted-foreground">Calculated from your work history</p>
+                    </>
+                  ) : (
+                    <Input
+                      key="manual"
+                      id="experience_years"
+                      name="experience_years"
+                      type="number"
+                      min="0"
+                      defaultValue={profile.experience_years ?? ""}
+                    />
+                  )}
                 </div>
               )}
 
@@ -261,71 +483,36 @@ const Profile = () => {
               </div>
 
               {profile.role === "job_seeker" && (
-                <>
-                  <div className="space-y-2">
-                    <Label>Skills</Label>
-                    <div className="flex gap-2">
-                      <Input
-                        value={skillInput}
-                        onChange={(e) => setSkillInput(e.target.value)}
-                        placeholder="Add a skill"
-                        onKeyPress={(e) => e.key === "Enter" && (e.preventDefault(), addSkill())}
-                      />
-                      <Button type="button" onClick={addSkill}>Add</Button>
-                    </div>
-                    <div className="flex flex-wrap gap-2 mt-2">
-                      {(profile.skills || []).map((skill, index) => (
-                        <div
-                          key={index}
-                          className="bg-secondary px-3 py-1 rounded-full text-sm flex items-center gap-2"
-                        >
-                          {skill}
-                          <button
-                            type="button"
-                            onClick={() => removeSkill(skill)}
-                            className="text-muted-foreground hover:text-foreground"
-                          >
-                            ×
-                          </button>
-                        </div>
-                      ))}
-                    </div>
+                <div className="space-y-2">
+                  <Label htmlFor="skills">Skills</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="skills"
+                      value={skillInput}
+                      onChange={(e) => setSkillInput(e.target.value)}
+                      placeholder="Add a skill"
+                      onKeyPress={(e) => e.key === "Enter" && (e.preventDefault(), addSkill())}
+                    />
+                    <Button type="button" onClick={addSkill}>Add</Button>
                   </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="resume">Resume</Label>
-                    <div className="flex items-center gap-4">
-                      <Input
-                        id="resume"
-                        type="file"
-                        accept=".pdf,.doc,.docx"
-                        onChange={handleResumeUpload}
-                        disabled={uploading}
-                        className="hidden"
-                      />
-                      <Button
-                        type="button"
-                        variant="outline"
-                        onClick={() => document.getElementById("resume")?.click()}
-                        disabled={uploading}
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {(profile.skills || []).map((skill, index) => (
+                      <div
+                        key={index}
+                        className="bg-secondary px-3 py-1 rounded-full text-sm flex items-center gap-2"
                       >
-                        <Upload className="mr-2 h-4 w-4" />
-                        {uploading ? "Uploading..." : "Upload Resume"}
-                      </Button>
-                      {profile.resume_url && (
-                        <a
-                          href={profile.resume_url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-sm text-primary hover:underline flex items-center gap-1"
+                        {skill}
+                        <button
+                          type="button"
+                          onClick={() => removeSkill(skill)}
+                          className="text-muted-foreground hover:text-foreground"
                         >
-                          <FileText className="h-4 w-4" />
-                          View Current Resume
-                        </a>
-                      )}
-                    </div>
+                          ×
+                        </button>
+                      </div>
+                    ))}
                   </div>
-                </>
+                </div>
               )}
 
               <div className="flex gap-4 pt-4">
@@ -339,6 +526,131 @@ const Profile = () => {
             </CardContent>
           </Card>
         </form>
+
+        {profile.role === "job_seeker" && (
+          <Card id="resume-section" className="border-2 mt-8 scroll-mt-20">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5 text-primary" />
+                Resumes
+              </CardTitle>
+              <CardDescription>
+                Keep a version for each kind of role. Your default is preselected when you apply.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResumeManager
+                userId={profile.id}
+                onDefaultChange={handleDefaultResumeChange}
+                onAnalyze={setResumeToParse}
+              />
+              <ResumeSuggestionsDialog
+                open={resumeToParse !== null}
+                onOpenChange={(open) => !open && setResumeToParse(null)}
+                resume={resumeToParse}
+                current={profile}
+                derivedExperience={hasWorkHistory}
+                onApply={applyResumeSuggestions}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {profile.role === "job_seeker" && (
+          <Card id="json-resume" className="border-2 mt-8 scroll-mt-20">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileJson className="h-5 w-5 text-primary" />
+                JSON Resume
+              </CardTitle>
+              <CardDescription>
+                Bring in your details from a JSON Resume file, or download your profile as one
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <JsonResumeTransfer profile={profile} onImported={handleJsonResumeImported} />
+            </CardContent>
+          </Card>
+        )}
+
+        {profile.role === "job_seeker" &&
+          HISTORY_SECTIONS.map((section) => (
+            <ProfileHistorySection
+              key={`${section.table}-${formKey}`}
+              section={section}
+              userId={profile.id}
+              onEntriesChange={section === WORK_EXPERIENCE_SECTION ? handleWorkHistoryChange : undefined}
+            />
+          ))}
+
+        {profile.role === "job_seeker" && (
+          <Card id="career-goals" className="border-2 mt-8 scroll-mt-20">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Target className="h-5 w-5 text-primary" />
+                Career Goals
+              </CardTitle>
+              <CardDescription>
+                Pick the roles you're aiming for and we'll suggest which skills to learn first
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-start justify-between gap-4 rounded-lg border p-4">
+                <div className="space-y-1">
+                  <Label htmlFor="open_to_opportunities">Open to opportunities</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Let recruiters find your name, email, location, bio, skills and experience when searching for
+                    candidates. Recruiters you've applied to can always see your profile.
+                  </p>
+                </div>
+                <Switch
+                  id="open_to_opportunities"
+                  checked={profile.open_to_opportunities}
+                  onCheckedChange={updateOpenToOpportunities}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="target_role">Target Roles</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="target_role"
+                    value={roleInput}
+                    onChange={(e) => setRoleInput(e.target.value)}
+                    placeholder="e.g., Frontend Developer"
+                    onKeyPress={(e) => e.key === "Enter" && (e.preventDefault(), addTargetRole())}
+                  />
+                  <Button type="button" onClick={addTargetRole}>Add</Button>
+                </div>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {(profile.target_roles || []).map((role) => (
+                    <div
+                      key={role}
+                      className="bg-secondary px-3 py-1 rounded-full text-sm flex items-center gap-2"
+                    >
+                      {role}
+                      <button
+                        type="button"
+                        onClick={() => removeTargetRole(role)}
+                        className="text-muted-foreground hover:text-foreground"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">Skills to Learn</h4>
+                <LearningRoadmap
+                  skills={profile.skills || []}
+                  targetRoles={profile.target_roles || []}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Navigation } from "@/components/Navigation";
+import { ApplyDialog } from "@/components/ApplyDialog";
+import { SavedJobCard } from "@/components/SavedJobCard";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { sortSavedJobs, type SavedJob, type SavedJobWithJob } from "@/lib/savedJobs";
+import { toast } from "sonner";
+
+const SavedJobs = () => {
+  const navigate = useNavigate();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [savedJobs, setSavedJobs] = useState<SavedJobWithJob[]>([]);
+  const [appliedJobIds, setAppliedJobIds] = useState<Set<string>>(new Set());
+  const [applyingTo, setApplyingTo] = useState<SavedJobWithJob | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    checkUserAndFetch();
+  }, []);
+
+  const checkUserAndFetch = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+
+      setUserId(session.user.id);
+
+      const [savedResult, applicationsResult] = await Promise.all([
+        supabase
+          .from("saved_jobs")
+          .select("*, jobs(id, title, company_name, location, job_type, status)")
+          .eq("user_id", session.user.id)
+          .order("saved_at", { ascending: false }),
+        supabase.from("applications").select("job_id").eq("applicant_id", session.user.id),
+      ]);
+
+      if (savedResult.error) throw savedResult.error;
+      if (applicationsResult.error) throw applicationsResult.error;
+
+      setSavedJobs(savedResult.data || []);
+      setAppliedJobIds(new Set((applicationsResult.data || []).map((application) => application.job_id)));
+    } catch (error) {
+      toast.error("Failed to load saved jobs");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const unsaveJob = async (savedJob: SavedJobWithJob) => {
+    const { error } = await supabase.from("saved_jobs").delete().eq("id", savedJob.id);
+
+    if (error) {
+      toast.error("Failed to remove saved job");
+      return;
+    }
+    setSavedJobs(savedJobs.filter((item) => item.id !== savedJob.id));
+    toast.success("Job removed from saved");
+  };
+
+  const handleUpdated = (id: string, updates: Partial<SavedJob>) => {
+    setSavedJobs((current) => current.map((item) => (item.id === id ? { ...item, ...updates } : item)));
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="container mx-auto px-4 py-12">
+          <p className="text-center text-muted-foreground">Loading saved jobs...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold mb-2">Saved Jobs</h1>
+          <p className="text-muted-foreground">
+            Keep notes on the jobs you're considering and set a date to apply by
+          </p>
+        </div>
+
+        {savedJobs.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center space-y-4">
+              <p className="text-muted-foreground">
+                You haven't saved any jobs yet. Use the bookmark on the jobs page.
+              </p>
+              <Button onClick={() => navigate("/jobs")}>Browse Jobs</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {sortSavedJobs(savedJobs).map((savedJob) => (
+              <SavedJobCard
+                key={savedJob.id}
+                savedJob={savedJob}
+                applied={appliedJobIds.has(savedJob.job_id)}
+                onApply={setApplyingTo}
+                onUnsave={unsaveJob}
+                onUpdated={handleUpdated}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      {userId && applyingTo?.jobs && (
+        <ApplyDialog
+          open
+          onOpenChange={(open) => !open && setApplyingTo(null)}
+          jobId={applyingTo.jobs.id}
+          jobTitle={applyingTo.jobs.title}
+          userId={userId}
+          onApplied={() => setAppliedJobIds(new Set(appliedJobIds).add(applyingTo.job_id))}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SavedJobs;
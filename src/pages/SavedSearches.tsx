@@ -0,0 +1,267 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Navigation } from "@/components/Navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { writeJobFilters } from "@/lib/jobFilters";
+import {
+  DIGEST_FREQUENCY_LABELS,
+  describeFilters,
+  fromStoredFilters,
+  type DigestFrequency,
+  type SavedSearch,
+} from "@/lib/savedSearches";
+import { toast } from "sonner";
+import { Bell, CheckCheck, Search, Trash2 } from "lucide-react";
+
+interface JobAlert {
+  id: string;
+  saved_search_id: string;
+  created_at: string | null;
+  read_at: string | null;
+  jobs: { id: string; title: string; company_name: string; location: string } | null;
+  saved_searches: { name: string } | null;
+}
+
+const SavedSearches = () => {
+  const navigate = useNavigate();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [alerts, setAlerts] = useState<JobAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    checkUserAndFetch();
+  }, []);
+
+  const checkUserAndFetch = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+
+      const [searchesResult, alertsResult] = await Promise.all([
+        supabase
+          .from("saved_searches")
+          .select("*")
+          .eq("user_id", session.user.id)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("job_alerts")
+          .select("id, saved_search_id, created_at, read_at, jobs(id, title, company_name, location), saved_searches(name)")
+          .eq("user_id", session.user.id)
+          .order("created_at", { ascending: false })
+          .limit(50),
+      ]);
+
+      if (searchesResult.error) throw searchesResult.error;
+      if (alertsResult.error) throw alertsResult.error;
+
+      setSearches(searchesResult.data || []);
+      // Alerts for jobs that have since closed come back without their job
+      setAlerts((alertsResult.data || []).filter((alert) => alert.jobs));
+    } catch (error) {
+      toast.error("Failed to load saved searches");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFrequency = async (searchId: string, digestFrequency: DigestFrequency) => {
+    try {
+      const { error } = await supabase
+        .from("saved_searches")
+        .update({ digest_frequency: digestFrequency })
+        .eq("id", searchId);
+
+      if (error) throw error;
+
+      setSearches(
+        searches.map((search) =>
+          search.id === searchId ? { ...search, digest_frequency: digestFrequency } : search
+        )
+      );
+    } catch (error) {
+      toast.error("Failed to update alert settings");
+    }
+  };
+
+  const deleteSearch = async (searchId: string) => {
+    try {
+      const { error } = await supabase.from("saved_searches").delete().eq("id", searchId);
+
+      if (error) throw error;
+
+      setSearches(searches.filter((search) => search.id !== searchId));
+      // Alerts are removed with their search
+      setAlerts(alerts.filter((alert) => alert.saved_search_id !== searchId));
+      toast.success("Saved search deleted");
+    } catch (error) {
+      toast.error("Failed to delete saved search");
+    }
+  };
+
+  const markAlertsRead = async (alertIds: string[]) => {
+    if (alertIds.length === 0) return;
+    const readAt = new Date().toISOString();
+
+    const { error } = await supabase.from("job_alerts").update({ read_at: readAt }).in("id", alertIds);
+
+    if (error) {
+      toast.error("Failed to update alerts");
+    } else {
+      setAlerts(alerts.map((alert) => (alertIds.includes(alert.id) ? { ...alert, read_at: readAt } : alert)));
+    }
+  };
+
+  const runSearch = (search: SavedSearch) => {
+    const params = writeJobFilters(new URLSearchParams(), fromStoredFilters(search.filters));
+    navigate(`/jobs?${params.toString()}`);
+  };
+
+  const unreadAlerts = alerts.filter((alert) => !alert.read_at);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="container mx-auto px-4 py-12">
+          <p className="text-center text-muted-foreground">Loading saved searches...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold mb-2">Saved Searches & Alerts</h1>
+          <p className="text-muted-foreground">
+            New jobs matching your saved searches are collected here and in your email digest
+          </p>
+        </div>
+
+        <Card className="mb-8">
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Bell className="h-5 w-5 text-primary" />
+                  Job Alerts
+                  {unreadAlerts.length > 0 && <Badge>{unreadAlerts.length} new</Badge>}
+                </CardTitle>
+                <CardDescription>Recently posted jobs that match your searches</CardDescription>
+              </div>
+              {unreadAlerts.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => markAlertsRead(unreadAlerts.map((alert) => alert.id))}
+                >
+                  <CheckCheck className="mr-2 h-4 w-4" />
+                  Mark all as read
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {alerts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No alerts yet. We'll let you know when new jobs match your saved searches.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {alerts.map((alert) => (
+                  <Link
+                    key={alert.id}
+                    to={`/jobs/${alert.jobs?.id}`}
+                    onClick={() => !alert.read_at && markAlertsRead([alert.id])}
+                    className={`block rounded-md border p-3 transition-colors hover:bg-secondary/50 ${
+                      alert.read_at ? "" : "border-primary/50 bg-primary/5"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <p className="font-medium">{alert.jobs?.title}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {alert.jobs?.company_name} · {alert.jobs?.location}
+                        </p>
+                      </div>
+                      <Badge variant="outline" className="shrink-0">
+                        {alert.saved_searches?.name}
+                      </Badge>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <h2 className="text-2xl font-semibold mb-4">Saved Searches</h2>
+        {searches.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center space-y-4">
+              <p className="text-muted-foreground">
+                You haven't saved any searches yet. Use "Save search" on the jobs page.
+              </p>
+              <Button onClick={() => navigate("/jobs")}>Browse Jobs</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {searches.map((search) => (
+              <Card key={search.id} className="border-2">
+                <CardHeader>
+                  <CardTitle className="text-lg">{search.name}</CardTitle>
+                  <CardDescription>{describeFilters(fromStoredFilters(search.filters))}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Button variant="outline" onClick={() => runSearch(search)}>
+                      <Search className="mr-2 h-4 w-4" />
+                      Run search
+                    </Button>
+                    <Select
+                      value={search.digest_frequency}
+                      onValueChange={(value) => updateFrequency(search.id, value as DigestFrequency)}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(DIGEST_FREQUENCY_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="icon" onClick={() => deleteSearch(search.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SavedSearches;
@@ -0,0 +1,329 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Navigation } from "@/components/Navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { matchJob, normalizeSkill, type MatchableJob } from "@/lib/skillMatch";
+import {
+  CANDIDATES_PAGE_SIZE,
+  DEFAULT_CANDIDATE_FILTERS,
+  parseSkillList,
+  toSearchParams,
+  type Candidate,
+  type CandidateFilters,
+} from "@/lib/talentSearch";
+import { toast } from "sonner";
+import { Briefcase, Mail, MapPin, Search, Target } from "lucide-react";
+
+interface RankingJob extends MatchableJob {
+  id: string;
+  title: string;
+}
+
+const NO_JOB = "none";
+
+const TalentSearch = () => {
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [searching, setSearching] = useState(false);
+  const [jobs, setJobs] = useState<RankingJob[]>([]);
+  const [filters, setFilters] = useState<CandidateFilters>(DEFAULT_CANDIDATE_FILTERS);
+  // What the current results were searched with, so further pages match them
+  const [searched, setSearched] = useState<CandidateFilters>(DEFAULT_CANDIDATE_FILTERS);
+  const [skillsInput, setSkillsInput] = useState("");
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(0);
+
+  useEffect(() => {
+    checkUserAndFetchJobs();
+  }, []);
+
+  const checkUserAndFetchJobs = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("role")
+        .eq("id", session.user.id)
+        .single();
+
+      if (profile?.role !== "recruiter") {
+        toast.error("Only recruiters can access this page");
+        navigate("/dashboard");
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from("jobs")
+        .select("id, title, required_skills, experience_required")
+        .eq("recruiter_id", session.user.id)
+        .eq("status", "open")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setJobs(data || []);
+      await search(DEFAULT_CANDIDATE_FILTERS, 0, []);
+    } catch (error) {
+      toast.error("Failed to load talent search");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const search = async (nextFilters: CandidateFilters, nextPage: number, rankingSkills: string[]) => {
+    setSearching(true);
+    try {
+      const { data, error } = await supabase.rpc(
+        "search_candidates",
+        toSearchParams(nextFilters, rankingSkills, nextPage)
+      );
+
+      if (error) throw error;
+
+      const rows = data || [];
+      setCandidates(nextPage === 0 ? rows : [...candidates, ...rows]);
+      setTotalCount(rows[0]?.total_count ?? (nextPage === 0 ? 0 : totalCount));
+      setPage(nextPage);
+      setSearched(nextFilters);
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to search candidates");
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const rankingJob = jobs.find((job) => job.id === filters.jobId) ?? null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const nextFilters = { ...filters, skills: parseSkillList(skillsInput) };
+    setFilters(nextFilters);
+    search(nextFilters, 0, rankingJob?.required_skills ?? []);
+  };
+
+  const chooseRankingJob = (value: string) => {
+    const job = jobs.find((item) => item.id === value) ?? null;
+    const nextFilters = { ...filters, jobId: job?.id ?? null };
+    setFilters(nextFilters);
+    search(nextFilters, 0, job?.required_skills ?? []);
+  };
+
+  const parseYears = (value: string) => (value === "" ? null : Math.max(0, Number(value)));
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="container mx-auto px-4 py-12">
+          <p className="text-center text-muted-foreground">Loading talent search...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold mb-2">Find Candidates</h1>
+          <p className="text-muted-foreground">
+            Search job seekers who are open to opportunities
+          </p>
+        </div>
+
+        <Card className="border-2 mb-8">
+          <CardContent className="pt-6">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="candidate-skills">Skills</Label>
+                  <Input
+                    id="candidate-skills"
+                    value={skillsInput}
+                    onChange={(e) => setSkillsInput(e.target.value)}
+                    placeholder="e.g. React, TypeScript, PostgreSQL"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="candidate-keywords">Keywords in bio</Label>
+                  <Input
+                    id="candidate-keywords"
+                    value={filters.keywords}
+                    onChange={(e) => setFilters({ ...filters, keywords: e.target.value })}
+                    placeholder="e.g. fintech startup"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="candidate-location">Location</Label>
+                  <Input
+                    id="candidate-location"
+                    value={filters.location}
+                    onChange={(e) => setFilters({ ...filters, location: e.target.value })}
+                    placeholder="e.g. Berlin"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="candidate-experience-min">Years of experience</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id="candidate-experience-min"
+                      type="number"
+                      min={0}
+                      value={filters.experienceMin ?? ""}
+                      onChange={(e) => setFilters({ ...filters, experienceMin: parseYears(e.target.value) })}
+                      placeholder="Min"
+                    />
+                    <span className="text-muted-foreground">to</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={filters.experienceMax ?? ""}
+                      onChange={(e) => setFilters({ ...filters, experienceMax: parseYears(e.target.value) })}
+                      placeholder="Max"
+                      aria-label="Maximum years of experience"
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-end justify-between gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="candidate-job">Rank by fit for</Label>
+                  <Select value={filters.jobId ?? NO_JOB} onValueChange={chooseRankingJob}>
+                    <SelectTrigger id="candidate-job" className="w-72">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_JOB}>No job selected</SelectItem>
+                      {jobs.map((job) => (
+                        <SelectItem key={job.id} value={job.id}>
+                          {job.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button type="submit" disabled={searching}>
+                  <Search className="mr-2 h-4 w-4" />
+                  {searching ? "Searching..." : "Search"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <p className="text-sm text-muted-foreground mb-4">
+          {totalCount} candidate{totalCount === 1 ? "" : "s"}
+          {rankingJob && `, best fit for ${rankingJob.title} first`}
+        </p>
+
+        {candidates.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">
+                No candidates match. Only job seekers who turned on "Open to opportunities" can be found.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {candidates.map((candidate) => {
+              const match = rankingJob ? matchJob(candidate, rankingJob) : null;
+              const matchedSkills = new Set(match?.matchedSkills.map(normalizeSkill));
+              return (
+                <Card key={candidate.id} className="border-2">
+                  <CardHeader>
+                    <div className="flex justify-between items-start gap-4">
+                      <div className="space-y-2">
+                        <CardTitle className="text-xl">{candidate.full_name}</CardTitle>
+                        <CardDescription className="flex flex-wrap items-center gap-4">
+                          {candidate.location && (
+                            <span className="flex items-center gap-1">
+                              <MapPin className="h-4 w-4" />
+                              {candidate.location}
+                            </span>
+                          )}
+                          <span className="flex items-center gap-1">
+                            <Briefcase className="h-4 w-4" />
+                            {candidate.experience_years ?? 0} years experience
+                          </span>
+                        </CardDescription>
+                      </div>
+                      {match && (
+                        <Badge variant={match.score >= 70 ? "default" : "secondary"} className="shrink-0">
+                          <Target className="mr-1 h-3 w-3" />
+                          {match.score}% fit
+                        </Badge>
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {candidate.target_roles?.length > 0 && (
+                      <p className="text-sm">
+                        <span className="font-medium">Looking for:</span> {candidate.target_roles.join(", ")}
+                      </p>
+                    )}
+                    {candidate.bio && <p className="text-sm text-muted-foreground line-clamp-3">{candidate.bio}</p>}
+                    {candidate.skills?.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {candidate.skills.map((skill) => (
+                          <Badge key={skill} variant={matchedSkills.has(normalizeSkill(skill)) ? "default" : "secondary"}>
+                            {skill}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    {match && match.missingSkills.length > 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        Missing for {rankingJob.title}: {match.missingSkills.join(", ")}
+                      </p>
+                    )}
+                    <Button variant="outline" asChild>
+                      <a href={`mailto:${candidate.email}`}>
+                        <Mail className="mr-2 h-4 w-4" />
+                        Contact
+                      </a>
+                    </Button>
+                  </CardContent>
+                </Card>
+              );
+            })}
+
+            {candidates.length < totalCount && (
+              <div className="flex justify-center">
+                <Button
+                  variant="outline"
+                  onClick={() => search(searched, page + 1, rankingJob?.required_skills ?? [])}
+                  disabled={searching}
+                >
+                  {searching ? "Loading..." : `Show ${Math.min(CANDIDATES_PAGE_SIZE, totalCount - candidates.length)} more`}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TalentSearch;
@@ -0,0 +1,71 @@
+// Pluggable outgoing mail for edge functions.
+//
+// MAILER selects the transport:
+//   log  (default) prints messages to the function logs, for development
+//   smtp           sends through SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASSWORD.
+//                  Locally, point it at the Inbucket server bundled with
+//                  `supabase start` (host "inbucket", port 2500) and read the
+//                  mail in its web UI.
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "SkillSync <no-reply@skillsync.local>";
+
+class LogMailer implements Mailer {
+  async send(message: MailMessage) {
+    console.log(`[mailer] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  }
+}
+
+class SmtpMailer implements Mailer {
+  constructor(private from: string) {}
+
+  async send(message: MailMessage) {
+    const username = Deno.env.get("SMTP_USER");
+    const client = new SMTPClient({
+      connection: {
+        hostname: Deno.env.get("SMTP_HOST") ?? "inbucket",
+        port: Number(Deno.env.get("SMTP_PORT") ?? 2500),
+        tls: Deno.env.get("SMTP_TLS") === "true",
+        ...(username && {
+          auth: { username, password: Deno.env.get("SMTP_PASSWORD") ?? "" },
+        }),
+      },
+    });
+
+    try {
+      await client.send({
+        from: this.from,
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      });
+    } finally {
+      await client.close();
+    }
+  }
+}
+
+export const createMailer = (): Mailer => {
+  const from = Deno.env.get("MAIL_FROM") ?? DEFAULT_FROM;
+
+  switch (Deno.env.get("MAILER") ?? "log") {
+    case "smtp":
+      return new SmtpMailer(from);
+    case "log":
+      return new LogMailer();
+    default:
+      throw new Error(`Unknown MAILER "${Deno.env.get("MAILER")}"`);
+  }
+};
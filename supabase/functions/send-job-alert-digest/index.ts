@@ -0,0 +1,136 @@
+// Emails each user a digest of the job alerts collected since their last one.
+//
+// Invoked with a service role key and a body of {"frequency": "daily"} or
+// {"frequency": "weekly"}. The pg_cron schedules that call it are created by
+// migration 20251224094000, which reads the project URL and key from the
+// "project_url" and "service_role_key" Vault secrets; create those once per
+// project or the scheduled runs fail.
+//
+// Mail goes through the transport chosen by MAILER; see ../_shared/mailer.ts.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createMailer, type MailMessage } from "../_shared/mailer.ts";
+
+interface PendingAlert {
+  id: string;
+  user_id: string;
+  saved_searches: { name: string; digest_frequency: string };
+  jobs: { id: string; title: string; company_name: string; location: string; status: string };
+  profiles: { email: string; full_name: string };
+}
+
+const FREQUENCIES = ["daily", "weekly"];
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const buildDigest = (alerts: PendingAlert[], appUrl: string): MailMessage => {
+  const { email, full_name } = alerts[0].profiles;
+  const bySearch = new Map<string, PendingAlert[]>();
+  alerts.forEach((alert) => {
+    const name = alert.saved_searches.name;
+    bySearch.set(name, [...(bySearch.get(name) ?? []), alert]);
+  });
+
+  const text = [
+    `Hi ${full_name},`,
+    "",
+    `${alerts.length} new job${alerts.length === 1 ? "" : "s"} match your saved searches.`,
+    ...Array.from(bySearch, ([name, searchAlerts]) => [
+      "",
+      `${name}:`,
+      ...searchAlerts.map(
+        ({ jobs }) => `- ${jobs.title} at ${jobs.company_name} (${jobs.location}): ${appUrl}/jobs/${jobs.id}`
+      ),
+    ]).flat(),
+    "",
+    `Manage your alerts: ${appUrl}/saved-searches`,
+  ].join("\n");
+
+  const html = `
+    <p>Hi ${escapeHtml(full_name)},</p>
+    <p>${alerts.length} new job${alerts.length === 1 ? "" : "s"} match your saved searches.</p>
+    ${Array.from(bySearch, ([name, searchAlerts]) => `
+      <h3>${escapeHtml(name)}</h3>
+      <ul>
+        ${searchAlerts
+          .map(
+            ({ jobs }) =>
+              `<li><a href="${appUrl}/jobs/${jobs.id}">${escapeHtml(jobs.title)}</a> at ${escapeHtml(
+                jobs.company_name
+              )} (${escapeHtml(jobs.location)})</li>`
+          )
+          .join("")}
+      </ul>`).join("")}
+    <p><a href="${appUrl}/saved-searches">Manage your alerts</a></p>
+  `;
+
+  return {
+    to: email,
+    subject: `${alerts.length} new job${alerts.length === 1 ? "" : "s"} matching your searches`,
+    text,
+    html,
+  };
+};
+
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const { frequency } = await req.json().catch(() => ({}));
+  if (!FREQUENCIES.includes(frequency)) {
+    return new Response(`frequency must be one of ${FREQUENCIES.join(", ")}`, { status: 400 });
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+  const appUrl = (Deno.env.get("APP_URL") ?? "http://localhost:8080").replace(/\/$/, "");
+  const mailer = createMailer();
+
+  const { data, error } = await supabase
+    .from("job_alerts")
+    .select(`
+      id,
+      user_id,
+      saved_searches!inner(name, digest_frequency),
+      jobs!inner(id, title, company_name, location, status),
+      profiles!inner(email, full_name)
+    `)
+    .is("emailed_at", null)
+    .eq("saved_searches.digest_frequency", frequency);
+
+  if (error) {
+    console.error(error);
+    return new Response("Failed to load alerts", { status: 500 });
+  }
+
+  const byUser = new Map<string, PendingAlert[]>();
+  (data as unknown as PendingAlert[]).forEach((alert) => {
+    byUser.set(alert.user_id, [...(byUser.get(alert.user_id) ?? []), alert]);
+  });
+
+  let sent = 0;
+  for (const alerts of byUser.values()) {
+    // Jobs closed since the alert was raised are left out but still marked as handled
+    const openAlerts = alerts.filter((alert) => alert.jobs.status === "open");
+
+    try {
+      if (openAlerts.length > 0) {
+        await mailer.send(buildDigest(openAlerts, appUrl));
+        sent++;
+      }
+
+      const { error: updateError } = await supabase
+        .from("job_alerts")
+        .update({ emailed_at: new Date().toISOString() })
+        .in("id", alerts.map((alert) => alert.id));
+
+      if (updateError) throw updateError;
+    } catch (sendError) {
+      // Leave the alerts pending so the next run retries them
+      console.error(`Failed to send digest to ${alerts[0].profiles.email}`, sendError);
+    }
+  }
+
+  return Response.json({ frequency, users: byUser.size, sent });
+});
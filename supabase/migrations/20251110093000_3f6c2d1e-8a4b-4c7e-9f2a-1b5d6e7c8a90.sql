@@ -0,0 +1,2 @@
+-- Roles a job seeker is aiming for, used to build their learning roadmap
+ALTER TABLE profiles ADD COLUMN target_roles TEXT[];
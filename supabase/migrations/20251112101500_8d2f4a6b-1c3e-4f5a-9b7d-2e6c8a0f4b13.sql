@@ -0,0 +1,55 @@
+-- Create application status history table
+CREATE TABLE application_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  from_status application_status,
+  to_status application_status NOT NULL,
+  changed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE application_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger below, so there are no insert/update policies
+CREATE POLICY "Applicants and recruiters can view status history"
+  ON application_status_history FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM applications
+      JOIN jobs ON jobs.id = applications.job_id
+      WHERE applications.id = application_status_history.application_id
+      AND (applications.applicant_id = auth.uid() OR jobs.recruiter_id = auth.uid())
+    )
+  );
+
+-- Record every status change together with who made it
+CREATE OR REPLACE FUNCTION log_application_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.application_status_history (application_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, NULL, NEW.status, COALESCE(auth.uid(), NEW.applicant_id));
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.application_status_history (application_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, OLD.status, NEW.status, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_application_status_insert
+  AFTER INSERT ON applications
+  FOR EACH ROW EXECUTE FUNCTION log_application_status_change();
+
+CREATE TRIGGER log_application_status_update
+  AFTER UPDATE OF status ON applications
+  FOR EACH ROW EXECUTE FUNCTION log_application_status_change();
+
+-- Seed history for applications created before this migration
+INSERT INTO application_status_history (application_id, from_status, to_status, changed_by, changed_at)
+SELECT id, NULL, status, applicant_id, COALESCE(applied_at, NOW())
+FROM applications;
+
+CREATE INDEX idx_application_status_history_application_id
+  ON application_status_history(application_id);
@@ -0,0 +1,247 @@
+-- Terminal outcome a hiring stage maps to; NULL means the stage is still in progress
+CREATE TYPE stage_outcome AS ENUM ('hired', 'rejected', 'withdrawn');
+
+-- Reusable, recruiter-owned lists of stages
+CREATE TABLE hiring_stage_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recruiter_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Ordered array of { "name": text, "outcome": stage_outcome | null }
+  stages JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Ordered stages of a single job
+CREATE TABLE job_stages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  outcome stage_outcome,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE applications ADD COLUMN stage_id UUID REFERENCES job_stages(id) ON DELETE SET NULL;
+
+ALTER TABLE application_status_history
+  ADD COLUMN from_stage_id UUID REFERENCES job_stages(id) ON DELETE SET NULL,
+  ADD COLUMN to_stage_id UUID REFERENCES job_stages(id) ON DELETE SET NULL;
+
+ALTER TABLE hiring_stage_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_stages ENABLE ROW LEVEL SECURITY;
+
+-- Hiring stage template policies
+CREATE POLICY "Recruiters can view own stage templates"
+  ON hiring_stage_templates FOR SELECT
+  USING (recruiter_id = auth.uid());
+
+CREATE POLICY "Recruiters can create stage templates"
+  ON hiring_stage_templates FOR INSERT
+  WITH CHECK (
+    recruiter_id = auth.uid() AND
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'recruiter')
+  );
+
+CREATE POLICY "Recruiters can update own stage templates"
+  ON hiring_stage_templates FOR UPDATE
+  USING (recruiter_id = auth.uid());
+
+CREATE POLICY "Recruiters can delete own stage templates"
+  ON hiring_stage_templates FOR DELETE
+  USING (recruiter_id = auth.uid());
+
+-- Job stage policies: visible wherever the job itself is visible
+CREATE POLICY "Users can view stages of visible jobs"
+  ON job_stages FOR SELECT
+  USING (EXISTS (SELECT 1 FROM jobs WHERE jobs.id = job_stages.job_id));
+
+CREATE POLICY "Recruiters can create stages for own jobs"
+  ON job_stages FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM jobs WHERE jobs.id = job_stages.job_id AND jobs.recruiter_id = auth.uid()));
+
+CREATE POLICY "Recruiters can update stages of own jobs"
+  ON job_stages FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM jobs WHERE jobs.id = job_stages.job_id AND jobs.recruiter_id = auth.uid()));
+
+CREATE POLICY "Recruiters can delete stages of own jobs"
+  ON job_stages FOR DELETE
+  USING (EXISTS (SELECT 1 FROM jobs WHERE jobs.id = job_stages.job_id AND jobs.recruiter_id = auth.uid()));
+
+-- Give every new job the stages that mirror the original application_status enum
+CREATE OR REPLACE FUNCTION create_default_job_stages()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.job_stages (job_id, name, position, outcome)
+  VALUES
+    (NEW.id, 'Applied', 0, NULL),
+    (NEW.id, 'Viewed', 1, NULL),
+    (NEW.id, 'Shortlisted', 2, NULL),
+    (NEW.id, 'Hired', 3, 'hired'),
+    (NEW.id, 'Rejected', 4, 'rejected');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER create_job_stages_on_insert
+  AFTER INSERT ON jobs
+  FOR EACH ROW EXECUTE FUNCTION create_default_job_stages();
+
+-- Backfill stages for existing jobs and place applications in the matching stage
+INSERT INTO job_stages (job_id, name, position, outcome)
+SELECT jobs.id, defaults.name, defaults.position, defaults.outcome::stage_outcome
+FROM jobs
+CROSS JOIN (
+  VALUES
+    ('Applied', 0, NULL),
+    ('Viewed', 1, NULL),
+    ('Shortlisted', 2, NULL),
+    ('Hired', 3, 'hired'),
+    ('Rejected', 4, 'rejected')
+) AS defaults(name, position, outcome);
+
+UPDATE applications
+SET stage_id = job_stages.id
+FROM job_stages
+WHERE job_stages.job_id = applications.job_id
+AND lower(job_stages.name) = applications.status::text;
+
+-- Keep applications.status as the coarse outcome of the current stage so that
+-- code which only understands the enum keeps working
+CREATE OR REPLACE FUNCTION sync_application_stage()
+RETURNS TRIGGER AS $$
+DECLARE
+  stage public.job_stages%ROWTYPE;
+  first_position INTEGER;
+BEGIN
+  IF NEW.stage_id IS NULL THEN
+    SELECT * INTO stage FROM public.job_stages
+    WHERE job_id = NEW.job_id
+    ORDER BY position
+    LIMIT 1;
+    NEW.stage_id := stage.id;
+  ELSE
+    SELECT * INTO stage FROM public.job_stages WHERE id = NEW.stage_id;
+  END IF;
+
+  IF stage.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF stage.job_id <> NEW.job_id THEN
+    RAISE EXCEPTION 'Stage % does not belong to job %', stage.id, NEW.job_id;
+  END IF;
+
+  SELECT MIN(position) INTO first_position FROM public.job_stages WHERE job_id = NEW.job_id;
+
+  NEW.status := CASE
+    WHEN stage.outcome = 'hired' THEN 'hired'
+    WHEN stage.outcome IN ('rejected', 'withdrawn') THEN 'rejected'
+    WHEN stage.position = first_position THEN 'applied'
+    WHEN lower(stage.name) = 'viewed' THEN 'viewed'
+    ELSE 'shortlisted'
+  END::public.application_status;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_application_stage_insert
+  BEFORE INSERT ON applications
+  FOR EACH ROW EXECUTE FUNCTION sync_application_stage();
+
+CREATE TRIGGER sync_application_stage_update
+  BEFORE UPDATE OF stage_id ON applications
+  FOR EACH ROW EXECUTE FUNCTION sync_application_stage();
+
+-- Log stage moves alongside status changes
+CREATE OR REPLACE FUNCTION log_application_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.application_status_history
+      (application_id, from_status, to_status, from_stage_id, to_stage_id, changed_by)
+    VALUES (NEW.id, NULL, NEW.status, NULL, NEW.stage_id, COALESCE(auth.uid(), NEW.applicant_id));
+  ELSIF NEW.status IS DISTINCT FROM OLD.status OR NEW.stage_id IS DISTINCT FROM OLD.stage_id THEN
+    INSERT INTO public.application_status_history
+      (application_id, from_status, to_status, from_stage_id, to_stage_id, changed_by)
+    VALUES (NEW.id, OLD.status, NEW.status, OLD.stage_id, NEW.stage_id, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER log_application_status_update ON applications;
+
+CREATE TRIGGER log_application_status_update
+  AFTER UPDATE OF status, stage_id ON applications
+  FOR EACH ROW EXECUTE FUNCTION log_application_status_change();
+
+UPDATE application_status_history
+SET to_stage_id = applications.stage_id
+FROM applications
+WHERE applications.id = application_status_history.application_id
+AND application_status_history.from_status IS NULL;
+
+-- Replace a job's stages in one call. Stages with an "id" are updated in place,
+-- the rest are created, and stages left out are removed after moving their
+-- applications to the first stage.
+CREATE OR REPLACE FUNCTION set_job_stages(p_job_id UUID, p_stages JSONB)
+RETURNS SETOF job_stages AS $$
+DECLARE
+  stage JSONB;
+  stage_position INTEGER := 0;
+  saved_id UUID;
+  kept_ids UUID[] := '{}';
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM jobs WHERE id = p_job_id AND recruiter_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the recruiter who posted this job can change its stages';
+  END IF;
+
+  IF jsonb_array_length(p_stages) = 0 THEN
+    RAISE EXCEPTION 'A job needs at least one stage';
+  END IF;
+
+  IF p_stages->0->>'outcome' IS NOT NULL THEN
+    RAISE EXCEPTION 'The first stage cannot be a final outcome';
+  END IF;
+
+  FOR stage IN SELECT * FROM jsonb_array_elements(p_stages) LOOP
+    saved_id := NULL;
+
+    IF stage->>'id' IS NOT NULL THEN
+      UPDATE job_stages
+      SET name = stage->>'name',
+          position = stage_position,
+          outcome = (stage->>'outcome')::stage_outcome
+      WHERE id = (stage->>'id')::UUID AND job_id = p_job_id
+      RETURNING id INTO saved_id;
+    END IF;
+
+    IF saved_id IS NULL THEN
+      INSERT INTO job_stages (job_id, name, position, outcome)
+      VALUES (p_job_id, stage->>'name', stage_position, (stage->>'outcome')::stage_outcome)
+      RETURNING id INTO saved_id;
+    END IF;
+
+    kept_ids := kept_ids || saved_id;
+    stage_position := stage_position + 1;
+  END LOOP;
+
+  UPDATE applications
+  SET stage_id = kept_ids[1]
+  WHERE job_id = p_job_id
+  AND (stage_id IS NULL OR NOT stage_id = ANY(kept_ids));
+
+  DELETE FROM job_stages WHERE job_id = p_job_id AND NOT id = ANY(kept_ids);
+
+  RETURN QUERY SELECT * FROM job_stages WHERE job_id = p_job_id ORDER BY position;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_hiring_stage_templates_updated_at BEFORE UPDATE ON hiring_stage_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX idx_job_stages_job_id ON job_stages(job_id);
+CREATE INDEX idx_applications_stage_id ON applications(stage_id);
+CREATE INDEX idx_hiring_stage_templates_recruiter_id ON hiring_stage_templates(recruiter_id);
@@ -0,0 +1,33 @@
+-- Helpers for policies on jobs. They bypass RLS so the jobs policy below
+-- does not recurse through the applications policy, which queries jobs.
+CREATE OR REPLACE FUNCTION has_applied_to_job(p_job_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.applications
+    WHERE job_id = p_job_id AND applicant_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_saved_job(p_job_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.saved_jobs
+    WHERE job_id = p_job_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Seekers keep seeing jobs they applied to or saved after they are paused or closed
+CREATE POLICY "Applicants and savers can view their jobs"
+  ON jobs FOR SELECT
+  USING (has_applied_to_job(id) OR has_saved_job(id));
+
+-- Paused and closed jobs stop accepting applications
+DROP POLICY "Job seekers can create applications" ON applications;
+
+CREATE POLICY "Job seekers can create applications"
+  ON applications FOR INSERT
+  WITH CHECK (
+    applicant_id = auth.uid() AND
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'job_seeker') AND
+    EXISTS (SELECT 1 FROM jobs WHERE jobs.id = applications.job_id AND jobs.status = 'open')
+  );
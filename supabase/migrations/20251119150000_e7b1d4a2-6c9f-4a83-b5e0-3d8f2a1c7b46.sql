@@ -0,0 +1,145 @@
+-- Create enums for screening questions
+CREATE TYPE screening_question_type AS ENUM ('text', 'yes_no', 'multiple_choice', 'numeric');
+CREATE TYPE knockout_action AS ENUM ('flag', 'reject');
+
+-- Questions a recruiter attaches to a job
+CREATE TABLE screening_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  prompt TEXT NOT NULL,
+  question_type screening_question_type NOT NULL,
+  -- Choices for multiple_choice questions
+  options TEXT[],
+  is_required BOOLEAN NOT NULL DEFAULT true,
+  is_knockout BOOLEAN NOT NULL DEFAULT false,
+  -- Answers that pass a yes_no or multiple_choice knockout
+  accepted_answers TEXT[],
+  -- Lowest answer that passes a numeric knockout
+  knockout_min NUMERIC,
+  knockout_action knockout_action NOT NULL DEFAULT 'flag',
+  position INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- A seeker's answers, one per question
+CREATE TABLE application_answers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES screening_questions(id) ON DELETE CASCADE,
+  answer TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(application_id, question_id)
+);
+
+-- Set when an answer fails a knockout question
+ALTER TABLE applications ADD COLUMN is_flagged BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE screening_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE application_answers ENABLE ROW LEVEL SECURITY;
+
+-- Screening question policies
+CREATE POLICY "Users can view questions of visible jobs"
+  ON screening_questions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM jobs WHERE jobs.id = screening_questions.job_id));
+
+CREATE POLICY "Recruiters can create questions for own jobs"
+  ON screening_questions FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM jobs WHERE jobs.id = screening_questions.job_id AND jobs.recruiter_id = auth.uid()));
+
+CREATE POLICY "Recruiters can update questions of own jobs"
+  ON screening_questions FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM jobs WHERE jobs.id = screening_questions.job_id AND jobs.recruiter_id = auth.uid()));
+
+CREATE POLICY "Recruiters can delete questions of own jobs"
+  ON screening_questions FOR DELETE
+  USING (EXISTS (SELECT 1 FROM jobs WHERE jobs.id = screening_questions.job_id AND jobs.recruiter_id = auth.uid()));
+
+-- Application answer policies
+CREATE POLICY "Applicants and recruiters can view answers"
+  ON application_answers FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM applications
+      JOIN jobs ON jobs.id = applications.job_id
+      WHERE applications.id = application_answers.application_id
+      AND (applications.applicant_id = auth.uid() OR jobs.recruiter_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Applicants can answer on own applications"
+  ON application_answers FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM applications
+      WHERE applications.id = application_answers.application_id
+      AND applications.applicant_id = auth.uid()
+    )
+  );
+
+-- Mirrors failsKnockout() in src/lib/screening.ts
+CREATE OR REPLACE FUNCTION screening_answer_fails(question screening_questions, answer TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF NOT question.is_knockout THEN
+    RETURN false;
+  END IF;
+
+  IF answer IS NULL OR btrim(answer) = '' THEN
+    RETURN true;
+  END IF;
+
+  CASE question.question_type
+    WHEN 'yes_no', 'multiple_choice' THEN
+      RETURN COALESCE(array_length(question.accepted_answers, 1), 0) > 0
+        AND NOT lower(btrim(answer)) = ANY(
+          SELECT lower(accepted) FROM unnest(question.accepted_answers) AS accepted
+        );
+    WHEN 'numeric' THEN
+      IF btrim(answer) !~ '^-?[0-9]+(\.[0-9]+)?$' THEN
+        RETURN true;
+      END IF;
+      RETURN question.knockout_min IS NOT NULL AND btrim(answer)::NUMERIC < question.knockout_min;
+    ELSE
+      RETURN false;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Flag, or move to the job's rejected stage, applications that fail a knockout
+CREATE OR REPLACE FUNCTION apply_screening_knockouts()
+RETURNS TRIGGER AS $$
+DECLARE
+  question public.screening_questions%ROWTYPE;
+  rejected_stage_id UUID;
+BEGIN
+  SELECT * INTO question FROM public.screening_questions WHERE id = NEW.question_id;
+
+  IF NOT public.screening_answer_fails(question, NEW.answer) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.applications SET is_flagged = true WHERE id = NEW.application_id;
+
+  IF question.knockout_action = 'reject' THEN
+    SELECT id INTO rejected_stage_id
+    FROM public.job_stages
+    WHERE job_id = question.job_id AND outcome = 'rejected'
+    ORDER BY position
+    LIMIT 1;
+
+    IF rejected_stage_id IS NOT NULL THEN
+      UPDATE public.applications SET stage_id = rejected_stage_id WHERE id = NEW.application_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_screening_knockouts_on_answer
+  AFTER INSERT ON application_answers
+  FOR EACH ROW EXECUTE FUNCTION apply_screening_knockouts();
+
+CREATE INDEX idx_screening_questions_job_id ON screening_questions(job_id);
+CREATE INDEX idx_application_answers_application_id ON application_answers(application_id);
@@ -0,0 +1,102 @@
+-- Full-text search over open jobs. Trigram matching on title and company
+-- keeps misspelled queries ("javscript", "gogle") finding results.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE jobs ADD COLUMN search_vector TSVECTOR;
+
+-- Title and skills weigh most, then company, then the description
+CREATE OR REPLACE FUNCTION job_search_vector(
+  p_title TEXT,
+  p_company_name TEXT,
+  p_description TEXT,
+  p_required_skills TEXT[]
+)
+RETURNS TSVECTOR AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(p_title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(p_required_skills, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(p_company_name, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(p_description, '')), 'D');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION update_job_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := job_search_vector(NEW.title, NEW.company_name, NEW.description, NEW.required_skills);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_jobs_search_vector
+  BEFORE INSERT OR UPDATE OF title, company_name, description, required_skills ON jobs
+  FOR EACH ROW EXECUTE FUNCTION update_job_search_vector();
+
+-- Backfill existing jobs without touching updated_at
+ALTER TABLE jobs DISABLE TRIGGER update_jobs_updated_at;
+UPDATE jobs SET search_vector = job_search_vector(title, company_name, description, required_skills);
+ALTER TABLE jobs ENABLE TRIGGER update_jobs_updated_at;
+
+CREATE INDEX idx_jobs_search_vector ON jobs USING GIN (search_vector);
+CREATE INDEX idx_jobs_title_trgm ON jobs USING GIN (title gin_trgm_ops);
+CREATE INDEX idx_jobs_company_name_trgm ON jobs USING GIN (company_name gin_trgm_ops);
+CREATE INDEX idx_jobs_open_created_at ON jobs (created_at DESC, id DESC) WHERE status = 'open';
+
+-- Searches open jobs, best matches first. Pages are keyset-paginated: pass the
+-- rank, created_at and id of the last row received to get the next page.
+-- With no query, or p_sort = 'newest', every rank is 0 and results are newest first.
+CREATE OR REPLACE FUNCTION search_jobs(
+  p_query TEXT DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_rank REAL DEFAULT NULL,
+  p_cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  company_name TEXT,
+  location TEXT,
+  job_type TEXT,
+  salary_min INTEGER,
+  salary_max INTEGER,
+  required_skills TEXT[],
+  experience_required INTEGER,
+  description TEXT,
+  created_at TIMESTAMPTZ,
+  rank REAL
+) AS $$
+  WITH params AS (
+    SELECT
+      nullif(trim(p_query), '') AS q,
+      websearch_to_tsquery('english', coalesce(p_query, '')) AS tsq,
+      nullif(trim(p_location), '') AS loc
+  ),
+  ranked AS (
+    SELECT
+      j.*,
+      CASE
+        WHEN p.q IS NULL OR p_sort = 'newest' THEN 0
+        ELSE ts_rank_cd(j.search_vector, p.tsq)
+          + 0.5 * greatest(word_similarity(p.q, j.title), word_similarity(p.q, j.company_name))
+      END::REAL AS rank
+    FROM jobs j, params p
+    WHERE j.status = 'open'
+      AND (
+        p.q IS NULL
+        OR j.search_vector @@ p.tsq
+        OR p.q <% j.title
+        OR p.q <% j.company_name
+      )
+      AND (p.loc IS NULL OR j.location ILIKE '%' || p.loc || '%')
+  )
+  SELECT
+    r.id, r.title, r.company_name, r.location, r.job_type, r.salary_min, r.salary_max,
+    r.required_skills, r.experience_required, r.description, r.created_at, r.rank
+  FROM ranked r
+  WHERE p_cursor_id IS NULL
+    OR (r.rank, r.created_at, r.id) < (p_cursor_rank, p_cursor_created_at, p_cursor_id)
+  ORDER BY r.rank DESC, r.created_at DESC, r.id DESC
+  LIMIT least(greatest(p_limit, 1), 100);
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
@@ -0,0 +1,139 @@
+-- Faceted job search: structured filters shared by search_jobs() and job_search_facets()
+
+DROP FUNCTION search_jobs(TEXT, TEXT, TEXT, INTEGER, REAL, TIMESTAMPTZ, UUID);
+
+-- Open jobs matching the query and filters. A NULL filter is not applied.
+-- Salary filters keep jobs whose advertised range overlaps the requested one.
+CREATE OR REPLACE FUNCTION filter_open_jobs(
+  p_query TEXT DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_job_types TEXT[] DEFAULT NULL,
+  p_salary_min INTEGER DEFAULT NULL,
+  p_salary_max INTEGER DEFAULT NULL,
+  p_experience_min INTEGER DEFAULT NULL,
+  p_experience_max INTEGER DEFAULT NULL,
+  p_posted_within_days INTEGER DEFAULT NULL
+)
+RETURNS SETOF jobs AS $$
+  SELECT j.*
+  FROM jobs j
+  WHERE j.status = 'open'
+    AND (
+      nullif(trim(p_query), '') IS NULL
+      OR j.search_vector @@ websearch_to_tsquery('english', p_query)
+      OR trim(p_query) <% j.title
+      OR trim(p_query) <% j.company_name
+    )
+    AND (nullif(trim(p_location), '') IS NULL OR j.location ILIKE '%' || trim(p_location) || '%')
+    AND (p_job_types IS NULL OR cardinality(p_job_types) = 0 OR j.job_type = ANY (p_job_types))
+    AND (p_salary_min IS NULL OR coalesce(j.salary_max, j.salary_min) >= p_salary_min)
+    AND (p_salary_max IS NULL OR coalesce(j.salary_min, j.salary_max) <= p_salary_max)
+    AND (p_experience_min IS NULL OR coalesce(j.experience_required, 0) >= p_experience_min)
+    AND (p_experience_max IS NULL OR coalesce(j.experience_required, 0) <= p_experience_max)
+    AND (p_posted_within_days IS NULL OR j.created_at >= now() - make_interval(days => p_posted_within_days));
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
+
+-- Searches open jobs, best matches first. Pages are keyset-paginated: pass the
+-- rank, created_at and id of the last row received to get the next page.
+-- With no query, or p_sort = 'newest', every rank is 0 and results are newest first.
+CREATE OR REPLACE FUNCTION search_jobs(
+  p_query TEXT DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_job_types TEXT[] DEFAULT NULL,
+  p_salary_min INTEGER DEFAULT NULL,
+  p_salary_max INTEGER DEFAULT NULL,
+  p_experience_min INTEGER DEFAULT NULL,
+  p_experience_max INTEGER DEFAULT NULL,
+  p_posted_within_days INTEGER DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 20,
+  p_cursor_rank REAL DEFAULT NULL,
+  p_cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  company_name TEXT,
+  location TEXT,
+  job_type TEXT,
+  salary_min INTEGER,
+  salary_max INTEGER,
+  required_skills TEXT[],
+  experience_required INTEGER,
+  description TEXT,
+  created_at TIMESTAMPTZ,
+  rank REAL
+) AS $$
+  WITH ranked AS (
+    SELECT
+      j.*,
+      CASE
+        WHEN nullif(trim(p_query), '') IS NULL OR p_sort = 'newest' THEN 0
+        ELSE ts_rank_cd(j.search_vector, websearch_to_tsquery('english', p_query))
+          + 0.5 * greatest(
+            word_similarity(trim(p_query), j.title),
+            word_similarity(trim(p_query), j.company_name)
+          )
+      END::REAL AS rank
+    FROM filter_open_jobs(
+      p_query, p_location, p_job_types, p_salary_min, p_salary_max,
+      p_experience_min, p_experience_max, p_posted_within_days
+    ) j
+  )
+  SELECT
+    r.id, r.title, r.company_name, r.location, r.job_type, r.salary_min, r.salary_max,
+    r.required_skills, r.experience_required, r.description, r.created_at, r.rank
+  FROM ranked r
+  WHERE p_cursor_id IS NULL
+    OR (r.rank, r.created_at, r.id) < (p_cursor_rank, p_cursor_created_at, p_cursor_id)
+  ORDER BY r.rank DESC, r.created_at DESC, r.id DESC
+  LIMIT least(greatest(p_limit, 1), 100);
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
+
+-- Counts per filter option. Each facet ignores its own filter so the counts
+-- show what selecting another option would return.
+CREATE OR REPLACE FUNCTION job_search_facets(
+  p_query TEXT DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_job_types TEXT[] DEFAULT NULL,
+  p_salary_min INTEGER DEFAULT NULL,
+  p_salary_max INTEGER DEFAULT NULL,
+  p_experience_min INTEGER DEFAULT NULL,
+  p_experience_max INTEGER DEFAULT NULL,
+  p_posted_within_days INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'total', (
+      SELECT count(*)
+      FROM filter_open_jobs(
+        p_query, p_location, p_job_types, p_salary_min, p_salary_max,
+        p_experience_min, p_experience_max, p_posted_within_days
+      )
+    ),
+    'job_types', (
+      SELECT coalesce(jsonb_object_agg(t.job_type, t.total), '{}'::jsonb)
+      FROM (
+        SELECT job_type, count(*) AS total
+        FROM filter_open_jobs(
+          p_query, p_location, NULL, p_salary_min, p_salary_max,
+          p_experience_min, p_experience_max, p_posted_within_days
+        )
+        GROUP BY job_type
+      ) t
+    ),
+    'posted_within', (
+      SELECT jsonb_build_object(
+        'any', count(*),
+        '1', count(*) FILTER (WHERE created_at >= now() - interval '1 day'),
+        '7', count(*) FILTER (WHERE created_at >= now() - interval '7 days'),
+        '30', count(*) FILTER (WHERE created_at >= now() - interval '30 days')
+      )
+      FROM filter_open_jobs(
+        p_query, p_location, p_job_types, p_salary_min, p_salary_max,
+        p_experience_min, p_experience_max, NULL
+      )
+    )
+  );
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
@@ -0,0 +1,118 @@
+-- Saved searches and the job alerts collected for them
+CREATE TYPE digest_frequency AS ENUM ('never', 'daily', 'weekly');
+
+-- filters holds the search terms and facets in the same shape as the
+-- search_jobs() arguments, without the p_ prefix
+CREATE TABLE saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  digest_frequency digest_frequency NOT NULL DEFAULT 'daily',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE job_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  read_at TIMESTAMP WITH TIME ZONE,
+  emailed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE(saved_search_id, job_id)
+);
+
+CREATE INDEX idx_saved_searches_user_id ON saved_searches(user_id);
+CREATE INDEX idx_job_alerts_user_id ON job_alerts(user_id, created_at DESC);
+CREATE INDEX idx_job_alerts_unemailed ON job_alerts(saved_search_id) WHERE emailed_at IS NULL;
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own saved searches"
+  ON saved_searches FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own saved searches"
+  ON saved_searches FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own saved searches"
+  ON saved_searches FOR UPDATE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own saved searches"
+  ON saved_searches FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Alerts are created by the trigger below; users can only read and dismiss them
+CREATE POLICY "Users can view own job alerts"
+  ON job_alerts FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update own job alerts"
+  ON job_alerts FOR UPDATE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own job alerts"
+  ON job_alerts FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Mirrors the predicates of filter_open_jobs() for a single job. The posting
+-- date filter is ignored: alerts are only raised for jobs as they are posted.
+CREATE OR REPLACE FUNCTION job_matches_search(p_job jobs, p_filters JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT
+    p_job.status = 'open'
+    AND (
+      nullif(trim(p_filters->>'query'), '') IS NULL
+      OR p_job.search_vector @@ websearch_to_tsquery('english', p_filters->>'query')
+      OR trim(p_filters->>'query') <% p_job.title
+      OR trim(p_filters->>'query') <% p_job.company_name
+    )
+    AND (
+      nullif(trim(p_filters->>'location'), '') IS NULL
+      OR p_job.location ILIKE '%' || trim(p_filters->>'location') || '%'
+    )
+    AND (
+      coalesce(jsonb_array_length(p_filters->'job_types'), 0) = 0
+      OR p_job.job_type IN (SELECT jsonb_array_elements_text(p_filters->'job_types'))
+    )
+    AND (
+      p_filters->>'salary_min' IS NULL
+      OR coalesce(p_job.salary_max, p_job.salary_min) >= (p_filters->>'salary_min')::INTEGER
+    )
+    AND (
+      p_filters->>'salary_max' IS NULL
+      OR coalesce(p_job.salary_min, p_job.salary_max) <= (p_filters->>'salary_max')::INTEGER
+    )
+    AND (
+      p_filters->>'experience_min' IS NULL
+      OR coalesce(p_job.experience_required, 0) >= (p_filters->>'experience_min')::INTEGER
+    )
+    AND (
+      p_filters->>'experience_max' IS NULL
+      OR coalesce(p_job.experience_required, 0) <= (p_filters->>'experience_max')::INTEGER
+    );
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
+
+-- Collects newly posted jobs into alerts for every saved search they match.
+-- Runs as the definer because the poster cannot see other users' searches.
+CREATE OR REPLACE FUNCTION create_job_alerts()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.job_alerts (saved_search_id, user_id, job_id)
+  SELECT s.id, s.user_id, NEW.id
+  FROM public.saved_searches s
+  WHERE s.user_id <> NEW.recruiter_id
+    AND job_matches_search(NEW, s.filters)
+  ON CONFLICT (saved_search_id, job_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE TRIGGER create_job_alerts_on_insert
+  AFTER INSERT ON jobs
+  FOR EACH ROW EXECUTE FUNCTION create_job_alerts();
@@ -0,0 +1,154 @@
+-- In-app notifications, written by triggers and streamed to clients over realtime
+CREATE TYPE notification_type AS ENUM ('application_status', 'new_applicant', 'job_closed', 'job_alert');
+
+CREATE TABLE notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type notification_type NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  -- In-app path to open when the notification is clicked
+  link TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_notifications_user_id ON notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the triggers below
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications FOR UPDATE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications FOR DELETE
+  USING (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+
+-- Tell the applicant when a recruiter moves their application to another stage
+CREATE OR REPLACE FUNCTION notify_application_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  job public.jobs%ROWTYPE;
+  stage_name TEXT;
+BEGIN
+  IF NEW.stage_id IS NOT DISTINCT FROM OLD.stage_id AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Applicants don't need telling about their own changes
+  IF auth.uid() = NEW.applicant_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO job FROM public.jobs WHERE id = NEW.job_id;
+  SELECT name INTO stage_name FROM public.job_stages WHERE id = NEW.stage_id;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link)
+  VALUES (
+    NEW.applicant_id,
+    'application_status',
+    'Application update: ' || job.title,
+    'Your application at ' || job.company_name || ' moved to ' || COALESCE(stage_name, NEW.status::TEXT) || '.',
+    '/jobs/' || job.id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_application_status_change
+  AFTER UPDATE OF status, stage_id ON applications
+  FOR EACH ROW EXECUTE FUNCTION notify_application_status_change();
+
+-- Tell the recruiter about each new applicant
+CREATE OR REPLACE FUNCTION notify_new_applicant()
+RETURNS TRIGGER AS $$
+DECLARE
+  job public.jobs%ROWTYPE;
+  applicant_name TEXT;
+BEGIN
+  SELECT * INTO job FROM public.jobs WHERE id = NEW.job_id;
+  SELECT full_name INTO applicant_name FROM public.profiles WHERE id = NEW.applicant_id;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link)
+  VALUES (
+    job.recruiter_id,
+    'new_applicant',
+    'New applicant for ' || job.title,
+    COALESCE(applicant_name, 'Someone') || ' applied.',
+    '/applicants'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_new_applicant
+  AFTER INSERT ON applications
+  FOR EACH ROW EXECUTE FUNCTION notify_new_applicant();
+
+-- Tell applicants still in the running, and seekers who saved the job, when it closes
+CREATE OR REPLACE FUNCTION notify_job_closed()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'closed' OR OLD.status = 'closed' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link)
+  SELECT
+    recipients.user_id,
+    'job_closed',
+    NEW.title || ' is closed',
+    NEW.company_name || ' is no longer accepting applications for this job.',
+    '/jobs/' || NEW.id
+  FROM (
+    SELECT applicant_id AS user_id FROM public.applications
+    WHERE job_id = NEW.id AND status NOT IN ('hired', 'rejected')
+    UNION
+    SELECT user_id FROM public.saved_jobs WHERE job_id = NEW.id
+  ) recipients;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_job_closed
+  AFTER UPDATE OF status ON jobs
+  FOR EACH ROW EXECUTE FUNCTION notify_job_closed();
+
+-- Surface saved search matches in the notification center as well
+CREATE OR REPLACE FUNCTION notify_job_alert()
+RETURNS TRIGGER AS $$
+DECLARE
+  job public.jobs%ROWTYPE;
+  search_name TEXT;
+BEGIN
+  SELECT * INTO job FROM public.jobs WHERE id = NEW.job_id;
+  SELECT name INTO search_name FROM public.saved_searches WHERE id = NEW.saved_search_id;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link)
+  VALUES (
+    NEW.user_id,
+    'job_alert',
+    'New match for "' || search_name || '"',
+    job.title || ' at ' || job.company_name,
+    '/jobs/' || job.id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_job_alert
+  AFTER INSERT ON job_alerts
+  FOR EACH ROW EXECUTE FUNCTION notify_job_alert();
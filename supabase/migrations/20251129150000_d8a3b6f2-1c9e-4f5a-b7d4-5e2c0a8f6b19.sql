@@ -0,0 +1,192 @@
+-- Activity log behind the dashboard's Recent Activity feed. Events are fanned
+-- out on write: each row belongs to the user whose feed it appears in, so an
+-- application shows up once for the applicant and once for the recruiter.
+CREATE TYPE activity_event_type AS ENUM (
+  'application_submitted',
+  'application_status_changed',
+  'job_posted',
+  'job_closed',
+  'profile_updated',
+  'job_saved'
+);
+
+-- metadata keeps a snapshot of titles and names so that entries still read
+-- well after the job or application they mention has been deleted
+CREATE TABLE activity_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  event_type activity_event_type NOT NULL,
+  job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+  application_id UUID REFERENCES applications(id) ON DELETE SET NULL,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_activity_events_user_id ON activity_events(user_id, created_at DESC, id DESC);
+
+ALTER TABLE activity_events ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the triggers below
+CREATE POLICY "Users can view own activity"
+  ON activity_events FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION log_application_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  job public.jobs%ROWTYPE;
+  applicant_name TEXT;
+  stage_name TEXT;
+  details JSONB;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.stage_id IS NOT DISTINCT FROM OLD.stage_id
+    AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO job FROM public.jobs WHERE id = NEW.job_id;
+  SELECT full_name INTO applicant_name FROM public.profiles WHERE id = NEW.applicant_id;
+  SELECT name INTO stage_name FROM public.job_stages WHERE id = NEW.stage_id;
+
+  details := jsonb_build_object(
+    'job_title', job.title,
+    'company_name', job.company_name,
+    'applicant_name', applicant_name,
+    'stage_name', COALESCE(stage_name, NEW.status::TEXT)
+  );
+
+  INSERT INTO public.activity_events (user_id, actor_id, event_type, job_id, application_id, metadata)
+  SELECT
+    recipient,
+    COALESCE(auth.uid(), NEW.applicant_id),
+    CASE WHEN TG_OP = 'INSERT' THEN 'application_submitted' ELSE 'application_status_changed' END::public.activity_event_type,
+    NEW.job_id,
+    NEW.id,
+    details
+  FROM unnest(ARRAY[NEW.applicant_id, job.recruiter_id]) AS recipient;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_application_activity_insert
+  AFTER INSERT ON applications
+  FOR EACH ROW EXECUTE FUNCTION log_application_activity();
+
+CREATE TRIGGER log_application_activity_update
+  AFTER UPDATE OF status, stage_id ON applications
+  FOR EACH ROW EXECUTE FUNCTION log_application_activity();
+
+CREATE OR REPLACE FUNCTION log_job_activity()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR (NEW.status = 'closed' AND OLD.status <> 'closed') THEN
+    INSERT INTO public.activity_events (user_id, actor_id, event_type, job_id, metadata)
+    VALUES (
+      NEW.recruiter_id,
+      COALESCE(auth.uid(), NEW.recruiter_id),
+      CASE WHEN TG_OP = 'INSERT' THEN 'job_posted' ELSE 'job_closed' END::public.activity_event_type,
+      NEW.id,
+      jsonb_build_object('job_title', NEW.title, 'company_name', NEW.company_name)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_job_activity_insert
+  AFTER INSERT ON jobs
+  FOR EACH ROW EXECUTE FUNCTION log_job_activity();
+
+CREATE TRIGGER log_job_activity_update
+  AFTER UPDATE OF status ON jobs
+  FOR EACH ROW EXECUTE FUNCTION log_job_activity();
+
+CREATE OR REPLACE FUNCTION log_saved_job_activity()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.activity_events (user_id, actor_id, event_type, job_id, metadata)
+  SELECT NEW.user_id, NEW.user_id, 'job_saved', jobs.id,
+    jsonb_build_object('job_title', jobs.title, 'company_name', jobs.company_name)
+  FROM public.jobs
+  WHERE jobs.id = NEW.job_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_saved_job_activity
+  AFTER INSERT ON saved_jobs
+  FOR EACH ROW EXECUTE FUNCTION log_saved_job_activity();
+
+-- Profile edits often come in bursts (the profile page saves some fields
+-- immediately), so at most one entry is logged per hour
+CREATE OR REPLACE FUNCTION log_profile_activity()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.activity_events
+    WHERE user_id = NEW.id
+      AND event_type = 'profile_updated'
+      AND created_at > NOW() - INTERVAL '1 hour'
+  ) THEN
+    INSERT INTO public.activity_events (user_id, actor_id, event_type)
+    VALUES (NEW.id, NEW.id, 'profile_updated');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_profile_activity
+  AFTER UPDATE ON profiles
+  FOR EACH ROW
+  WHEN (OLD.* IS DISTINCT FROM NEW.*)
+  EXECUTE FUNCTION log_profile_activity();
+
+-- Seed the feed from existing data
+INSERT INTO activity_events (user_id, actor_id, event_type, job_id, metadata, created_at)
+SELECT recruiter_id, recruiter_id, 'job_posted', id,
+  jsonb_build_object('job_title', title, 'company_name', company_name),
+  COALESCE(created_at, NOW())
+FROM jobs;
+
+INSERT INTO activity_events (user_id, actor_id, event_type, job_id, application_id, metadata, created_at)
+SELECT recipient, applications.applicant_id, 'application_submitted', jobs.id, applications.id,
+  jsonb_build_object(
+    'job_title', jobs.title,
+    'company_name', jobs.company_name,
+    'applicant_name', profiles.full_name
+  ),
+  COALESCE(applications.applied_at, NOW())
+FROM applications
+JOIN jobs ON jobs.id = applications.job_id
+JOIN profiles ON profiles.id = applications.applicant_id
+CROSS JOIN LATERAL unnest(ARRAY[applications.applicant_id, jobs.recruiter_id]) AS recipient;
+
+INSERT INTO activity_events (user_id, actor_id, event_type, job_id, application_id, metadata, created_at)
+SELECT recipient, history.changed_by, 'application_status_changed', jobs.id, applications.id,
+  jsonb_build_object(
+    'job_title', jobs.title,
+    'company_name', jobs.company_name,
+    'applicant_name', profiles.full_name,
+    'stage_name', COALESCE(job_stages.name, history.to_status::TEXT)
+  ),
+  COALESCE(history.changed_at, NOW())
+FROM application_status_history history
+JOIN applications ON applications.id = history.application_id
+JOIN jobs ON jobs.id = applications.job_id
+JOIN profiles ON profiles.id = applications.applicant_id
+LEFT JOIN job_stages ON job_stages.id = history.to_stage_id
+CROSS JOIN LATERAL unnest(ARRAY[applications.applicant_id, jobs.recruiter_id]) AS recipient
+WHERE history.from_status IS NOT NULL OR history.from_stage_id IS NOT NULL;
+
+INSERT INTO activity_events (user_id, actor_id, event_type, job_id, metadata, created_at)
+SELECT saved_jobs.user_id, saved_jobs.user_id, 'job_saved', jobs.id,
+  jsonb_build_object('job_title', jobs.title, 'company_name', jobs.company_name),
+  COALESCE(saved_jobs.saved_at, NOW())
+FROM saved_jobs
+JOIN jobs ON jobs.id = saved_jobs.job_id;
@@ -0,0 +1,35 @@
+-- Public bucket for profile photos. Photos are shown to recruiters next to
+-- applications, so anyone can read them and only writes are scoped to the
+-- owner's folder.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('avatars', 'avatars', true);
+
+CREATE POLICY "Users can upload their own avatar"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'avatars'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Upserting a replacement photo reads the existing object first
+CREATE POLICY "Anyone can view avatars"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can update their own avatar"
+ON storage.objects
+FOR UPDATE
+USING (
+  bucket_id = 'avatars'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can delete their own avatar"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'avatars'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
@@ -0,0 +1,19 @@
+-- The resumes bucket is private, so the public URLs saved so far never
+-- opened. Keep the object path instead and sign it when someone views it.
+-- This is a data fix, not a user edit: skip updated_at and the activity log.
+ALTER TABLE profiles DISABLE TRIGGER update_profiles_updated_at;
+ALTER TABLE profiles DISABLE TRIGGER log_profile_activity;
+UPDATE profiles
+SET resume_url = regexp_replace(resume_url, '^.*/storage/v1/object/[a-z]+/resumes/([^?]+).*$', '\1')
+WHERE resume_url LIKE '%/storage/v1/object/%/resumes/%';
+ALTER TABLE profiles ENABLE TRIGGER log_profile_activity;
+ALTER TABLE profiles ENABLE TRIGGER update_profiles_updated_at;
+
+ALTER TABLE applications DISABLE TRIGGER update_applications_updated_at;
+UPDATE applications
+SET resume_url = regexp_replace(resume_url, '^.*/storage/v1/object/[a-z]+/resumes/([^?]+).*$', '\1')
+WHERE resume_url LIKE '%/storage/v1/object/%/resumes/%';
+ALTER TABLE applications ENABLE TRIGGER update_applications_updated_at;
+
+COMMENT ON COLUMN profiles.resume_url IS 'Object path in the resumes storage bucket';
+COMMENT ON COLUMN applications.resume_url IS 'Object path in the resumes storage bucket';
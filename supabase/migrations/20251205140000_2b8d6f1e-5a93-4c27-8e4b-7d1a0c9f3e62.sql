@@ -0,0 +1,134 @@
+-- Named resume versions. Every upload gets its own object path and is never
+-- overwritten, so the file attached to an application stays exactly what
+-- the recruiter received.
+CREATE TABLE resumes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  file_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  uploaded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_resumes_user_id ON resumes(user_id, uploaded_at DESC);
+CREATE UNIQUE INDEX idx_resumes_one_default ON resumes(user_id) WHERE is_default;
+
+ALTER TABLE resumes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own resumes"
+  ON resumes FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can add own resumes"
+  ON resumes FOR INSERT
+  WITH CHECK (user_id = auth.uid() AND split_part(file_path, '/', 1) = auth.uid()::TEXT);
+
+CREATE POLICY "Users can update own resumes"
+  ON resumes FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid() AND split_part(file_path, '/', 1) = auth.uid()::TEXT);
+
+CREATE POLICY "Users can delete own resumes"
+  ON resumes FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Keeps exactly one default per user: the first upload becomes the default,
+-- and marking another version as default clears the previous one
+CREATE OR REPLACE FUNCTION set_default_resume()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NOT NEW.is_default THEN
+    NEW.is_default := NOT EXISTS (
+      SELECT 1 FROM public.resumes WHERE user_id = NEW.user_id AND is_default
+    );
+  END IF;
+
+  IF NEW.is_default THEN
+    UPDATE public.resumes
+    SET is_default = false
+    WHERE user_id = NEW.user_id AND id <> NEW.id AND is_default;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_default_resume
+  BEFORE INSERT OR UPDATE OF is_default ON resumes
+  FOR EACH ROW EXECUTE FUNCTION set_default_resume();
+
+-- profiles.resume_url mirrors the default version, which is what profile
+-- strength and recruiters browsing the profile look at. Deleting the default
+-- promotes the most recent remaining upload.
+CREATE OR REPLACE FUNCTION sync_profile_resume()
+RETURNS TRIGGER AS $$
+DECLARE
+  owner_id UUID := COALESCE(NEW.user_id, OLD.user_id);
+  default_path TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' AND OLD.is_default THEN
+    UPDATE public.resumes
+    SET is_default = true
+    WHERE id = (
+      SELECT id FROM public.resumes
+      WHERE user_id = owner_id
+      ORDER BY uploaded_at DESC
+      LIMIT 1
+    );
+  END IF;
+
+  SELECT file_path INTO default_path
+  FROM public.resumes
+  WHERE user_id = owner_id AND is_default;
+
+  UPDATE public.profiles
+  SET resume_url = default_path
+  WHERE id = owner_id AND resume_url IS DISTINCT FROM default_path;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_profile_resume
+  AFTER INSERT OR DELETE OR UPDATE OF is_default, file_path ON resumes
+  FOR EACH ROW EXECUTE FUNCTION sync_profile_resume();
+
+ALTER TABLE applications
+  ADD COLUMN resume_id UUID REFERENCES resumes(id) ON DELETE SET NULL;
+
+-- The chosen version's file is copied onto the application when it is
+-- submitted; resume_id only records which version that was
+CREATE OR REPLACE FUNCTION freeze_application_resume()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.resume_id IS NOT NULL THEN
+    SELECT file_path INTO NEW.resume_url
+    FROM public.resumes
+    WHERE id = NEW.resume_id AND user_id = NEW.applicant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Resume % does not belong to the applicant', NEW.resume_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER freeze_application_resume
+  BEFORE INSERT ON applications
+  FOR EACH ROW EXECUTE FUNCTION freeze_application_resume();
+
+-- Existing profile resumes become each seeker's first, default version
+INSERT INTO resumes (user_id, name, file_path, file_name, is_default, uploaded_at)
+SELECT id, 'Resume', resume_url, regexp_replace(resume_url, '^.*/', ''), true, COALESCE(updated_at, NOW())
+FROM profiles
+WHERE resume_url IS NOT NULL;
+
+ALTER TABLE applications DISABLE TRIGGER update_applications_updated_at;
+UPDATE applications
+SET resume_id = resumes.id
+FROM resumes
+WHERE resumes.file_path = applications.resume_url;
+ALTER TABLE applications ENABLE TRIGGER update_applications_updated_at;
@@ -0,0 +1,184 @@
+-- Structured background for job seekers: work history, education,
+-- certifications and portfolio links. Owners manage their own rows and
+-- recruiters can read them for people who applied to their jobs.
+CREATE TABLE work_experiences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  company TEXT NOT NULL,
+  title TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  -- NULL while the role is ongoing
+  end_date DATE,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE TABLE educations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  institution TEXT NOT NULL,
+  degree TEXT,
+  field_of_study TEXT,
+  start_date DATE,
+  end_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (end_date IS NULL OR start_date IS NULL OR end_date >= start_date)
+);
+
+CREATE TABLE certifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  issuer TEXT,
+  issued_on DATE,
+  expires_on DATE,
+  credential_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE portfolio_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  url TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_work_experiences_user_id ON work_experiences(user_id);
+CREATE INDEX idx_educations_user_id ON educations(user_id);
+CREATE INDEX idx_certifications_user_id ON certifications(user_id);
+CREATE INDEX idx_portfolio_links_user_id ON portfolio_links(user_id);
+
+-- Bypasses RLS so the policies below don't recurse through applications and jobs
+CREATE OR REPLACE FUNCTION is_applicant_of_recruiter(p_applicant_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.applications
+    JOIN public.jobs ON jobs.id = applications.job_id
+    WHERE applications.applicant_id = p_applicant_id AND jobs.recruiter_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE work_experiences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users and their recruiters can view work experience"
+  ON work_experiences FOR SELECT
+  USING (user_id = auth.uid() OR is_applicant_of_recruiter(user_id));
+
+CREATE POLICY "Users can add own work experience"
+  ON work_experiences FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own work experience"
+  ON work_experiences FOR UPDATE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own work experience"
+  ON work_experiences FOR DELETE
+  USING (user_id = auth.uid());
+
+ALTER TABLE educations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users and their recruiters can view education"
+  ON educations FOR SELECT
+  USING (user_id = auth.uid() OR is_applicant_of_recruiter(user_id));
+
+CREATE POLICY "Users can add own education"
+  ON educations FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own education"
+  ON educations FOR UPDATE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own education"
+  ON educations FOR DELETE
+  USING (user_id = auth.uid());
+
+ALTER TABLE certifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users and their recruiters can view certifications"
+  ON certifications FOR SELECT
+  USING (user_id = auth.uid() OR is_applicant_of_recruiter(user_id));
+
+CREATE POLICY "Users can add own certifications"
+  ON certifications FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own certifications"
+  ON certifications FOR UPDATE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own certifications"
+  ON certifications FOR DELETE
+  USING (user_id = auth.uid());
+
+ALTER TABLE portfolio_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users and their recruiters can view portfolio links"
+  ON portfolio_links FOR SELECT
+  USING (user_id = auth.uid() OR is_applicant_of_recruiter(user_id));
+
+CREATE POLICY "Users can add own portfolio links"
+  ON portfolio_links FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own portfolio links"
+  ON portfolio_links FOR UPDATE
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own portfolio links"
+  ON portfolio_links FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Total time employed, with overlapping roles counted once. Ongoing roles run
+-- to today. Returns NULL without any work history so that a manually entered
+-- experience_years is kept for seekers who haven't filled it in.
+CREATE OR REPLACE FUNCTION work_experience_years(p_user_id UUID)
+RETURNS INTEGER AS $$
+  SELECT floor(SUM(upper(span) - lower(span)) / 365.25)::INTEGER
+  FROM (
+    SELECT unnest(range_agg(daterange(start_date, COALESCE(end_date, CURRENT_DATE), '[]'))) AS span
+    FROM public.work_experiences
+    WHERE user_id = p_user_id
+  ) spans;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION sync_experience_years()
+RETURNS TRIGGER AS $$
+DECLARE
+  owner_id UUID := COALESCE(NEW.user_id, OLD.user_id);
+  years INTEGER := work_experience_years(owner_id);
+BEGIN
+  IF years IS NOT NULL THEN
+    UPDATE public.profiles
+    SET experience_years = years
+    WHERE id = owner_id AND experience_years IS DISTINCT FROM years;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_experience_years
+  AFTER INSERT OR UPDATE OR DELETE ON work_experiences
+  FOR EACH ROW EXECUTE FUNCTION sync_experience_years();
+
+-- Ongoing roles keep adding up without any row changing, so the profile page
+-- refreshes the derived value when its owner opens it
+CREATE OR REPLACE FUNCTION refresh_experience_years()
+RETURNS INTEGER AS $$
+DECLARE
+  years INTEGER := work_experience_years(auth.uid());
+BEGIN
+  IF years IS NOT NULL THEN
+    UPDATE public.profiles
+    SET experience_years = years
+    WHERE id = auth.uid() AND experience_years IS DISTINCT FROM years;
+  END IF;
+
+  RETURN years;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,5 @@
+-- Applicants can withdraw their applications. New enum values can't be used in
+-- the transaction that adds them, so the policies and functions that rely on
+-- them are in the next migration.
+ALTER TYPE application_status ADD VALUE 'withdrawn';
+ALTER TYPE activity_event_type ADD VALUE 'application_withdrawn';
@@ -0,0 +1,191 @@
+-- Applicants may update their own applications, but only to withdraw them
+CREATE POLICY "Applicants can withdraw own applications"
+  ON applications FOR UPDATE
+  USING (applicant_id = auth.uid())
+  WITH CHECK (applicant_id = auth.uid() AND status = 'withdrawn');
+
+-- RLS can't limit which columns change, so an applicant's update is reduced to
+-- the withdrawal itself. It moves the application to the job's withdrawn stage
+-- when there is one and otherwise leaves it in its current stage.
+CREATE OR REPLACE FUNCTION guard_applicant_update()
+RETURNS TRIGGER AS $$
+DECLARE
+  withdrawn_stage_id UUID;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM OLD.applicant_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM 'withdrawn' THEN
+    RAISE EXCEPTION 'Applicants can only withdraw their applications';
+  END IF;
+
+  IF OLD.status NOT IN ('applied', 'viewed', 'shortlisted') THEN
+    RAISE EXCEPTION 'Application % can no longer be withdrawn', OLD.id;
+  END IF;
+
+  SELECT id INTO withdrawn_stage_id FROM public.job_stages
+  WHERE job_id = OLD.job_id AND outcome = 'withdrawn'
+  ORDER BY position
+  LIMIT 1;
+
+  NEW := OLD;
+  NEW.status := 'withdrawn';
+  NEW.stage_id := COALESCE(withdrawn_stage_id, OLD.stage_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER guard_applicant_update
+  BEFORE UPDATE ON applications
+  FOR EACH ROW EXECUTE FUNCTION guard_applicant_update();
+
+-- Withdrawn stages now map to their own status, and a withdrawal is final:
+-- later stage moves don't reopen the application
+CREATE OR REPLACE FUNCTION sync_application_stage()
+RETURNS TRIGGER AS $$
+DECLARE
+  stage public.job_stages%ROWTYPE;
+  first_position INTEGER;
+BEGIN
+  IF NEW.stage_id IS NULL THEN
+    SELECT * INTO stage FROM public.job_stages
+    WHERE job_id = NEW.job_id
+    ORDER BY position
+    LIMIT 1;
+    NEW.stage_id := stage.id;
+  ELSE
+    SELECT * INTO stage FROM public.job_stages WHERE id = NEW.stage_id;
+  END IF;
+
+  IF stage.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF stage.job_id <> NEW.job_id THEN
+    RAISE EXCEPTION 'Stage % does not belong to job %', stage.id, NEW.job_id;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND 'withdrawn' IN (OLD.status, NEW.status) THEN
+    NEW.status := 'withdrawn';
+    RETURN NEW;
+  END IF;
+
+  SELECT MIN(position) INTO first_position FROM public.job_stages WHERE job_id = NEW.job_id;
+
+  NEW.status := CASE
+    WHEN stage.outcome = 'hired' THEN 'hired'
+    WHEN stage.outcome = 'rejected' THEN 'rejected'
+    WHEN stage.outcome = 'withdrawn' THEN 'withdrawn'
+    WHEN stage.position = first_position THEN 'applied'
+    WHEN lower(stage.name) = 'viewed' THEN 'viewed'
+    ELSE 'shortlisted'
+  END::public.application_status;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Applications a recruiter had already moved to a withdrawn stage, and their
+-- history. This corrects data rather than changing it, so nothing is notified.
+ALTER TABLE applications DISABLE TRIGGER update_applications_updated_at;
+ALTER TABLE applications DISABLE TRIGGER log_application_status_update;
+ALTER TABLE applications DISABLE TRIGGER notify_application_status_change;
+ALTER TABLE applications DISABLE TRIGGER log_application_activity_update;
+
+UPDATE applications
+SET status = 'withdrawn'
+FROM job_stages
+WHERE job_stages.id = applications.stage_id
+AND job_stages.outcome = 'withdrawn'
+AND applications.status <> 'withdrawn';
+
+ALTER TABLE applications ENABLE TRIGGER update_applications_updated_at;
+ALTER TABLE applications ENABLE TRIGGER log_application_status_update;
+ALTER TABLE applications ENABLE TRIGGER notify_application_status_change;
+ALTER TABLE applications ENABLE TRIGGER log_application_activity_update;
+
+UPDATE application_status_history
+SET to_status = 'withdrawn'
+FROM job_stages
+WHERE job_stages.id = application_status_history.to_stage_id
+AND job_stages.outcome = 'withdrawn';
+
+UPDATE application_status_history
+SET from_status = 'withdrawn'
+FROM job_stages
+WHERE job_stages.id = application_status_history.from_stage_id
+AND job_stages.outcome = 'withdrawn';
+
+-- Withdrawals get their own entry in the activity feed
+CREATE OR REPLACE FUNCTION log_application_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  job public.jobs%ROWTYPE;
+  applicant_name TEXT;
+  stage_name TEXT;
+  details JSONB;
+  activity_type public.activity_event_type;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.stage_id IS NOT DISTINCT FROM OLD.stage_id
+    AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO job FROM public.jobs WHERE id = NEW.job_id;
+  SELECT full_name INTO applicant_name FROM public.profiles WHERE id = NEW.applicant_id;
+  SELECT name INTO stage_name FROM public.job_stages WHERE id = NEW.stage_id;
+
+  details := jsonb_build_object(
+    'job_title', job.title,
+    'company_name', job.company_name,
+    'applicant_name', applicant_name,
+    'stage_name', COALESCE(stage_name, NEW.status::TEXT)
+  );
+
+  activity_type := CASE
+    WHEN TG_OP = 'INSERT' THEN 'application_submitted'
+    WHEN NEW.status = 'withdrawn' AND OLD.status <> 'withdrawn' THEN 'application_withdrawn'
+    ELSE 'application_status_changed'
+  END::public.activity_event_type;
+
+  INSERT INTO public.activity_events (user_id, actor_id, event_type, job_id, application_id, metadata)
+  SELECT
+    recipient,
+    COALESCE(auth.uid(), NEW.applicant_id),
+    activity_type,
+    NEW.job_id,
+    NEW.id,
+    details
+  FROM unnest(ARRAY[NEW.applicant_id, job.recruiter_id]) AS recipient;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Applicants who withdrew don't need telling when the job closes
+CREATE OR REPLACE FUNCTION notify_job_closed()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'closed' OR OLD.status = 'closed' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link)
+  SELECT
+    recipients.user_id,
+    'job_closed',
+    NEW.title || ' is closed',
+    NEW.company_name || ' is no longer accepting applications for this job.',
+    '/jobs/' || NEW.id
+  FROM (
+    SELECT applicant_id AS user_id FROM public.applications
+    WHERE job_id = NEW.id AND status NOT IN ('hired', 'rejected', 'withdrawn')
+    UNION
+    SELECT user_id FROM public.saved_jobs WHERE job_id = NEW.id
+  ) recipients;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
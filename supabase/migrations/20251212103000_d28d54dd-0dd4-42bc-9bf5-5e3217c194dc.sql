@@ -0,0 +1,67 @@
+-- Private notes and an "apply by" reminder on each saved job
+ALTER TABLE saved_jobs
+  ADD COLUMN notes TEXT,
+  ADD COLUMN remind_on DATE,
+  -- Set once the reminder has been sent, so each date is only reminded once
+  ADD COLUMN reminded_at TIMESTAMP WITH TIME ZONE;
+
+CREATE POLICY "Users can update own saved jobs"
+  ON saved_jobs FOR UPDATE
+  USING (user_id = auth.uid());
+
+-- Moving the date re-arms the reminder
+CREATE OR REPLACE FUNCTION reset_saved_job_reminder()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.remind_on IS DISTINCT FROM OLD.remind_on THEN
+    NEW.reminded_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER reset_saved_job_reminder
+  BEFORE UPDATE OF remind_on ON saved_jobs
+  FOR EACH ROW EXECUTE FUNCTION reset_saved_job_reminder();
+
+CREATE INDEX idx_saved_jobs_due_reminders ON saved_jobs(remind_on) WHERE reminded_at IS NULL;
+
+ALTER TYPE notification_type ADD VALUE 'saved_job_reminder';
+
+-- Sends the reminders that are due, skipping jobs that stopped accepting
+-- applications or were already applied to. Meant to run daily with pg_cron:
+--
+--   select cron.schedule('saved-job-reminders', '0 7 * * *', 'select send_saved_job_reminders()');
+CREATE OR REPLACE FUNCTION send_saved_job_reminders()
+RETURNS INTEGER AS $$
+DECLARE
+  sent INTEGER;
+BEGIN
+  WITH due AS (
+    UPDATE public.saved_jobs
+    SET reminded_at = NOW()
+    WHERE remind_on <= CURRENT_DATE AND reminded_at IS NULL
+    RETURNING saved_jobs.user_id, saved_jobs.job_id
+  )
+  INSERT INTO public.notifications (user_id, type, title, body, link)
+  SELECT
+    due.user_id,
+    'saved_job_reminder',
+    'Reminder: apply to ' || jobs.title,
+    'You planned to apply to ' || jobs.title || ' at ' || jobs.company_name || ' by today.',
+    '/saved-jobs'
+  FROM due
+  JOIN public.jobs ON jobs.id = due.job_id
+  WHERE jobs.status = 'open'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.applications
+    WHERE applications.job_id = due.job_id AND applications.applicant_id = due.user_id
+  );
+
+  GET DIAGNOSTICS sent = ROW_COUNT;
+  RETURN sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduler should send reminders
+REVOKE EXECUTE ON FUNCTION send_saved_job_reminders() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,230 @@
+-- Recruiter analytics. Everything is aggregated here so the analytics page
+-- receives a few summary rows instead of every application and history entry.
+-- Each function covers applications submitted in [p_from, p_to) to the calling
+-- recruiter's jobs, optionally narrowed to one job.
+
+-- Shared starting point for the functions below
+CREATE OR REPLACE FUNCTION recruiter_applications(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ, p_job_id UUID DEFAULT NULL)
+RETURNS SETOF applications AS $$
+  SELECT applications.*
+  FROM public.applications
+  JOIN public.jobs ON jobs.id = applications.job_id
+  WHERE jobs.recruiter_id = auth.uid()
+  AND applications.applied_at >= p_from
+  AND applications.applied_at < p_to
+  AND (p_job_id IS NULL OR applications.job_id = p_job_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- When each hired application was first moved to a hired status
+CREATE OR REPLACE FUNCTION recruiter_hires(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ, p_job_id UUID DEFAULT NULL)
+RETURNS TABLE (application_id UUID, job_id UUID, applied_at TIMESTAMPTZ, hired_at TIMESTAMPTZ) AS $$
+  SELECT scoped.id, scoped.job_id, scoped.applied_at, MIN(history.changed_at)
+  FROM recruiter_applications(p_from, p_to, p_job_id) scoped
+  JOIN public.application_status_history history ON history.application_id = scoped.id
+  WHERE scoped.status = 'hired' AND history.to_status = 'hired'
+  GROUP BY scoped.id, scoped.job_id, scoped.applied_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION analytics_summary(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ, p_job_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  applications INTEGER,
+  in_progress INTEGER,
+  hired INTEGER,
+  rejected INTEGER,
+  withdrawn INTEGER,
+  median_days_to_hire NUMERIC
+) AS $$
+  SELECT
+    COUNT(*)::INTEGER,
+    COUNT(*) FILTER (WHERE status IN ('applied', 'viewed', 'shortlisted'))::INTEGER,
+    COUNT(*) FILTER (WHERE status = 'hired')::INTEGER,
+    COUNT(*) FILTER (WHERE status = 'rejected')::INTEGER,
+    COUNT(*) FILTER (WHERE status = 'withdrawn')::INTEGER,
+    (
+      SELECT round((percentile_cont(0.5) WITHIN GROUP (
+        ORDER BY EXTRACT(EPOCH FROM hired_at - applied_at) / 86400
+      ))::NUMERIC, 1)
+      FROM recruiter_hires(p_from, p_to, p_job_id)
+    )
+  FROM recruiter_applications(p_from, p_to, p_job_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- How many applications got at least as far as each stage. Stages are matched
+-- by name across jobs, as on the applicants board. An application counts as
+-- reaching every in-progress stage up to the furthest one it was moved to, so
+-- skipped stages don't break the funnel; rejected and withdrawn stages count
+-- the applications that were moved there.
+CREATE OR REPLACE FUNCTION analytics_funnel(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ, p_job_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  stage_name TEXT,
+  stage_position INTEGER,
+  outcome stage_outcome,
+  reached INTEGER,
+  current INTEGER
+) AS $$
+  WITH scoped AS (
+    SELECT id, job_id, stage_id FROM recruiter_applications(p_from, p_to, p_job_id)
+  ),
+  visits AS (
+    SELECT history.application_id, history.to_stage_id AS stage_id
+    FROM scoped
+    JOIN public.application_status_history history ON history.application_id = scoped.id
+    WHERE history.to_stage_id IS NOT NULL
+    UNION
+    SELECT id, stage_id FROM scoped WHERE stage_id IS NOT NULL
+  ),
+  furthest AS (
+    SELECT visits.application_id, MAX(job_stages.position) AS position
+    FROM visits
+    JOIN public.job_stages ON job_stages.id = visits.stage_id
+    WHERE job_stages.outcome IS NULL OR job_stages.outcome = 'hired'
+    GROUP BY visits.application_id
+  ),
+  stages AS (
+    SELECT job_stages.*
+    FROM public.job_stages
+    JOIN public.jobs ON jobs.id = job_stages.job_id
+    WHERE jobs.recruiter_id = auth.uid()
+    AND (p_job_id IS NULL OR jobs.id = p_job_id)
+  ),
+  per_stage AS (
+    SELECT
+      lower(trim(stages.name)) AS stage_key,
+      stages.name,
+      stages.position,
+      stages.outcome,
+      CASE
+        WHEN stages.outcome IN ('rejected', 'withdrawn') THEN
+          (SELECT COUNT(*) FROM visits WHERE visits.stage_id = stages.id)
+        ELSE
+          (
+            SELECT COUNT(*)
+            FROM scoped
+            JOIN furthest ON furthest.application_id = scoped.id
+            WHERE scoped.job_id = stages.job_id AND furthest.position >= stages.position
+          )
+      END AS reached,
+      (SELECT COUNT(*) FROM scoped WHERE scoped.stage_id = stages.id) AS current
+    FROM stages
+  )
+  SELECT
+    (array_agg(name ORDER BY position))[1],
+    MIN(position)::INTEGER,
+    (array_agg(outcome ORDER BY position))[1],
+    SUM(reached)::INTEGER,
+    SUM(current)::INTEGER
+  FROM per_stage
+  GROUP BY stage_key
+  ORDER BY bool_or(outcome IS NOT NULL AND outcome <> 'hired'), MIN(position);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Median time applications spent in each in-progress stage before being moved
+-- on. Applications still sitting in a stage aren't counted for it yet.
+CREATE OR REPLACE FUNCTION analytics_stage_durations(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ, p_job_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  stage_name TEXT,
+  stage_position INTEGER,
+  median_hours NUMERIC,
+  moves INTEGER
+) AS $$
+  WITH entries AS (
+    SELECT
+      history.to_stage_id AS stage_id,
+      history.changed_at AS entered_at,
+      LEAD(history.changed_at) OVER (
+        PARTITION BY history.application_id ORDER BY history.changed_at, history.id
+      ) AS left_at
+    FROM recruiter_applications(p_from, p_to, p_job_id) scoped
+    JOIN public.application_status_history history ON history.application_id = scoped.id
+    -- Status-only changes, such as a withdrawal without a withdrawn stage, don't leave the stage
+    WHERE history.from_status IS NULL OR history.to_stage_id IS DISTINCT FROM history.from_stage_id
+  )
+  SELECT
+    (array_agg(job_stages.name ORDER BY job_stages.position))[1],
+    MIN(job_stages.position)::INTEGER,
+    round((percentile_cont(0.5) WITHIN GROUP (
+      ORDER BY EXTRACT(EPOCH FROM entries.left_at - entries.entered_at) / 3600
+    ))::NUMERIC, 1),
+    COUNT(*)::INTEGER
+  FROM entries
+  JOIN public.job_stages ON job_stages.id = entries.stage_id
+  WHERE entries.left_at IS NOT NULL AND job_stages.outcome IS NULL
+  GROUP BY lower(trim(job_stages.name))
+  ORDER BY MIN(job_stages.position);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Applications per day, week or month with empty periods filled in. Hires are
+-- those of the same applications, counted in the period they were hired.
+CREATE OR REPLACE FUNCTION analytics_applications_over_time(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_job_id UUID DEFAULT NULL,
+  p_interval TEXT DEFAULT 'day'
+)
+RETURNS TABLE (period DATE, applications INTEGER, hires INTEGER) AS $$
+  WITH periods AS (
+    SELECT generate_series(
+      date_trunc(p_interval, p_from),
+      p_to - INTERVAL '1 second',
+      ('1 ' || p_interval)::INTERVAL
+    ) AS period_start
+  ),
+  scoped AS (
+    SELECT date_trunc(p_interval, applied_at) AS period_start
+    FROM recruiter_applications(p_from, p_to, p_job_id)
+  ),
+  hires AS (
+    SELECT date_trunc(p_interval, hired_at) AS period_start
+    FROM recruiter_hires(p_from, p_to, p_job_id)
+  )
+  SELECT
+    periods.period_start::DATE,
+    (SELECT COUNT(*) FROM scoped WHERE scoped.period_start = periods.period_start)::INTEGER,
+    (SELECT COUNT(*) FROM hires WHERE hires.period_start = periods.period_start)::INTEGER
+  FROM periods
+  ORDER BY periods.period_start;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- One row per job of the calling recruiter, including jobs without applications
+CREATE OR REPLACE FUNCTION analytics_job_breakdown(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ)
+RETURNS TABLE (
+  job_id UUID,
+  title TEXT,
+  status job_status,
+  applications INTEGER,
+  in_progress INTEGER,
+  hired INTEGER,
+  rejected INTEGER,
+  withdrawn INTEGER,
+  median_days_to_hire NUMERIC
+) AS $$
+  WITH scoped AS (
+    SELECT * FROM recruiter_applications(p_from, p_to)
+  ),
+  hires AS (
+    SELECT * FROM recruiter_hires(p_from, p_to)
+  )
+  SELECT
+    jobs.id,
+    jobs.title,
+    jobs.status,
+    COUNT(scoped.id)::INTEGER,
+    COUNT(scoped.id) FILTER (WHERE scoped.status IN ('applied', 'viewed', 'shortlisted'))::INTEGER,
+    COUNT(scoped.id) FILTER (WHERE scoped.status = 'hired')::INTEGER,
+    COUNT(scoped.id) FILTER (WHERE scoped.status = 'rejected')::INTEGER,
+    COUNT(scoped.id) FILTER (WHERE scoped.status = 'withdrawn')::INTEGER,
+    (
+      SELECT round((percentile_cont(0.5) WITHIN GROUP (
+        ORDER BY EXTRACT(EPOCH FROM hires.hired_at - hires.applied_at) / 86400
+      ))::NUMERIC, 1)
+      FROM hires
+      WHERE hires.job_id = jobs.id
+    )
+  FROM public.jobs
+  LEFT JOIN scoped ON scoped.job_id = jobs.id
+  WHERE jobs.recruiter_id = auth.uid()
+  GROUP BY jobs.id
+  ORDER BY COUNT(scoped.id) DESC, jobs.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE INDEX idx_applications_applied_at ON applications(applied_at);
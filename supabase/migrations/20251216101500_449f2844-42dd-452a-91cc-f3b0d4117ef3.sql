@@ -0,0 +1,179 @@
+-- Job views, counted at most once per viewer per job per day. Signed-in viewers
+-- are identified by their user id, anonymous ones by a random id the browser
+-- keeps for the session.
+CREATE TABLE job_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  viewer_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  viewer_key TEXT NOT NULL,
+  viewed_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  viewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE(job_id, viewer_key, viewed_on)
+);
+
+CREATE INDEX idx_job_views_job_id ON job_views(job_id, viewed_at);
+
+-- Views are only recorded through record_job_view, so there is no insert policy
+ALTER TABLE job_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Recruiters can view views of own jobs"
+  ON job_views FOR SELECT
+  USING (EXISTS (SELECT 1 FROM jobs WHERE jobs.id = job_views.job_id AND jobs.recruiter_id = auth.uid()));
+
+-- Returns whether the view was counted. Recruiters looking at their own jobs
+-- and repeat views on the same day aren't.
+CREATE OR REPLACE FUNCTION record_job_view(p_job_id UUID, p_session_id TEXT DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+DECLARE
+  viewer UUID := auth.uid();
+  counted INTEGER;
+BEGIN
+  IF viewer IS NULL AND COALESCE(length(p_session_id), 0) NOT BETWEEN 8 AND 64 THEN
+    RAISE EXCEPTION 'Anonymous views need a session id';
+  END IF;
+
+  INSERT INTO public.job_views (job_id, viewer_id, viewer_key)
+  SELECT jobs.id, viewer, COALESCE('user:' || viewer, 'session:' || p_session_id)
+  FROM public.jobs
+  WHERE jobs.id = p_job_id
+  AND jobs.status = 'open'
+  AND jobs.recruiter_id IS DISTINCT FROM viewer
+  ON CONFLICT (job_id, viewer_key, viewed_on) DO NOTHING;
+
+  GET DIAGNOSTICS counted = ROW_COUNT;
+  RETURN counted > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Keep jobs.views_count and jobs.applications_count in step with their rows
+CREATE OR REPLACE FUNCTION update_job_counters()
+RETURNS TRIGGER AS $$
+DECLARE
+  delta INTEGER := CASE WHEN TG_OP = 'INSERT' THEN 1 ELSE -1 END;
+  target UUID := CASE WHEN TG_OP = 'INSERT' THEN NEW.job_id ELSE OLD.job_id END;
+BEGIN
+  IF TG_TABLE_NAME = 'job_views' THEN
+    UPDATE public.jobs SET views_count = GREATEST(COALESCE(views_count, 0) + delta, 0) WHERE id = target;
+  ELSE
+    UPDATE public.jobs SET applications_count = GREATEST(COALESCE(applications_count, 0) + delta, 0) WHERE id = target;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_job_views_count
+  AFTER INSERT OR DELETE ON job_views
+  FOR EACH ROW EXECUTE FUNCTION update_job_counters();
+
+CREATE TRIGGER update_job_applications_count
+  AFTER INSERT OR DELETE ON applications
+  FOR EACH ROW EXECUTE FUNCTION update_job_counters();
+
+-- A job gaining a view or an applicant isn't an edit to the job
+DROP TRIGGER update_jobs_updated_at ON jobs;
+
+CREATE TRIGGER update_jobs_updated_at BEFORE UPDATE ON jobs
+  FOR EACH ROW
+  WHEN (
+    NEW.views_count IS NOT DISTINCT FROM OLD.views_count
+    AND NEW.applications_count IS NOT DISTINCT FROM OLD.applications_count
+  )
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Nothing has written the counters so far; views start from zero
+ALTER TABLE jobs DISABLE TRIGGER update_jobs_updated_at;
+UPDATE jobs SET
+  views_count = 0,
+  applications_count = (SELECT COUNT(*) FROM applications WHERE applications.job_id = jobs.id);
+ALTER TABLE jobs ENABLE TRIGGER update_jobs_updated_at;
+
+-- Views in the analytics date range, for the functions below
+CREATE OR REPLACE FUNCTION recruiter_job_views(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ, p_job_id UUID DEFAULT NULL)
+RETURNS SETOF job_views AS $$
+  SELECT job_views.*
+  FROM public.job_views
+  JOIN public.jobs ON jobs.id = job_views.job_id
+  WHERE jobs.recruiter_id = auth.uid()
+  AND job_views.viewed_at >= p_from
+  AND job_views.viewed_at < p_to
+  AND (p_job_id IS NULL OR job_views.job_id = p_job_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The analytics summary and job breakdown gain a views column, which changes
+-- their return types
+DROP FUNCTION analytics_summary(TIMESTAMPTZ, TIMESTAMPTZ, UUID);
+DROP FUNCTION analytics_job_breakdown(TIMESTAMPTZ, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION analytics_summary(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ, p_job_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  views INTEGER,
+  applications INTEGER,
+  in_progress INTEGER,
+  hired INTEGER,
+  rejected INTEGER,
+  withdrawn INTEGER,
+  median_days_to_hire NUMERIC
+) AS $$
+  SELECT
+    (SELECT COUNT(*) FROM recruiter_job_views(p_from, p_to, p_job_id))::INTEGER,
+    COUNT(*)::INTEGER,
+    COUNT(*) FILTER (WHERE status IN ('applied', 'viewed', 'shortlisted'))::INTEGER,
+    COUNT(*) FILTER (WHERE status = 'hired')::INTEGER,
+    COUNT(*) FILTER (WHERE status = 'rejected')::INTEGER,
+    COUNT(*) FILTER (WHERE status = 'withdrawn')::INTEGER,
+    (
+      SELECT round((percentile_cont(0.5) WITHIN GROUP (
+        ORDER BY EXTRACT(EPOCH FROM hired_at - applied_at) / 86400
+      ))::NUMERIC, 1)
+      FROM recruiter_hires(p_from, p_to, p_job_id)
+    )
+  FROM recruiter_applications(p_from, p_to, p_job_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION analytics_job_breakdown(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ)
+RETURNS TABLE (
+  job_id UUID,
+  title TEXT,
+  status job_status,
+  views INTEGER,
+  applications INTEGER,
+  in_progress INTEGER,
+  hired INTEGER,
+  rejected INTEGER,
+  withdrawn INTEGER,
+  median_days_to_hire NUMERIC
+) AS $$
+  WITH scoped AS (
+    SELECT * FROM recruiter_applications(p_from, p_to)
+  ),
+  hires AS (
+    SELECT * FROM recruiter_hires(p_from, p_to)
+  ),
+  views AS (
+    SELECT job_id, COUNT(*) AS views FROM recruiter_job_views(p_from, p_to) GROUP BY job_id
+  )
+  SELECT
+    jobs.id,
+    jobs.title,
+    jobs.status,
+    COALESCE(MAX(views.views), 0)::INTEGER,
+    COUNT(scoped.id)::INTEGER,
+    COUNT(scoped.id) FILTER (WHERE scoped.status IN ('applied', 'viewed', 'shortlisted'))::INTEGER,
+    COUNT(scoped.id) FILTER (WHERE scoped.status = 'hired')::INTEGER,
+    COUNT(scoped.id) FILTER (WHERE scoped.status = 'rejected')::INTEGER,
+    COUNT(scoped.id) FILTER (WHERE scoped.status = 'withdrawn')::INTEGER,
+    (
+      SELECT round((percentile_cont(0.5) WITHIN GROUP (
+        ORDER BY EXTRACT(EPOCH FROM hires.hired_at - hires.applied_at) / 86400
+      ))::NUMERIC, 1)
+      FROM hires
+      WHERE hires.job_id = jobs.id
+    )
+  FROM public.jobs
+  LEFT JOIN scoped ON scoped.job_id = jobs.id
+  LEFT JOIN views ON views.job_id = jobs.id
+  WHERE jobs.recruiter_id = auth.uid()
+  GROUP BY jobs.id
+  ORDER BY COUNT(scoped.id) DESC, jobs.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,26 @@
+-- Where an applicant came from, taken from the utm_source and utm_campaign
+-- parameters of the job link they followed. Applications without a tagged
+-- link leave both empty and count as direct.
+ALTER TABLE applications
+  ADD COLUMN source TEXT CHECK (char_length(source) <= 100),
+  ADD COLUMN campaign TEXT CHECK (char_length(campaign) <= 100);
+
+-- Applicants and hires per source and campaign, for the analytics range
+CREATE OR REPLACE FUNCTION analytics_sources(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ, p_job_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  source TEXT,
+  campaign TEXT,
+  applications INTEGER,
+  in_progress INTEGER,
+  hired INTEGER
+) AS $$
+  SELECT
+    scoped.source,
+    scoped.campaign,
+    COUNT(*)::INTEGER,
+    COUNT(*) FILTER (WHERE scoped.status IN ('applied', 'viewed', 'shortlisted'))::INTEGER,
+    COUNT(*) FILTER (WHERE scoped.status = 'hired')::INTEGER
+  FROM recruiter_applications(p_from, p_to, p_job_id) scoped
+  GROUP BY scoped.source, scoped.campaign
+  ORDER BY COUNT(*) DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,100 @@
+-- Talent search. Job seekers opt in to being found by recruiters; until then
+-- only recruiters they applied to can see their profile.
+ALTER TABLE profiles ADD COLUMN open_to_opportunities BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_profiles_discoverable ON profiles(experience_years) WHERE role = 'job_seeker' AND open_to_opportunities;
+
+-- Policies on profiles can't query profiles themselves without recursing
+CREATE OR REPLACE FUNCTION is_recruiter()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'recruiter');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Profiles used to be readable by anyone, including contact details
+DROP POLICY "Users can view all profiles" ON profiles;
+
+CREATE POLICY "Users can view own profile"
+  ON profiles FOR SELECT
+  USING (id = auth.uid());
+
+CREATE POLICY "Recruiters can view their applicants' profiles"
+  ON profiles FOR SELECT
+  USING (is_applicant_of_recruiter(id));
+
+CREATE POLICY "Recruiters can view discoverable job seekers"
+  ON profiles FOR SELECT
+  USING (role = 'job_seeker' AND open_to_opportunities AND is_recruiter());
+
+-- Matches skill names the way the app compares them: case and spacing don't
+-- matter. Aliases such as "JS" for JavaScript are expanded by the caller, which
+-- passes each skill as a group of spellings.
+CREATE OR REPLACE FUNCTION count_matched_skill_groups(p_skills TEXT[], p_groups JSONB)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM jsonb_array_elements(COALESCE(p_groups, '[]'::jsonb)) skill_group
+  WHERE EXISTS (
+    SELECT 1
+    FROM unnest(COALESCE(p_skills, '{}')) skill
+    JOIN jsonb_array_elements_text(skill_group) spelling
+      ON lower(regexp_replace(trim(skill), '\s+', ' ', 'g')) = spelling
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Discoverable job seekers matching every filter. p_required_skills must all be
+-- present; p_ranking_skills (usually a job's required skills) order the results
+-- by how many of them each candidate has. Both are arrays of spelling groups.
+CREATE OR REPLACE FUNCTION search_candidates(
+  p_required_skills JSONB DEFAULT '[]',
+  p_ranking_skills JSONB DEFAULT '[]',
+  p_experience_min INTEGER DEFAULT NULL,
+  p_experience_max INTEGER DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 25,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  full_name TEXT,
+  email TEXT,
+  location TEXT,
+  bio TEXT,
+  skills TEXT[],
+  target_roles TEXT[],
+  experience_years INTEGER,
+  matched_skills INTEGER,
+  total_count BIGINT
+) AS $$
+BEGIN
+  IF NOT is_recruiter() THEN
+    RAISE EXCEPTION 'Only recruiters can search candidates';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    profiles.id,
+    profiles.full_name,
+    profiles.email,
+    profiles.location,
+    profiles.bio,
+    profiles.skills,
+    profiles.target_roles,
+    profiles.experience_years,
+    count_matched_skill_groups(profiles.skills, p_ranking_skills),
+    COUNT(*) OVER ()
+  FROM public.profiles
+  WHERE profiles.role = 'job_seeker'
+  AND profiles.open_to_opportunities
+  AND count_matched_skill_groups(profiles.skills, p_required_skills) = jsonb_array_length(COALESCE(p_required_skills, '[]'))
+  AND (p_experience_min IS NULL OR COALESCE(profiles.experience_years, 0) >= p_experience_min)
+  AND (p_experience_max IS NULL OR COALESCE(profiles.experience_years, 0) <= p_experience_max)
+  AND (p_location IS NULL OR profiles.location ILIKE '%' || p_location || '%')
+  AND (
+    p_query IS NULL
+    OR to_tsvector('english', COALESCE(profiles.bio, '')) @@ websearch_to_tsquery('english', p_query)
+  )
+  ORDER BY 9 DESC, profiles.experience_years DESC NULLS LAST, profiles.updated_at DESC NULLS LAST
+  LIMIT LEAST(p_limit, 100)
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,78 @@
+-- Bypasses RLS so the policies below don't recurse through applications and jobs
+CREATE OR REPLACE FUNCTION is_recruiter_of_application(p_application_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.applications
+    JOIN public.jobs ON jobs.id = applications.job_id
+    WHERE applications.id = p_application_id AND jobs.recruiter_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Mirrors normalizeReviewTag() in src/lib/applicationReview.ts, so filtering
+-- by a tag finds every application it was added to
+CREATE OR REPLACE FUNCTION valid_review_tags(p_tags TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT cardinality(p_tags) <= 20
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(p_tags) AS tag
+      WHERE tag !~ '^[a-z0-9]+(-[a-z0-9]+)*$' OR char_length(tag) > 40
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- A recruiter's private notes on an application. Applicants can't read this
+-- table at all, unlike the application row itself.
+CREATE TABLE application_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL DEFAULT auth.uid() REFERENCES profiles(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 5000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- The recruiter's rating and tags, one row per application once either is set
+CREATE TABLE application_reviews (
+  application_id UUID PRIMARY KEY REFERENCES applications(id) ON DELETE CASCADE,
+  rating SMALLINT CHECK (rating BETWEEN 1 AND 5),
+  tags TEXT[] NOT NULL DEFAULT '{}' CHECK (valid_review_tags(tags)),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_application_reviews_updated_at BEFORE UPDATE ON application_reviews
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE application_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE application_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Application note policies
+CREATE POLICY "Recruiters can view notes on their applicants"
+  ON application_notes FOR SELECT
+  USING (is_recruiter_of_application(application_id));
+
+CREATE POLICY "Recruiters can add notes on their applicants"
+  ON application_notes FOR INSERT
+  WITH CHECK (author_id = auth.uid() AND is_recruiter_of_application(application_id));
+
+CREATE POLICY "Recruiters can delete own notes"
+  ON application_notes FOR DELETE
+  USING (author_id = auth.uid() AND is_recruiter_of_application(application_id));
+
+-- Application review policies
+CREATE POLICY "Recruiters can view reviews of their applicants"
+  ON application_reviews FOR SELECT
+  USING (is_recruiter_of_application(application_id));
+
+CREATE POLICY "Recruiters can review their applicants"
+  ON application_reviews FOR INSERT
+  WITH CHECK (is_recruiter_of_application(application_id));
+
+CREATE POLICY "Recruiters can update reviews of their applicants"
+  ON application_reviews FOR UPDATE
+  USING (is_recruiter_of_application(application_id));
+
+CREATE POLICY "Recruiters can delete reviews of their applicants"
+  ON application_reviews FOR DELETE
+  USING (is_recruiter_of_application(application_id));
+
+CREATE INDEX idx_application_notes_application_id ON application_notes(application_id, created_at);
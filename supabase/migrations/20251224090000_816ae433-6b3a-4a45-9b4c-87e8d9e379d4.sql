@@ -0,0 +1,151 @@
+-- In-progress stages that report an application as "viewed". This used to be
+-- inferred from a stage named Viewed, which stopped working once renamed.
+ALTER TABLE job_stages
+  ADD COLUMN marks_viewed BOOLEAN NOT NULL DEFAULT false,
+  ADD CONSTRAINT job_stages_marks_viewed_in_progress CHECK (NOT (marks_viewed AND outcome IS NOT NULL));
+
+-- Stages the name match treated as viewed keep that meaning
+UPDATE job_stages SET marks_viewed = true WHERE outcome IS NULL AND lower(name) = 'viewed';
+
+ALTER TABLE hiring_stage_templates DISABLE TRIGGER update_hiring_stage_templates_updated_at;
+
+UPDATE hiring_stage_templates
+SET stages = (
+  SELECT jsonb_agg(
+    CASE
+      WHEN template_stage->>'outcome' IS NULL AND lower(template_stage->>'name') = 'viewed'
+        THEN template_stage || '{"marks_viewed": true}'::jsonb
+      ELSE template_stage
+    END
+    ORDER BY stage_index
+  )
+  FROM jsonb_array_elements(stages) WITH ORDINALITY AS t(template_stage, stage_index)
+)
+WHERE jsonb_array_length(stages) > 0;
+
+ALTER TABLE hiring_stage_templates ENABLE TRIGGER update_hiring_stage_templates_updated_at;
+
+-- Mirrors DEFAULT_STAGES in src/lib/hiringStages.ts
+CREATE OR REPLACE FUNCTION create_default_job_stages()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.job_stages (job_id, name, position, outcome, marks_viewed)
+  VALUES
+    (NEW.id, 'Applied', 0, NULL, false),
+    (NEW.id, 'Viewed', 1, NULL, true),
+    (NEW.id, 'Shortlisted', 2, NULL, false),
+    (NEW.id, 'Hired', 3, 'hired', false),
+    (NEW.id, 'Rejected', 4, 'rejected', false);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- New applications always start in the job's first stage, whatever stage_id
+-- the client sent, so an applicant can't file straight into Hired
+CREATE OR REPLACE FUNCTION sync_application_stage()
+RETURNS TRIGGER AS $$
+DECLARE
+  stage public.job_stages%ROWTYPE;
+  first_position INTEGER;
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.stage_id IS NULL THEN
+    SELECT * INTO stage FROM public.job_stages
+    WHERE job_id = NEW.job_id
+    ORDER BY position
+    LIMIT 1;
+    NEW.stage_id := stage.id;
+  ELSE
+    SELECT * INTO stage FROM public.job_stages WHERE id = NEW.stage_id;
+  END IF;
+
+  IF stage.id IS NULL THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.status := 'applied';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF stage.job_id <> NEW.job_id THEN
+    RAISE EXCEPTION 'Stage % does not belong to job %', stage.id, NEW.job_id;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND 'withdrawn' IN (OLD.status, NEW.status) THEN
+    NEW.status := 'withdrawn';
+    RETURN NEW;
+  END IF;
+
+  SELECT MIN(position) INTO first_position FROM public.job_stages WHERE job_id = NEW.job_id;
+
+  NEW.status := CASE
+    WHEN stage.outcome = 'hired' THEN 'hired'
+    WHEN stage.outcome = 'rejected' THEN 'rejected'
+    WHEN stage.outcome = 'withdrawn' THEN 'withdrawn'
+    WHEN stage.position = first_position THEN 'applied'
+    WHEN stage.marks_viewed THEN 'viewed'
+    ELSE 'shortlisted'
+  END::public.application_status;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Stages now carry "marks_viewed" alongside "name" and "outcome"
+CREATE OR REPLACE FUNCTION set_job_stages(p_job_id UUID, p_stages JSONB)
+RETURNS SETOF job_stages AS $$
+DECLARE
+  stage JSONB;
+  stage_position INTEGER := 0;
+  saved_id UUID;
+  kept_ids UUID[] := '{}';
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM jobs WHERE id = p_job_id AND recruiter_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the recruiter who posted this job can change its stages';
+  END IF;
+
+  IF jsonb_array_length(p_stages) = 0 THEN
+    RAISE EXCEPTION 'A job needs at least one stage';
+  END IF;
+
+  IF p_stages->0->>'outcome' IS NOT NULL THEN
+    RAISE EXCEPTION 'The first stage cannot be a final outcome';
+  END IF;
+
+  FOR stage IN SELECT * FROM jsonb_array_elements(p_stages) LOOP
+    saved_id := NULL;
+
+    IF stage->>'id' IS NOT NULL THEN
+      UPDATE job_stages
+      SET name = stage->>'name',
+          position = stage_position,
+          outcome = (stage->>'outcome')::stage_outcome,
+          marks_viewed = COALESCE((stage->>'marks_viewed')::BOOLEAN, false)
+      WHERE id = (stage->>'id')::UUID AND job_id = p_job_id
+      RETURNING id INTO saved_id;
+    END IF;
+
+    IF saved_id IS NULL THEN
+      INSERT INTO job_stages (job_id, name, position, outcome, marks_viewed)
+      VALUES (
+        p_job_id,
+        stage->>'name',
+        stage_position,
+        (stage->>'outcome')::stage_outcome,
+        COALESCE((stage->>'marks_viewed')::BOOLEAN, false)
+      )
+      RETURNING id INTO saved_id;
+    END IF;
+
+    kept_ids := kept_ids || saved_id;
+    stage_position := stage_position + 1;
+  END LOOP;
+
+  UPDATE applications
+  SET stage_id = kept_ids[1]
+  WHERE job_id = p_job_id
+  AND (stage_id IS NULL OR NOT stage_id = ANY(kept_ids));
+
+  DELETE FROM job_stages WHERE job_id = p_job_id AND NOT id = ANY(kept_ids);
+
+  RETURN QUERY SELECT * FROM job_stages WHERE job_id = p_job_id ORDER BY position;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,15 @@
+-- Saving a job keeps it visible after it is paused or closed (see
+-- has_saved_job), so only jobs that are open right now can be saved
+DROP POLICY "Users can save jobs" ON saved_jobs;
+
+CREATE POLICY "Users can save open jobs"
+  ON saved_jobs FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid() AND
+    EXISTS (SELECT 1 FROM jobs WHERE jobs.id = saved_jobs.job_id AND jobs.status = 'open')
+  );
+
+-- For the same reason a saved job can't be pointed at a different job later.
+-- Users only edit their notes and reminder date.
+REVOKE UPDATE ON saved_jobs FROM anon, authenticated;
+GRANT UPDATE (notes, remind_on) ON saved_jobs TO authenticated;
@@ -0,0 +1,25 @@
+-- accepted_answers and knockout_min give away the passing answers, so only
+-- the job's recruiter reads the question rows themselves
+DROP POLICY "Users can view questions of visible jobs" ON screening_questions;
+
+CREATE POLICY "Recruiters can view questions of own jobs"
+  ON screening_questions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM jobs WHERE jobs.id = screening_questions.job_id AND jobs.recruiter_id = auth.uid()));
+
+-- What an applicant needs to answer an open job's questions, without the
+-- knockout criteria
+CREATE OR REPLACE FUNCTION get_screening_questions(p_job_id UUID)
+RETURNS TABLE (
+  id UUID,
+  prompt TEXT,
+  question_type screening_question_type,
+  options TEXT[],
+  is_required BOOLEAN,
+  position INTEGER
+) AS $$
+  SELECT q.id, q.prompt, q.question_type, q.options, q.is_required, q.position
+  FROM public.screening_questions q
+  JOIN public.jobs ON jobs.id = q.job_id
+  WHERE q.job_id = p_job_id AND jobs.status = 'open'
+  ORDER BY q.position;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
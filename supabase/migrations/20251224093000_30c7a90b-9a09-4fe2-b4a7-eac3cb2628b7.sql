@@ -0,0 +1,55 @@
+-- Applications and their screening answers are now submitted together through
+-- submit_application(), so knockouts can't be skipped by leaving answers out
+DROP POLICY "Job seekers can create applications" ON applications;
+DROP POLICY "Applicants can answer on own applications" ON application_answers;
+
+-- p_answers maps question ids to answers. Every knockout question gets an
+-- answer row, blank if it was skipped, so apply_screening_knockouts() judges
+-- it like any other answer. Returns the new application's id.
+CREATE OR REPLACE FUNCTION submit_application(
+  p_job_id UUID,
+  p_cover_letter TEXT DEFAULT NULL,
+  p_resume_id UUID DEFAULT NULL,
+  p_source TEXT DEFAULT NULL,
+  p_campaign TEXT DEFAULT NULL,
+  p_answers JSONB DEFAULT '{}'
+)
+RETURNS UUID AS $$
+DECLARE
+  new_application_id UUID;
+  unanswered_prompt TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'job_seeker') THEN
+    RAISE EXCEPTION 'Only job seekers can apply to jobs';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM jobs WHERE id = p_job_id AND status = 'open') THEN
+    RAISE EXCEPTION 'This job is not accepting applications';
+  END IF;
+
+  SELECT prompt INTO unanswered_prompt
+  FROM screening_questions
+  WHERE job_id = p_job_id
+  AND is_required
+  AND nullif(btrim(p_answers->>id::TEXT), '') IS NULL
+  ORDER BY position
+  LIMIT 1;
+
+  IF unanswered_prompt IS NOT NULL THEN
+    RAISE EXCEPTION 'Please answer: %', unanswered_prompt;
+  END IF;
+
+  INSERT INTO applications (job_id, applicant_id, cover_letter, resume_id, source, campaign)
+  VALUES (p_job_id, auth.uid(), nullif(btrim(p_cover_letter), ''), p_resume_id, p_source, p_campaign)
+  RETURNING id INTO new_application_id;
+
+  INSERT INTO application_answers (application_id, question_id, answer)
+  SELECT new_application_id, q.id, nullif(btrim(p_answers->>q.id::TEXT), '')
+  FROM screening_questions q
+  WHERE q.job_id = p_job_id
+  AND (q.is_knockout OR nullif(btrim(p_answers->>q.id::TEXT), '') IS NOT NULL)
+  ORDER BY q.position;
+
+  RETURN new_application_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,35 @@
+-- Jobs posted paused raise their alerts once they open. Searches already
+-- alerted about a job aren't alerted again when it reopens.
+CREATE TRIGGER create_job_alerts_on_open
+  AFTER UPDATE OF status ON jobs
+  FOR EACH ROW
+  WHEN (NEW.status = 'open' AND OLD.status IS DISTINCT FROM 'open')
+  EXECUTE FUNCTION create_job_alerts();
+
+-- Digest emails are sent by the send-job-alert-digest edge function, called
+-- on the schedules below. The project URL and service role key are read from
+-- Vault on each run, so create both secrets once per project:
+--
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service-role-key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION request_job_alert_digest(p_frequency TEXT)
+RETURNS BIGINT AS $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-job-alert-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('frequency', p_frequency)
+  );
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Only the scheduler should send digests
+REVOKE EXECUTE ON FUNCTION request_job_alert_digest(TEXT) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('job-alert-digest-daily', '0 8 * * *', $$SELECT public.request_job_alert_digest('daily')$$);
+SELECT cron.schedule('job-alert-digest-weekly', '0 8 * * 1', $$SELECT public.request_job_alert_digest('weekly')$$);
@@ -0,0 +1,31 @@
+-- Only the applicant's own updates are limited to withdrawing. Updates made by
+-- other triggers while the applicant is signed in, such as
+-- apply_screening_knockouts() flagging or rejecting a failed answer, pass.
+CREATE OR REPLACE FUNCTION guard_applicant_update()
+RETURNS TRIGGER AS $$
+DECLARE
+  withdrawn_stage_id UUID;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM OLD.applicant_id OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM 'withdrawn' THEN
+    RAISE EXCEPTION 'Applicants can only withdraw their applications';
+  END IF;
+
+  IF OLD.status NOT IN ('applied', 'viewed', 'shortlisted') THEN
+    RAISE EXCEPTION 'Application % can no longer be withdrawn', OLD.id;
+  END IF;
+
+  SELECT id INTO withdrawn_stage_id FROM public.job_stages
+  WHERE job_id = OLD.job_id AND outcome = 'withdrawn'
+  ORDER BY position
+  LIMIT 1;
+
+  NEW := OLD;
+  NEW.status := 'withdrawn';
+  NEW.stage_id := COALESCE(withdrawn_stage_id, OLD.stage_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
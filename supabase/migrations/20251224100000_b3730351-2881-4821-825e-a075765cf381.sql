@@ -0,0 +1,124 @@
+-- A withdrawn application stays where the applicant left it. Moving it would
+-- keep the withdrawn status but show the candidate under the new stage on the
+-- board and in analytics.
+CREATE OR REPLACE FUNCTION sync_application_stage()
+RETURNS TRIGGER AS $$
+DECLARE
+  stage public.job_stages%ROWTYPE;
+  first_position INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status = 'withdrawn' THEN
+    -- Its stage was removed from the job; see set_job_stages()
+    IF NEW.stage_id IS NULL THEN
+      NEW.status := 'withdrawn';
+      RETURN NEW;
+    END IF;
+
+    IF NEW.stage_id IS DISTINCT FROM OLD.stage_id THEN
+      RAISE EXCEPTION 'Application % was withdrawn and can no longer change stage', OLD.id;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.stage_id IS NULL THEN
+    SELECT * INTO stage FROM public.job_stages
+    WHERE job_id = NEW.job_id
+    ORDER BY position
+    LIMIT 1;
+    NEW.stage_id := stage.id;
+  ELSE
+    SELECT * INTO stage FROM public.job_stages WHERE id = NEW.stage_id;
+  END IF;
+
+  IF stage.id IS NULL THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.status := 'applied';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF stage.job_id <> NEW.job_id THEN
+    RAISE EXCEPTION 'Stage % does not belong to job %', stage.id, NEW.job_id;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND 'withdrawn' IN (OLD.status, NEW.status) THEN
+    NEW.status := 'withdrawn';
+    RETURN NEW;
+  END IF;
+
+  SELECT MIN(position) INTO first_position FROM public.job_stages WHERE job_id = NEW.job_id;
+
+  NEW.status := CASE
+    WHEN stage.outcome = 'hired' THEN 'hired'
+    WHEN stage.outcome = 'rejected' THEN 'rejected'
+    WHEN stage.outcome = 'withdrawn' THEN 'withdrawn'
+    WHEN stage.position = first_position THEN 'applied'
+    WHEN stage.marks_viewed THEN 'viewed'
+    ELSE 'shortlisted'
+  END::public.application_status;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Withdrawn applications in a removed stage are left without a stage rather
+-- than moved to the first one
+CREATE OR REPLACE FUNCTION set_job_stages(p_job_id UUID, p_stages JSONB)
+RETURNS SETOF job_stages AS $$
+DECLARE
+  stage JSONB;
+  stage_position INTEGER := 0;
+  saved_id UUID;
+  kept_ids UUID[] := '{}';
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM jobs WHERE id = p_job_id AND recruiter_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the recruiter who posted this job can change its stages';
+  END IF;
+
+  IF jsonb_array_length(p_stages) = 0 THEN
+    RAISE EXCEPTION 'A job needs at least one stage';
+  END IF;
+
+  IF p_stages->0->>'outcome' IS NOT NULL THEN
+    RAISE EXCEPTION 'The first stage cannot be a final outcome';
+  END IF;
+
+  FOR stage IN SELECT * FROM jsonb_array_elements(p_stages) LOOP
+    saved_id := NULL;
+
+    IF stage->>'id' IS NOT NULL THEN
+      UPDATE job_stages
+      SET name = stage->>'name',
+          position = stage_position,
+          outcome = (stage->>'outcome')::stage_outcome,
+          marks_viewed = COALESCE((stage->>'marks_viewed')::BOOLEAN, false)
+      WHERE id = (stage->>'id')::UUID AND job_id = p_job_id
+      RETURNING id INTO saved_id;
+    END IF;
+
+    IF saved_id IS NULL THEN
+      INSERT INTO job_stages (job_id, name, position, outcome, marks_viewed)
+      VALUES (
+        p_job_id,
+        stage->>'name',
+        stage_position,
+        (stage->>'outcome')::stage_outcome,
+        COALESCE((stage->>'marks_viewed')::BOOLEAN, false)
+      )
+      RETURNING id INTO saved_id;
+    END IF;
+
+    kept_ids := kept_ids || saved_id;
+    stage_position := stage_position + 1;
+  END LOOP;
+
+  UPDATE applications
+  SET stage_id = kept_ids[1]
+  WHERE job_id = p_job_id
+  AND status <> 'withdrawn'
+  AND (stage_id IS NULL OR NOT stage_id = ANY(kept_ids));
+
+  DELETE FROM job_stages WHERE job_id = p_job_id AND NOT id = ANY(kept_ids);
+
+  RETURN QUERY SELECT * FROM job_stages WHERE job_id = p_job_id ORDER BY position;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
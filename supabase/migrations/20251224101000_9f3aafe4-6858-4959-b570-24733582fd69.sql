@@ -0,0 +1,5 @@
+-- Sends the saved job reminders that are due every morning. Rescheduling
+-- under the same name replaces the job, so this is safe to apply again.
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule('saved-job-reminders', '0 7 * * *', $$SELECT public.send_saved_job_reminders()$$);
@@ -0,0 +1,90 @@
+-- Profile skills are now read the way normalizeSkill() in src/lib/skillMatch.ts
+-- reads them, so candidate search and job matching agree on punctuation
+-- variants such as "React-JS". The new parameter lists every spelling in the
+-- alias table.
+DROP FUNCTION search_candidates(JSONB, JSONB, INTEGER, INTEGER, TEXT, TEXT, INTEGER, INTEGER);
+DROP FUNCTION count_matched_skill_groups(TEXT[], JSONB);
+
+-- A skill is looked up as written, then with spaces, dots and hyphens removed,
+-- and is compared as written when neither is a known spelling
+CREATE OR REPLACE FUNCTION count_matched_skill_groups(p_skills TEXT[], p_groups JSONB, p_known_spellings TEXT[])
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM jsonb_array_elements(COALESCE(p_groups, '[]'::jsonb)) skill_group
+  WHERE EXISTS (
+    SELECT 1
+    FROM unnest(COALESCE(p_skills, '{}')) skill
+    CROSS JOIN LATERAL (
+      SELECT lower(regexp_replace(btrim(skill), '\s+', ' ', 'g')) AS cleaned
+    ) cleaned_skill
+    CROSS JOIN LATERAL (
+      SELECT regexp_replace(cleaned_skill.cleaned, '[\s.-]', '', 'g') AS stripped
+    ) stripped_skill
+    WHERE skill_group ? CASE
+      WHEN cleaned_skill.cleaned = ANY(p_known_spellings) THEN cleaned_skill.cleaned
+      WHEN stripped_skill.stripped = ANY(p_known_spellings) THEN stripped_skill.stripped
+      ELSE cleaned_skill.cleaned
+    END
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Discoverable job seekers matching every filter. p_required_skills must all be
+-- present; p_ranking_skills (usually a job's required skills) order the results
+-- by how many of them each candidate has. Both are arrays of spelling groups.
+CREATE OR REPLACE FUNCTION search_candidates(
+  p_required_skills JSONB DEFAULT '[]',
+  p_ranking_skills JSONB DEFAULT '[]',
+  p_known_skills TEXT[] DEFAULT '{}',
+  p_experience_min INTEGER DEFAULT NULL,
+  p_experience_max INTEGER DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 25,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  full_name TEXT,
+  email TEXT,
+  location TEXT,
+  bio TEXT,
+  skills TEXT[],
+  target_roles TEXT[],
+  experience_years INTEGER,
+  matched_skills INTEGER,
+  total_count BIGINT
+) AS $$
+BEGIN
+  IF NOT is_recruiter() THEN
+    RAISE EXCEPTION 'Only recruiters can search candidates';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    profiles.id,
+    profiles.full_name,
+    profiles.email,
+    profiles.location,
+    profiles.bio,
+    profiles.skills,
+    profiles.target_roles,
+    profiles.experience_years,
+    count_matched_skill_groups(profiles.skills, p_ranking_skills, p_known_skills),
+    COUNT(*) OVER ()
+  FROM public.profiles
+  WHERE profiles.role = 'job_seeker'
+  AND profiles.open_to_opportunities
+  AND count_matched_skill_groups(profiles.skills, p_required_skills, p_known_skills)
+    = jsonb_array_length(COALESCE(p_required_skills, '[]'))
+  AND (p_experience_min IS NULL OR COALESCE(profiles.experience_years, 0) >= p_experience_min)
+  AND (p_experience_max IS NULL OR COALESCE(profiles.experience_years, 0) <= p_experience_max)
+  AND (p_location IS NULL OR profiles.location ILIKE '%' || p_location || '%')
+  AND (
+    p_query IS NULL
+    OR to_tsvector('english', COALESCE(profiles.bio, '')) @@ websearch_to_tsquery('english', p_query)
+  )
+  ORDER BY 9 DESC, profiles.experience_years DESC NULLS LAST, profiles.updated_at DESC NULLS LAST
+  LIMIT LEAST(p_limit, 100)
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,118 @@
+-- Reads a whole-number filter such as salary_min, or NULL when it is missing
+-- or not something job_matches_search() can compare as an INTEGER
+CREATE OR REPLACE FUNCTION saved_search_integer(p_filters JSONB, p_key TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_filters->p_key) = 'number' AND p_filters->>p_key ~ '^[0-9]{1,9}$'
+      THEN (p_filters->>p_key)::INTEGER
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Mirrors StoredFilters in src/lib/savedSearches.ts. Unknown keys are ignored
+-- by the matcher, and a JSON null means the filter is unset.
+CREATE OR REPLACE FUNCTION valid_saved_search_filter(p_key TEXT, p_value JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT jsonb_typeof(p_value) = 'null' OR CASE
+    WHEN p_key IN ('query', 'location') THEN jsonb_typeof(p_value) = 'string'
+    WHEN p_key = 'job_types' THEN
+      CASE
+        WHEN jsonb_typeof(p_value) = 'array' THEN NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements(p_value) AS job_type
+          WHERE jsonb_typeof(job_type) <> 'string'
+        )
+        ELSE false
+      END
+    WHEN p_key IN ('salary_min', 'salary_max', 'experience_min', 'experience_max', 'posted_within_days')
+      THEN saved_search_integer(jsonb_build_object(p_key, p_value), p_key) IS NOT NULL
+    ELSE true
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION valid_saved_search_filters(p_filters JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_filters) = 'object' THEN NOT EXISTS (
+      SELECT 1 FROM jsonb_each(p_filters) AS f
+      WHERE NOT valid_saved_search_filter(f.key, f.value)
+    )
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Drop the filters the app could never have written so the constraint can be
+-- added, rather than deleting the user's search
+UPDATE saved_searches
+SET filters = CASE
+  WHEN jsonb_typeof(filters) = 'object' THEN (
+    SELECT coalesce(jsonb_object_agg(f.key, f.value), '{}'::jsonb)
+    FROM jsonb_each(filters) AS f
+    WHERE valid_saved_search_filter(f.key, f.value)
+  )
+  ELSE '{}'::jsonb
+END
+WHERE NOT valid_saved_search_filters(filters);
+
+ALTER TABLE saved_searches
+  ADD CONSTRAINT saved_searches_filters_valid CHECK (valid_saved_search_filters(filters));
+
+-- Same predicates as before, but a filter of the wrong shape is treated as
+-- unset instead of failing the cast
+CREATE OR REPLACE FUNCTION job_matches_search(p_job jobs, p_filters JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT
+    p_job.status = 'open'
+    AND (
+      nullif(trim(p_filters->>'query'), '') IS NULL
+      OR p_job.search_vector @@ websearch_to_tsquery('english', p_filters->>'query')
+      OR trim(p_filters->>'query') <% p_job.title
+      OR trim(p_filters->>'query') <% p_job.company_name
+    )
+    AND (
+      nullif(trim(p_filters->>'location'), '') IS NULL
+      OR p_job.location ILIKE '%' || trim(p_filters->>'location') || '%'
+    )
+    AND (
+      CASE
+        WHEN jsonb_typeof(p_filters->'job_types') IS DISTINCT FROM 'array' THEN true
+        WHEN jsonb_array_length(p_filters->'job_types') = 0 THEN true
+        ELSE p_job.job_type IN (SELECT jsonb_array_elements_text(p_filters->'job_types'))
+      END
+    )
+    AND (
+      saved_search_integer(p_filters, 'salary_min') IS NULL
+      OR coalesce(p_job.salary_max, p_job.salary_min) >= saved_search_integer(p_filters, 'salary_min')
+    )
+    AND (
+      saved_search_integer(p_filters, 'salary_max') IS NULL
+      OR coalesce(p_job.salary_min, p_job.salary_max) <= saved_search_integer(p_filters, 'salary_max')
+    )
+    AND (
+      saved_search_integer(p_filters, 'experience_min') IS NULL
+      OR coalesce(p_job.experience_required, 0) >= saved_search_integer(p_filters, 'experience_min')
+    )
+    AND (
+      saved_search_integer(p_filters, 'experience_max') IS NULL
+      OR coalesce(p_job.experience_required, 0) <= saved_search_integer(p_filters, 'experience_max')
+    );
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
+
+-- Alerts are a side effect of posting or reopening a job, so a failure here
+-- is logged and the job write still goes through
+CREATE OR REPLACE FUNCTION create_job_alerts()
+RETURNS TRIGGER AS $$
+BEGIN
+  BEGIN
+    INSERT INTO public.job_alerts (saved_search_id, user_id, job_id)
+    SELECT s.id, s.user_id, NEW.id
+    FROM public.saved_searches s
+    WHERE s.user_id <> NEW.recruiter_id
+      AND valid_saved_search_filters(s.filters)
+      AND job_matches_search(NEW, s.filters)
+    ON CONFLICT (saved_search_id, job_id) DO NOTHING;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE WARNING 'Could not create job alerts for job %: %', NEW.id, SQLERRM;
+  END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;